@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+import process from 'node:process'
+import { runCli } from './cli'
+
+process.exitCode = runCli(process.argv.slice(2))
@@ -0,0 +1,226 @@
+import type { Field } from './field/type'
+import type { FormValidationError } from './form'
+import type { LintProblem } from './lint'
+import type { JsfObjectSchema, SchemaValue } from './types'
+import { readFileSync } from 'node:fs'
+import process from 'node:process'
+import { parseArgs } from 'node:util'
+import { createHeadlessForm, createValidator } from './form'
+import { lintSchema } from './lint'
+
+/**
+ * Input and output of the command-line tool, so that it can be run without the file system and the console
+ */
+export interface CliIO {
+  /**
+   * Read a file as text
+   */
+  readFile: (path: string) => string
+  /**
+   * Write to the standard output
+   */
+  stdout: (text: string) => void
+  /**
+   * Write to the standard error
+   */
+  stderr: (text: string) => void
+}
+
+/**
+ * Exit codes of the command-line tool
+ * - `0`: the command succeeded (the payloads are valid, or the schema only has lint warnings)
+ * - `1`: a payload is invalid, or the schema has lint errors
+ * - `2`: the command couldn't run (wrong usage, unreadable files, invalid JSON or schema)
+ */
+export const EXIT_CODES = { success: 0, failure: 1, error: 2 } as const
+
+const USAGE = `Usage: jsf <command> [options]
+
+Commands:
+  validate <schema> <data...>  Validate JSON payloads against a form schema
+  lint <schema>                Check the x-jsf-* extensions of a schema
+  fields <schema>              Print the fields of the form built from a schema
+
+Options:
+  --json             Print the output as JSON
+  --locale <locale>  Locale of the error messages (validate)
+  --help             Print this message
+`
+
+const COMMANDS = ['validate', 'lint', 'fields']
+
+const defaultIO: CliIO = {
+  readFile: path => readFileSync(path, 'utf8'),
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+}
+
+/**
+ * Run the command-line tool
+ * @param args - The command-line arguments (without the node executable and the script)
+ * @param io - The input and output of the tool
+ * @returns The exit code
+ * @example
+ * runCli(['validate', 'schema.json', 'fixtures/employee.json', '--json'])
+ */
+export function runCli(args: string[], io: CliIO = defaultIO): number {
+  let parsed: ReturnType<typeof parseCliArgs>
+  try {
+    parsed = parseCliArgs(args)
+  }
+  catch (error) {
+    io.stderr(`${(error as Error).message}\n\n${USAGE}`)
+    return EXIT_CODES.error
+  }
+
+  const { values: options, positionals: [command, schemaPath, ...dataPaths] } = parsed
+
+  if (options.help) {
+    io.stdout(USAGE)
+    return EXIT_CODES.success
+  }
+
+  if (!command) {
+    io.stderr(USAGE)
+    return EXIT_CODES.error
+  }
+
+  if (!COMMANDS.includes(command)) {
+    io.stderr(`Unknown command "${command}".\n\n${USAGE}`)
+    return EXIT_CODES.error
+  }
+
+  // Only `validate` takes data files, after the schema
+  if (!schemaPath || (command === 'validate') !== (dataPaths.length > 0)) {
+    const expected = command === 'validate' ? 'a schema file and at least one data file' : 'a schema file'
+    io.stderr(`The ${command} command expects ${expected}.\n\n${USAGE}`)
+    return EXIT_CODES.error
+  }
+
+  try {
+    const schema = readJson(schemaPath, io) as JsfObjectSchema
+
+    switch (command) {
+      case 'validate':
+        return validateFiles(schema, dataPaths, io, options)
+      case 'lint':
+        return lintFile(schema, schemaPath, io, options)
+      default:
+        return printFields(schema, io, options)
+    }
+  }
+  catch (error) {
+    io.stderr(`${(error as Error).message}\n`)
+    return EXIT_CODES.error
+  }
+}
+
+function parseCliArgs(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean' },
+      locale: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+}
+
+interface CliOptions {
+  json?: boolean
+  locale?: string
+}
+
+/**
+ * Read and parse a JSON file
+ * @throws {Error} If the file can't be read or isn't valid JSON
+ */
+function readJson(path: string, io: CliIO): unknown {
+  let content: string
+  try {
+    content = io.readFile(path)
+  }
+  catch (error) {
+    throw new Error(`Could not read "${path}": ${(error as Error).message}`)
+  }
+
+  try {
+    return JSON.parse(content)
+  }
+  catch (error) {
+    throw new Error(`Could not parse "${path}": ${(error as Error).message}`)
+  }
+}
+
+function formatError(error: FormValidationError): string {
+  return `  ${error.pointer || '/'}: ${error.message}`
+}
+
+/**
+ * Validate payloads against a schema, with the same messages as the forms
+ */
+function validateFiles(schema: JsfObjectSchema, dataPaths: string[], io: CliIO, options: CliOptions): number {
+  const { validate } = createValidator(schema, { locale: options.locale })
+  const results = dataPaths.map((path) => {
+    const { errors = [], warnings = [] } = validate(readJson(path, io) as SchemaValue)
+    return { file: path, valid: errors.length === 0, errors, warnings }
+  })
+
+  if (options.json) {
+    io.stdout(`${JSON.stringify(results, null, 2)}\n`)
+  }
+  else {
+    for (const { file, valid, errors, warnings } of results) {
+      const lines = [
+        `${file}: ${valid ? 'valid' : 'invalid'}`,
+        ...errors.map(formatError),
+        ...warnings.map(warning => `${formatError(warning)} (warning)`),
+      ]
+      io.stdout(`${lines.join('\n')}\n`)
+    }
+  }
+
+  return results.every(({ valid }) => valid) ? EXIT_CODES.success : EXIT_CODES.failure
+}
+
+/**
+ * Lint a schema, failing only for errors (not warnings)
+ */
+function lintFile(schema: JsfObjectSchema, schemaPath: string, io: CliIO, options: CliOptions): number {
+  const problems = lintSchema(schema)
+  const hasErrors = problems.some(({ severity }) => severity === 'error')
+
+  if (options.json) {
+    io.stdout(`${JSON.stringify(problems, null, 2)}\n`)
+  }
+  else if (problems.length === 0) {
+    io.stdout(`${schemaPath}: no problems\n`)
+  }
+  else {
+    const formatProblem = ({ severity, pointer, message, rule }: LintProblem) => `  ${severity.padEnd(7)} ${pointer || '/'}: ${message} (${rule})`
+    io.stdout(`${[schemaPath, ...problems.map(formatProblem)].join('\n')}\n`)
+  }
+
+  return hasErrors ? EXIT_CODES.failure : EXIT_CODES.success
+}
+
+/**
+ * Print the fields of the form, as a tree of names and input types (or as JSON)
+ */
+function printFields(schema: JsfObjectSchema, io: CliIO, options: CliOptions): number {
+  const { fields } = createHeadlessForm(schema)
+
+  if (options.json) {
+    io.stdout(`${JSON.stringify(fields, null, 2)}\n`)
+    return EXIT_CODES.success
+  }
+
+  const formatFields = (fields: Field[], depth: number): string[] => fields.flatMap(field => [
+    `${'  '.repeat(depth)}${field.name} (${field.inputType})${field.required ? ' required' : ''}${field.isVisible ? '' : ' hidden'}`,
+    ...formatFields(field.fields ?? [], depth + 1),
+  ])
+
+  io.stdout(`${formatFields(fields, 0).join('\n')}\n`)
+  return EXIT_CODES.success
+}
@@ -0,0 +1,80 @@
+import type { JsfSchema, JsfSchemaType, ObjectValue, SchemaValue } from './types'
+import { getSchemaType } from './validation/schema'
+import { isObjectValue } from './validation/util'
+
+/**
+ * Plain decimal numbers (e.g. `'42'`, `'-1.5'` or `'.5'`), with optional surrounding spaces.
+ * Unlike `Number()`, hexadecimal, binary and octal numbers (e.g. `'0x10'`), exponents (e.g. `'1e2'`) and `'Infinity'` are not accepted.
+ */
+const DECIMAL_NUMBER = /^\s*-?(?:\d+(?:\.\d*)?|\.\d+)\s*$/
+
+/**
+ * Convert raw input values (e.g. the strings of HTML inputs) to the types of their schemas, recursively
+ * through object properties and array items:
+ * - Strings are converted to numbers and integers (only plain decimal numbers, e.g. `'-1.5'`) and booleans (`'true'`/`'false'`)
+ * - Empty strings are converted to `null` for nullable fields
+ * - Single values are wrapped in an array for array fields (e.g. multi-selects with one option selected), except empty strings
+ *
+ * Values that can't be converted are kept as they are, so they fail the `type` validation of their field.
+ * @param value - The raw value
+ * @param schema - The schema of the value
+ * @returns The coerced value (the raw value isn't mutated)
+ */
+export function coerceValue(value: SchemaValue, schema: JsfSchema): SchemaValue {
+  if (typeof schema !== 'object' || value === undefined) {
+    return value
+  }
+
+  const schemaType = getSchemaType(schema)
+  const types = schemaType === undefined ? [] : [schemaType].flat()
+  let coercedValue = typeof value === 'string' ? coerceString(value, types) : value
+
+  // A blank input isn't a selected option, so it's kept as it is instead of becoming `['']`
+  if (types.includes('array') && isScalar(coercedValue) && coercedValue !== '' && !types.includes(typeof coercedValue as JsfSchemaType)) {
+    coercedValue = [coercedValue]
+  }
+
+  if (Array.isArray(coercedValue)) {
+    const prefixItems = Array.isArray(schema.prefixItems) ? schema.prefixItems as JsfSchema[] : []
+    return coercedValue.map((item, index) => coerceValue(item, prefixItems[index] ?? schema.items ?? true))
+  }
+
+  if (isObjectValue(coercedValue) && schema.properties) {
+    const object: ObjectValue = { ...coercedValue }
+    for (const [key, property] of Object.entries(schema.properties)) {
+      if (Object.hasOwn(object, key)) {
+        object[key] = coerceValue(object[key], property)
+      }
+    }
+    return object
+  }
+
+  return coercedValue
+}
+
+function coerceString(value: string, types: JsfSchemaType[]): SchemaValue {
+  if (value === '' && types.includes('null')) {
+    return null
+  }
+
+  if (types.length === 0 || types.includes('string')) {
+    return value
+  }
+
+  if ((types.includes('number') || types.includes('integer')) && DECIMAL_NUMBER.test(value)) {
+    const number = Number(value)
+    if (Number.isFinite(number) && (types.includes('number') || Number.isInteger(number))) {
+      return number
+    }
+  }
+
+  if (types.includes('boolean') && (value === 'true' || value === 'false')) {
+    return value === 'true'
+  }
+
+  return value
+}
+
+function isScalar(value: SchemaValue): value is string | number | boolean {
+  return ['string', 'number', 'boolean'].includes(typeof value)
+}
@@ -0,0 +1,89 @@
+import type { JsfObjectSchema, JsfSchema, JsonLogicContext, NonBooleanJsfSchema, ObjectValue, SchemaValue } from './types'
+import type { ValidationOptions } from './validation/schema'
+import { evaluateIfCondition } from './validation/conditions'
+import { getJsonLogicContextFromSchema } from './validation/json-logic'
+import { createRefResolver } from './validation/ref'
+import { deepEqual, hasProperty, isObjectValue, safeDeepClone } from './validation/util'
+
+/**
+ * Fill the `default` values of a schema into some values, without overriding the existing ones.
+ * Defaults are applied to nested objects, to the items of arrays, and from the `then`/`else` branches
+ * (and dependent schemas) that apply to the values.
+ * @param schema - The dereferenced schema
+ * @param values - The values to fill
+ * @param options - Validation options, used to evaluate the conditions
+ * @returns New values with the defaults
+ */
+export function applySchemaDefaults(schema: JsfObjectSchema, values: ObjectValue, options: ValidationOptions = {}): ObjectValue {
+  // Conditions are evaluated against subschemas, so references ($ref) must be resolved against the root schema
+  const rulesOptions = { ...options, refResolver: createRefResolver(schema, options.schemaRegistry) }
+  let previousValues: ObjectValue
+  let currentValues = values
+
+  // Defaults can make other conditions match, so they're applied until no value is added.
+  // Values are only ever added, so this ends once the defaults of all the matching branches are applied.
+  do {
+    previousValues = currentValues
+    const jsonLogicContext = schema['x-jsf-logic'] ? getJsonLogicContextFromSchema(schema['x-jsf-logic'], previousValues) : undefined
+    currentValues = fillDefaults(schema, previousValues, rulesOptions, jsonLogicContext) as ObjectValue
+  } while (!deepEqual(previousValues, currentValues))
+
+  return currentValues
+}
+
+function fillDefaults(schema: JsfSchema, value: SchemaValue, options: ValidationOptions, jsonLogicContext: JsonLogicContext | undefined): SchemaValue {
+  if (typeof schema !== 'object' || schema === null) {
+    return value
+  }
+
+  const filledValue = value === undefined && schema.default !== undefined ? safeDeepClone(schema.default as SchemaValue) : value
+
+  if (Array.isArray(filledValue)) {
+    const items = schema.items
+    return typeof items === 'object'
+      ? filledValue.map(item => item === undefined ? item : fillDefaults(items, item, options, jsonLogicContext))
+      : filledValue
+  }
+
+  if (filledValue !== undefined && !isObjectValue(filledValue)) {
+    return filledValue
+  }
+
+  let object: ObjectValue = { ...filledValue }
+
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    const propertyValue = fillDefaults(property, object[key], options, jsonLogicContext)
+    if (propertyValue !== undefined) {
+      object[key] = propertyValue
+    }
+  }
+
+  for (const branch of getMatchingBranches(schema, object, options, jsonLogicContext)) {
+    object = fillDefaults(branch, object, options, jsonLogicContext) as ObjectValue
+  }
+
+  // Objects are only created when they have some default
+  return filledValue === undefined && Object.keys(object).length === 0 ? undefined : object
+}
+
+/**
+ * Get the subschemas that apply to an object: the `then`/`else` branches of its conditionals (`if` and `allOf`)
+ * for its values, and the dependent schemas of its filled properties
+ */
+function getMatchingBranches(schema: NonBooleanJsfSchema, value: ObjectValue, options: ValidationOptions, jsonLogicContext: JsonLogicContext | undefined): JsfSchema[] {
+  const rules = [schema, ...(schema.allOf ?? []) as JsfSchema[]]
+  const branches = rules.flatMap((rule) => {
+    if (typeof rule !== 'object' || rule.if === undefined) {
+      return []
+    }
+
+    const branch = evaluateIfCondition(value, rule.if, options, jsonLogicContext) ? rule.then : rule.else
+    return branch === undefined ? [] : [branch]
+  })
+
+  const dependentSchemas = Object.entries(schema.dependentSchemas ?? {})
+    .filter(([key]) => hasProperty(value, key, options.treatNullAsUndefined))
+    .map(([, dependentSchema]) => dependentSchema)
+
+  return [...branches, ...dependentSchemas]
+}
@@ -15,6 +15,16 @@ export type SchemaValidationErrorType =
   | 'const'
   | 'enum'
   | 'additionalProperties'
+  | 'unevaluatedProperties'
+  | 'unevaluatedItems'
+  | 'dependentRequired'
+  | 'dependentSchemas'
+  /**
+   * Object validation keywords
+   */
+  | 'propertyNames'
+  | 'minProperties'
+  | 'maxProperties'
   /**
    * Schema composition keywords (allOf, anyOf, oneOf, not)
    * These keywords apply subschemas in a logical manner according to JSON Schema spec
@@ -57,6 +67,19 @@ export type SchemaValidationErrorType =
    */
   | 'json-logic'
 
+/**
+ * The type of the validation errors of a custom keyword, which is the name of the keyword
+ * @see ValidationOptions.customKeywords
+ */
+export type CustomKeywordErrorType = string & Record<never, never>
+
+/**
+ * The severity of a validation error
+ * - `error`: the value is invalid
+ * - `warning`: the value is valid, but something might be wrong (e.g. "Salary is unusually high")
+ */
+export type ValidationSeverity = 'error' | 'warning'
+
 export type ValidationErrorPath = Array<string | number>
 
 /**
@@ -81,7 +104,7 @@ export interface ValidationError {
    * @example
    * 'required'
    */
-  validation: SchemaValidationErrorType
+  validation: SchemaValidationErrorType | CustomKeywordErrorType
   /**
    * The schema that has a failed validation
    */
@@ -96,4 +119,57 @@ export interface ValidationError {
    * 'The value is not valid'
    */
   customErrorMessage?: string
+  /**
+   * The severity of the error (errors without a severity are `error`)
+   */
+  severity?: ValidationSeverity
 }
+
+/**
+ * Key of a message in an error message catalog
+ * @description
+ * Each validation error type has a message. Some of them have variants, named `<validation>.<variant>`:
+ * - `type.<jsonType>` for each JSON type, `type.multiple` (and `type.separator`) when the schema accepts several types
+ * - `required.checkbox` for checkboxes that must be acknowledged (also used by `const` and `dependentRequired`)
+ * - `<validation>.one` for the singular form of counts (e.g. `minItems.one`)
+ * - `pattern.example`, `format.email`, `format.date`, `maxFileSize.limit` and `accept.formats` when extra details are available
+ * - `format.<name>` for any other format (e.g. custom formats)
+ * - `<keyword>` for custom keywords
+ */
+export type ErrorMessageKey =
+  | SchemaValidationErrorType
+  | CustomKeywordErrorType
+  | 'type.string'
+  | 'type.number'
+  | 'type.boolean'
+  | 'type.null'
+  | 'type.object'
+  | 'type.array'
+  | 'type.other'
+  | 'type.multiple'
+  | 'type.separator'
+  | 'required.checkbox'
+  | 'pattern.example'
+  | 'format.email'
+  | 'format.date'
+  | `format.${string}`
+  | 'maxFileSize.limit'
+  | 'accept.formats'
+  | 'minItems.one'
+  | 'maxItems.one'
+  | 'minContains.one'
+  | 'maxContains.one'
+  | 'minProperties.one'
+  | 'maxProperties.one'
+  | 'default'
+
+/**
+ * Catalog of error messages for a locale.
+ * Messages can have placeholders (e.g. `{minLength}`) that are replaced by the values of the schema keywords
+ * with the same name, plus `{value}` (the invalid value), `{example}`, `{types}`, `{dateFormat}` and `{formats}`.
+ * @example
+ * {
+ *   minLength: 'Please insert at least {minLength} characters',
+ * }
+ */
+export type ErrorMessageCatalog = Record<ErrorMessageKey, string>
@@ -0,0 +1,72 @@
+import type { ErrorMessageCatalog } from '..'
+
+export const de: ErrorMessageCatalog = {
+  // Core validation
+  'type': 'Ungültiger Wert',
+  'type.string': 'Der Wert muss ein Text sein',
+  'type.number': 'Der Wert muss eine Zahl sein',
+  'type.boolean': 'Der Wert muss ein Wahrheitswert sein',
+  'type.null': 'Der Wert muss null sein',
+  'type.object': 'Der Wert muss ein Objekt sein',
+  'type.array': 'Der Wert muss eine Liste sein',
+  'type.other': 'Der Wert muss {type} sein',
+  'type.multiple': 'Der Wert muss vom Typ {types} sein',
+  'type.separator': ' oder ',
+  'required': 'Pflichtfeld',
+  'required.checkbox': 'Bitte bestätigen Sie dieses Feld',
+  'forbidden': 'Nicht erlaubt',
+  'const': 'Der einzige zulässige Wert ist {const}.',
+  'enum': 'Die Option "{value}" ist ungültig.',
+  'dependentRequired': 'Pflichtfeld',
+  'dependentSchemas': 'In Kombination mit den anderen Werten nicht erlaubt',
+  // Schema composition
+  'oneOf': 'Die Option "{value}" ist ungültig.',
+  'anyOf': 'Die Option "{value}" ist ungültig.',
+  'not': 'Der Wert darf das angegebene Schema nicht erfüllen',
+  // String validation
+  'minLength': 'Bitte geben Sie mindestens {minLength} Zeichen ein',
+  'maxLength': 'Bitte geben Sie höchstens {maxLength} Zeichen ein',
+  'pattern': 'Muss ein gültiges Format haben',
+  'pattern.example': 'Muss ein gültiges Format haben. Z. B. {example}',
+  'format': 'Muss ein gültiges {format}-Format haben',
+  'format.email': 'Bitte geben Sie eine gültige E-Mail-Adresse ein',
+  'format.date': 'Muss ein gültiges Datum im Format {dateFormat} sein. Z. B. {example}',
+  // Number validation
+  'multipleOf': 'Muss ein Vielfaches von {multipleOf} sein',
+  'maximum': 'Muss kleiner oder gleich {maximum} sein',
+  'exclusiveMaximum': 'Muss kleiner als {exclusiveMaximum} sein',
+  'minimum': 'Muss größer oder gleich {minimum} sein',
+  'exclusiveMinimum': 'Muss größer als {exclusiveMinimum} sein',
+  // Date validation
+  'minDate': 'Das Datum muss am oder nach dem {minDate} liegen.',
+  'maxDate': 'Das Datum muss am oder vor dem {maxDate} liegen.',
+  // File validation
+  'fileStructure': 'Keine gültige Datei.',
+  'maxFileSize': 'Die Datei ist zu groß.',
+  'maxFileSize.limit': 'Die Datei ist zu groß. Das Limit beträgt {maxFileSize} MB.',
+  'accept': 'Nicht unterstütztes Dateiformat.',
+  'accept.formats': 'Nicht unterstütztes Dateiformat. Zulässige Formate sind {formats}.',
+  // Arrays
+  'minItems': 'Muss mindestens {minItems} Einträge haben',
+  'minItems.one': 'Muss mindestens {minItems} Eintrag haben',
+  'maxItems': 'Darf höchstens {maxItems} Einträge haben',
+  'maxItems.one': 'Darf höchstens {maxItems} Eintrag haben',
+  'uniqueItems': 'Die Einträge müssen eindeutig sein',
+  'contains': 'Muss mindestens 1 gültigen Eintrag haben',
+  'minContains': 'Muss mindestens {minContains} gültige Einträge haben',
+  'minContains.one': 'Muss mindestens {minContains} gültigen Eintrag haben',
+  'maxContains': 'Darf höchstens {maxContains} gültige Einträge haben',
+  'maxContains.one': 'Darf höchstens {maxContains} gültigen Eintrag haben',
+  'unevaluatedItems': 'Eintrag ist nicht erlaubt',
+  // Objects
+  'propertyNames': 'Der Eigenschaftsname "{value}" ist ungültig',
+  'minProperties': 'Muss mindestens {minProperties} Eigenschaften haben',
+  'minProperties.one': 'Muss mindestens {minProperties} Eigenschaft haben',
+  'maxProperties': 'Darf höchstens {maxProperties} Eigenschaften haben',
+  'maxProperties.one': 'Darf höchstens {maxProperties} Eigenschaft haben',
+  'additionalProperties': 'Zusätzliche Eigenschaft ist nicht erlaubt',
+  'unevaluatedProperties': 'Eigenschaft ist nicht erlaubt',
+  // Custom validations
+  'json-logic': 'Der Wert ist ungültig',
+  'default': 'Der Wert ist ungültig',
+}
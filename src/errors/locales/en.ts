@@ -0,0 +1,72 @@
+import type { ErrorMessageCatalog } from '..'
+
+export const en: ErrorMessageCatalog = {
+  // Core validation
+  'type': 'Invalid value',
+  'type.string': 'The value must be a string',
+  'type.number': 'The value must be a number',
+  'type.boolean': 'The value must be a boolean',
+  'type.null': 'The value must be null',
+  'type.object': 'The value must be an object',
+  'type.array': 'The value must be an array',
+  'type.other': 'The value must be {type}',
+  'type.multiple': 'The value must be a {types}',
+  'type.separator': ' or ',
+  'required': 'Required field',
+  'required.checkbox': 'Please acknowledge this field',
+  'forbidden': 'Not allowed',
+  'const': 'The only accepted value is {const}.',
+  'enum': 'The option "{value}" is not valid.',
+  'dependentRequired': 'Required field',
+  'dependentSchemas': 'Not allowed in combination with the other values',
+  // Schema composition
+  'oneOf': 'The option "{value}" is not valid.',
+  'anyOf': 'The option "{value}" is not valid.',
+  'not': 'The value must not satisfy the provided schema',
+  // String validation
+  'minLength': 'Please insert at least {minLength} characters',
+  'maxLength': 'Please insert up to {maxLength} characters',
+  'pattern': 'Must have a valid format',
+  'pattern.example': 'Must have a valid format. E.g. {example}',
+  'format': 'Must be a valid {format} format',
+  'format.email': 'Please enter a valid email address',
+  'format.date': 'Must be a valid date in {dateFormat} format. e.g. {example}',
+  // Number validation
+  'multipleOf': 'Must be a multiple of {multipleOf}',
+  'maximum': 'Must be smaller or equal to {maximum}',
+  'exclusiveMaximum': 'Must be smaller than {exclusiveMaximum}',
+  'minimum': 'Must be greater or equal to {minimum}',
+  'exclusiveMinimum': 'Must be greater than {exclusiveMinimum}',
+  // Date validation
+  'minDate': 'The date must be {minDate} or after.',
+  'maxDate': 'The date must be {maxDate} or before.',
+  // File validation
+  'fileStructure': 'Not a valid file.',
+  'maxFileSize': 'File size too large.',
+  'maxFileSize.limit': 'File size too large. The limit is {maxFileSize} MB.',
+  'accept': 'Unsupported file format.',
+  'accept.formats': 'Unsupported file format. The acceptable formats are {formats}.',
+  // Arrays
+  'minItems': 'Must have at least {minItems} items',
+  'minItems.one': 'Must have at least {minItems} item',
+  'maxItems': 'Must have at most {maxItems} items',
+  'maxItems.one': 'Must have at most {maxItems} item',
+  'uniqueItems': 'Items must be unique',
+  'contains': 'Must have at least 1 valid item',
+  'minContains': 'Must have at least {minContains} valid items',
+  'minContains.one': 'Must have at least {minContains} valid item',
+  'maxContains': 'Must have at most {maxContains} valid items',
+  'maxContains.one': 'Must have at most {maxContains} valid item',
+  'unevaluatedItems': 'Item is not allowed',
+  // Objects
+  'propertyNames': 'The property name "{value}" is not valid',
+  'minProperties': 'Must have at least {minProperties} properties',
+  'minProperties.one': 'Must have at least {minProperties} property',
+  'maxProperties': 'Must have at most {maxProperties} properties',
+  'maxProperties.one': 'Must have at most {maxProperties} property',
+  'additionalProperties': 'Additional property is not allowed',
+  'unevaluatedProperties': 'Property is not allowed',
+  // Custom validations
+  'json-logic': 'The value is not valid',
+  'default': 'The value is not valid',
+}
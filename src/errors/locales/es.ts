@@ -0,0 +1,72 @@
+import type { ErrorMessageCatalog } from '..'
+
+export const es: ErrorMessageCatalog = {
+  // Core validation
+  'type': 'Valor no válido',
+  'type.string': 'El valor debe ser un texto',
+  'type.number': 'El valor debe ser un número',
+  'type.boolean': 'El valor debe ser un booleano',
+  'type.null': 'El valor debe ser nulo',
+  'type.object': 'El valor debe ser un objeto',
+  'type.array': 'El valor debe ser una lista',
+  'type.other': 'El valor debe ser {type}',
+  'type.multiple': 'El valor debe ser de tipo {types}',
+  'type.separator': ' o ',
+  'required': 'Campo obligatorio',
+  'required.checkbox': 'Por favor, confirma este campo',
+  'forbidden': 'No permitido',
+  'const': 'El único valor aceptado es {const}.',
+  'enum': 'La opción "{value}" no es válida.',
+  'dependentRequired': 'Campo obligatorio',
+  'dependentSchemas': 'No permitido en combinación con los otros valores',
+  // Schema composition
+  'oneOf': 'La opción "{value}" no es válida.',
+  'anyOf': 'La opción "{value}" no es válida.',
+  'not': 'El valor no debe cumplir el esquema indicado',
+  // String validation
+  'minLength': 'Introduce al menos {minLength} caracteres',
+  'maxLength': 'Introduce como máximo {maxLength} caracteres',
+  'pattern': 'Debe tener un formato válido',
+  'pattern.example': 'Debe tener un formato válido. Ej.: {example}',
+  'format': 'Debe tener un formato {format} válido',
+  'format.email': 'Introduce una dirección de correo electrónico válida',
+  'format.date': 'Debe ser una fecha válida en formato {dateFormat}. Ej.: {example}',
+  // Number validation
+  'multipleOf': 'Debe ser múltiplo de {multipleOf}',
+  'maximum': 'Debe ser menor o igual que {maximum}',
+  'exclusiveMaximum': 'Debe ser menor que {exclusiveMaximum}',
+  'minimum': 'Debe ser mayor o igual que {minimum}',
+  'exclusiveMinimum': 'Debe ser mayor que {exclusiveMinimum}',
+  // Date validation
+  'minDate': 'La fecha debe ser {minDate} o posterior.',
+  'maxDate': 'La fecha debe ser {maxDate} o anterior.',
+  // File validation
+  'fileStructure': 'No es un archivo válido.',
+  'maxFileSize': 'El archivo es demasiado grande.',
+  'maxFileSize.limit': 'El archivo es demasiado grande. El límite es {maxFileSize} MB.',
+  'accept': 'Formato de archivo no admitido.',
+  'accept.formats': 'Formato de archivo no admitido. Los formatos aceptados son {formats}.',
+  // Arrays
+  'minItems': 'Debe tener al menos {minItems} elementos',
+  'minItems.one': 'Debe tener al menos {minItems} elemento',
+  'maxItems': 'Debe tener como máximo {maxItems} elementos',
+  'maxItems.one': 'Debe tener como máximo {maxItems} elemento',
+  'uniqueItems': 'Los elementos deben ser únicos',
+  'contains': 'Debe tener al menos 1 elemento válido',
+  'minContains': 'Debe tener al menos {minContains} elementos válidos',
+  'minContains.one': 'Debe tener al menos {minContains} elemento válido',
+  'maxContains': 'Debe tener como máximo {maxContains} elementos válidos',
+  'maxContains.one': 'Debe tener como máximo {maxContains} elemento válido',
+  'unevaluatedItems': 'Elemento no permitido',
+  // Objects
+  'propertyNames': 'El nombre de propiedad "{value}" no es válido',
+  'minProperties': 'Debe tener al menos {minProperties} propiedades',
+  'minProperties.one': 'Debe tener al menos {minProperties} propiedad',
+  'maxProperties': 'Debe tener como máximo {maxProperties} propiedades',
+  'maxProperties.one': 'Debe tener como máximo {maxProperties} propiedad',
+  'additionalProperties': 'No se permiten propiedades adicionales',
+  'unevaluatedProperties': 'Propiedad no permitida',
+  // Custom validations
+  'json-logic': 'El valor no es válido',
+  'default': 'El valor no es válido',
+}
@@ -0,0 +1,25 @@
+import type { ErrorMessageCatalog } from '..'
+import { de } from './de'
+import { en } from './en'
+import { es } from './es'
+import { pt } from './pt'
+
+export const DEFAULT_LOCALE = 'en'
+
+/**
+ * Built-in error message catalogs, keyed by language
+ */
+export const errorMessageCatalogs: Record<string, ErrorMessageCatalog> = { de, en, es, pt }
+
+/**
+ * Get the error message catalog for a locale
+ * @param locale - The locale (e.g. `es` or `pt-BR`). Regional locales fall back to their language catalog.
+ * @param messages - Custom messages, taking precedence over the built-in ones
+ * @returns The error message catalog. Messages missing in the locale's catalog fall back to English.
+ */
+export function getMessageCatalog(locale: string = DEFAULT_LOCALE, messages: Partial<ErrorMessageCatalog> = {}): ErrorMessageCatalog {
+  const [language] = locale.toLowerCase().split(/[-_]/)
+  const localeCatalog = errorMessageCatalogs[locale] ?? errorMessageCatalogs[language] ?? {}
+
+  return { ...errorMessageCatalogs[DEFAULT_LOCALE], ...localeCatalog, ...messages } as ErrorMessageCatalog
+}
@@ -0,0 +1,72 @@
+import type { ErrorMessageCatalog } from '..'
+
+export const pt: ErrorMessageCatalog = {
+  // Core validation
+  'type': 'Valor inválido',
+  'type.string': 'O valor deve ser um texto',
+  'type.number': 'O valor deve ser um número',
+  'type.boolean': 'O valor deve ser um booleano',
+  'type.null': 'O valor deve ser nulo',
+  'type.object': 'O valor deve ser um objeto',
+  'type.array': 'O valor deve ser uma lista',
+  'type.other': 'O valor deve ser {type}',
+  'type.multiple': 'O valor deve ser do tipo {types}',
+  'type.separator': ' ou ',
+  'required': 'Campo obrigatório',
+  'required.checkbox': 'Por favor, confirme este campo',
+  'forbidden': 'Não permitido',
+  'const': 'O único valor permitido é {const}.',
+  'enum': 'A opção "{value}" não é válida.',
+  'dependentRequired': 'Campo obrigatório',
+  'dependentSchemas': 'Não permitido em combinação com os outros valores',
+  // Schema composition
+  'oneOf': 'A opção "{value}" não é válida.',
+  'anyOf': 'A opção "{value}" não é válida.',
+  'not': 'O valor não deve satisfazer o esquema indicado',
+  // String validation
+  'minLength': 'Insira pelo menos {minLength} caracteres',
+  'maxLength': 'Insira no máximo {maxLength} caracteres',
+  'pattern': 'Deve ter um formato válido',
+  'pattern.example': 'Deve ter um formato válido. Ex.: {example}',
+  'format': 'Deve ter um formato {format} válido',
+  'format.email': 'Insira um endereço de email válido',
+  'format.date': 'Deve ser uma data válida no formato {dateFormat}. Ex.: {example}',
+  // Number validation
+  'multipleOf': 'Deve ser um múltiplo de {multipleOf}',
+  'maximum': 'Deve ser menor ou igual a {maximum}',
+  'exclusiveMaximum': 'Deve ser menor que {exclusiveMaximum}',
+  'minimum': 'Deve ser maior ou igual a {minimum}',
+  'exclusiveMinimum': 'Deve ser maior que {exclusiveMinimum}',
+  // Date validation
+  'minDate': 'A data deve ser {minDate} ou posterior.',
+  'maxDate': 'A data deve ser {maxDate} ou anterior.',
+  // File validation
+  'fileStructure': 'Não é um arquivo válido.',
+  'maxFileSize': 'O arquivo é muito grande.',
+  'maxFileSize.limit': 'O arquivo é muito grande. O limite é {maxFileSize} MB.',
+  'accept': 'Formato de arquivo não suportado.',
+  'accept.formats': 'Formato de arquivo não suportado. Os formatos aceitos são {formats}.',
+  // Arrays
+  'minItems': 'Deve ter pelo menos {minItems} itens',
+  'minItems.one': 'Deve ter pelo menos {minItems} item',
+  'maxItems': 'Deve ter no máximo {maxItems} itens',
+  'maxItems.one': 'Deve ter no máximo {maxItems} item',
+  'uniqueItems': 'Os itens devem ser únicos',
+  'contains': 'Deve ter pelo menos 1 item válido',
+  'minContains': 'Deve ter pelo menos {minContains} itens válidos',
+  'minContains.one': 'Deve ter pelo menos {minContains} item válido',
+  'maxContains': 'Deve ter no máximo {maxContains} itens válidos',
+  'maxContains.one': 'Deve ter no máximo {maxContains} item válido',
+  'unevaluatedItems': 'Item não permitido',
+  // Objects
+  'propertyNames': 'O nome de propriedade "{value}" não é válido',
+  'minProperties': 'Deve ter pelo menos {minProperties} propriedades',
+  'minProperties.one': 'Deve ter pelo menos {minProperties} propriedade',
+  'maxProperties': 'Deve ter no máximo {maxProperties} propriedades',
+  'maxProperties.one': 'Deve ter no máximo {maxProperties} propriedade',
+  'additionalProperties': 'Propriedade adicional não permitida',
+  'unevaluatedProperties': 'Propriedade não permitida',
+  // Custom validations
+  'json-logic': 'O valor não é válido',
+  'default': 'O valor não é válido',
+}
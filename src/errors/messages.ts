@@ -1,8 +1,9 @@
-import type { SchemaValidationErrorType } from '.'
-import type { JsfSchemaType, NonBooleanJsfSchema, SchemaValue } from '../types'
+import type { CustomKeywordErrorType, ErrorMessageCatalog, ErrorMessageKey, SchemaValidationErrorType, ValidationSeverity } from '.'
+import type { JsfSchema, JsfSchemaType, NonBooleanJsfSchema, SchemaValue } from '../types'
 import { randexp } from 'randexp'
 import { convertKBToMB } from '../utils'
 import { DATE_FORMAT } from '../validation/custom/date'
+import { getMessageCatalog } from './locales'
 
 /**
  * Check if the schema is a checkbox
@@ -13,116 +14,195 @@ function isCheckbox(schema: NonBooleanJsfSchema): boolean {
   return schema['x-jsf-presentation']?.inputType === 'checkbox'
 }
 
-// Both required and const error messages are the same for checkboxes
-const CHECKBOX_ACK_ERROR_MESSAGE = 'Please acknowledge this field'
+/**
+ * Replace the placeholders (e.g. `{minLength}`) of a message with the given values.
+ * Placeholders without a value are kept as is.
+ * @param message - The message with placeholders
+ * @param params - The values of the placeholders
+ * @returns The formatted message
+ */
+export function formatMessage(message: string, params: Record<string, unknown> = {}): string {
+  return message.replace(/\{([\w-]+)\}/g, (placeholder, name: string) => {
+    const param = params[name]
+    return param === undefined || param === null ? placeholder : String(param)
+  })
+}
+
+/**
+ * Get the custom error message of a validation error, declared in the schema (`x-jsf-errorMessage`)
+ * @param schema - The schema of the field with the error
+ * @param validation - The type of validation error
+ * @returns The message and its severity, if the schema has a message for the validation
+ */
+export function getSchemaErrorMessage(
+  schema: JsfSchema,
+  validation: SchemaValidationErrorType | CustomKeywordErrorType,
+): { message: string, severity?: ValidationSeverity } | undefined {
+  const errorMessage = typeof schema === 'object' ? schema['x-jsf-errorMessage']?.[validation] : undefined
+
+  if (!errorMessage) {
+    return undefined
+  }
+
+  return typeof errorMessage === 'string' ? { message: errorMessage } : errorMessage
+}
 
+/**
+ * Get the default error message for a validation error
+ * @param schema - The schema of the field with the error
+ * @param value - The invalid value
+ * @param validation - The type of validation error
+ * @param customErrorMessage - The error message of a custom (json-logic or custom keyword) validation
+ * @param messages - The error message catalog to use (defaults to English)
+ * @returns The error message
+ * @description
+ * Generating a message never throws: unknown validation types, or messages that can't be generated
+ * (e.g. an example for an invalid pattern), fall back to a generic message so the form can still show an error.
+ */
 export function getErrorMessage(
   schema: NonBooleanJsfSchema,
   value: SchemaValue,
-  validation: SchemaValidationErrorType,
+  validation: SchemaValidationErrorType | CustomKeywordErrorType,
   customErrorMessage?: string,
+  messages: ErrorMessageCatalog = getMessageCatalog(),
 ): string {
+  return getErrorMessageWithParams(schema, value, validation, customErrorMessage, messages).message
+}
+
+/**
+ * Get the default error message for a validation error, along with the params describing the failed validation
+ * @param schema - The schema of the field with the error
+ * @param value - The invalid value
+ * @param validation - The type of validation error
+ * @param customErrorMessage - The error message of a custom (json-logic or custom keyword) validation
+ * @param messages - The error message catalog to use (defaults to English)
+ * @returns The error message and its params (e.g. `{ minLength: 3 }` for a `minLength` error)
+ * @see getErrorMessage
+ */
+export function getErrorMessageWithParams(
+  schema: NonBooleanJsfSchema,
+  value: SchemaValue,
+  validation: SchemaValidationErrorType | CustomKeywordErrorType,
+  customErrorMessage?: string,
+  messages: ErrorMessageCatalog = getMessageCatalog(),
+): { message: string, params: Record<string, unknown> } {
+  if (customErrorMessage) {
+    return { message: customErrorMessage, params: {} }
+  }
+
+  try {
+    const [key, extraParams] = getMessageKeyAndParams(schema, value, validation, messages)
+    const keywordValue = (schema as Record<string, unknown>)[validation] ?? schema['x-jsf-presentation']?.[validation]
+    const params = {
+      ...(isPrimitive(keywordValue) || (Array.isArray(keywordValue) && keywordValue.every(isPrimitive)) ? { [validation]: keywordValue } : {}),
+      ...extraParams,
+    }
+
+    return {
+      message: formatMessage(messages[key] ?? messages.default, { ...getSchemaParams(schema), value: valueToString(value), ...params }),
+      params,
+    }
+  }
+  catch {
+    return { message: messages.default, params: {} }
+  }
+}
+
+function isPrimitive(value: unknown): value is string | number | boolean {
+  return ['string', 'number', 'boolean'].includes(typeof value)
+}
+
+/**
+ * Get the primitive keywords of a schema (and its presentation), to be used as message placeholders
+ */
+function getSchemaParams(schema: NonBooleanJsfSchema): Record<string, unknown> {
+  const params: Record<string, unknown> = {}
+
+  for (const [key, keywordValue] of Object.entries({ ...schema['x-jsf-presentation'], ...schema })) {
+    if (isPrimitive(keywordValue)) {
+      params[key] = keywordValue
+    }
+  }
+
+  return params
+}
+
+/**
+ * Get the catalog key of the message for a validation error, and the placeholder values that can't be taken from the schema directly
+ */
+function getMessageKeyAndParams(
+  schema: NonBooleanJsfSchema,
+  value: SchemaValue,
+  validation: SchemaValidationErrorType | CustomKeywordErrorType,
+  messages: ErrorMessageCatalog,
+): [ErrorMessageKey, Record<string, unknown>?] {
   const presentation = schema['x-jsf-presentation']
   switch (validation) {
     // Core validation
     case 'type':
-      return getTypeErrorMessage(schema.type)
+      return getTypeMessageKey(schema.type, messages)
     case 'required':
-      if (isCheckbox(schema)) {
-        return CHECKBOX_ACK_ERROR_MESSAGE
-      }
-      return 'Required field'
-    case 'forbidden':
-      return 'Not allowed'
+    case 'dependentRequired':
+      return [isCheckbox(schema) ? 'required.checkbox' : validation]
     case 'const':
       // Boolean checkboxes that are required will come as a "const" validation error as the "empty" value is false
       if (isCheckbox(schema) && value === false) {
-        return CHECKBOX_ACK_ERROR_MESSAGE
+        return ['required.checkbox']
       }
-      return `The only accepted value is ${JSON.stringify(schema.const)}.`
-    case 'enum':
-      return `The option "${valueToString(value)}" is not valid.`
-    // Schema composition
-    case 'oneOf':
-      return `The option "${valueToString(value)}" is not valid.`
-    case 'anyOf':
-      return `The option "${valueToString(value)}" is not valid.`
-    case 'not':
-      return 'The value must not satisfy the provided schema'
+      return ['const', { const: JSON.stringify(schema.const) }]
     // String validation
-    case 'minLength':
-      return `Please insert at least ${schema.minLength} characters`
-    case 'maxLength':
-      return `Please insert up to ${schema.maxLength} characters`
-    case 'pattern':
-      return `Must have a valid format. E.g. ${randexp(schema.pattern || '')}`
+    case 'pattern': {
+      const example = getPatternExample(schema.pattern)
+      return example === undefined ? ['pattern'] : ['pattern.example', { example }]
+    }
     case 'format':
-      if (schema.format === 'email') {
-        return 'Please enter a valid email address'
-      }
-
       if (schema.format === 'date') {
         const currentDate = new Date().toISOString().split('T')[0]
-        return `Must be a valid date in ${DATE_FORMAT.toLowerCase()} format. e.g. ${currentDate}`
+        return ['format.date', { dateFormat: DATE_FORMAT.toLowerCase(), example: currentDate }]
       }
 
-      return `Must be a valid ${schema.format} format`
-    // Number validation
-    case 'multipleOf':
-      return `Must be a multiple of ${schema.multipleOf}`
-    case 'maximum':
-      return `Must be smaller or equal to ${schema.maximum}`
-    case 'exclusiveMaximum':
-      return `Must be smaller than ${schema.exclusiveMaximum}`
-    case 'minimum':
-      return `Must be greater or equal to ${schema.minimum}`
-    case 'exclusiveMinimum':
-      return `Must be greater than ${schema.exclusiveMinimum}`
-    // Date validation
-    case 'minDate':
-      return `The date must be ${presentation?.minDate} or after.`
-    case 'maxDate':
-      return `The date must be ${presentation?.maxDate} or before.`
+      // Formats can have their own message (e.g. `format.email`, or the ones of custom formats)
+      return messages[`format.${schema.format}`] !== undefined ? [`format.${schema.format}`] : ['format']
     // File validation
-    case 'fileStructure':
-      return 'Not a valid file.'
     case 'maxFileSize': {
       const limitKB = presentation?.maxFileSize
       const limitMB = typeof limitKB === 'number' ? convertKBToMB(limitKB) : undefined
-      return `File size too large.${limitMB ? ` The limit is ${limitMB} MB.` : ''}`
+      return limitMB ? ['maxFileSize.limit', { maxFileSize: limitMB }] : ['maxFileSize']
     }
     case 'accept': {
       const formats = presentation?.accept
-      return `Unsupported file format.${formats ? ` The acceptable formats are ${formats}.` : ''}`
+      return formats ? ['accept.formats', { formats }] : ['accept']
     }
-    // Arrays
-    case 'minItems': {
-      const itemOrItems = schema.minItems === 1 ? 'item' : 'items'
-      return `Must have at least ${schema.minItems} ${itemOrItems}`
-    }
-    case 'maxItems': {
-      const itemOrItems = schema.maxItems === 1 ? 'item' : 'items'
-      return `Must have at most ${schema.maxItems} ${itemOrItems}`
-    }
-    case 'uniqueItems':
-      return 'Items must be unique'
-    case 'contains':
-      throw new Error('"contains" is not implemented yet')
+    // Counts have a singular form
+    case 'minItems':
+    case 'maxItems':
     case 'minContains':
-      throw new Error('"minContains" is not implemented yet')
     case 'maxContains':
-      throw new Error('"maxContains" is not implemented yet')
-    case 'additionalProperties':
-      return 'Additional property is not allowed'
-    case 'json-logic':
-      return customErrorMessage || 'The value is not valid'
+    case 'minProperties':
+    case 'maxProperties':
+      return [(schema as Record<string, unknown>)[validation] === 1 ? `${validation}.one` : validation]
+    default:
+      return [validation]
+  }
+}
+
+/**
+ * Get an example of a value matching a pattern, to be shown in the pattern error message
+ * Some valid patterns (e.g. with named groups) are not supported by randexp, in which case no example is given.
+ */
+function getPatternExample(pattern: string | undefined): string | undefined {
+  try {
+    return randexp(pattern || '')
+  }
+  catch {
+    return undefined
   }
 }
 
 /**
- * Get the appropriate type error message based on the schema type
+ * Get the catalog key of the type error message based on the schema type
  */
-function getTypeErrorMessage(schemaType: JsfSchemaType | JsfSchemaType[] | undefined): string {
+function getTypeMessageKey(schemaType: JsfSchemaType | JsfSchemaType[] | undefined, messages: ErrorMessageCatalog): [ErrorMessageKey, Record<string, unknown>?] {
   if (Array.isArray(schemaType)) {
     // Map 'integer' to 'number' in error messages
     const formattedTypes = schemaType.map((type) => {
@@ -132,25 +212,21 @@ function getTypeErrorMessage(schemaType: JsfSchemaType | JsfSchemaType[] | undef
       return type
     })
 
-    return `The value must be a ${formattedTypes.join(' or ')}`
+    return ['type.multiple', { types: formattedTypes.join(messages['type.separator']) }]
   }
 
   switch (schemaType) {
     case 'number':
     case 'integer':
-      return 'The value must be a number'
+      return ['type.number']
     case 'boolean':
-      return 'The value must be a boolean'
     case 'null':
-      return 'The value must be null'
     case 'string':
-      return 'The value must be a string'
     case 'object':
-      return 'The value must be an object'
     case 'array':
-      return 'The value must be an array'
+      return [`type.${schemaType}`]
     default:
-      return schemaType ? `The value must be ${schemaType}` : 'Invalid value'
+      return schemaType ? ['type.other'] : ['type']
   }
 }
 
@@ -356,6 +356,7 @@ const excludedSchemaProps = [
   'oneOf', // Transformed to 'options'
   'anyOf', // Transformed to 'options'
   'properties', // Handled separately
+  '$defs', // Only used to resolve references
 ]
 
 interface BuildFieldSchemaParams {
@@ -425,7 +426,10 @@ export function buildFieldSchema({
   const schemaLayoutConfig = schema['x-jsf-layout']
   const layoutConfig = schemaLayoutConfig || originalLayoutConfig
   
-  const errorMessage = schema['x-jsf-errorMessage']
+  // Fields only expose the messages (the severities are applied when validating)
+  const errorMessage = schema['x-jsf-errorMessage'] && Object.fromEntries(
+    Object.entries(schema['x-jsf-errorMessage']).map(([validation, message]) => [validation, typeof message === 'string' ? message : message.message]),
+  )
 
   // Get input type from presentation or fallback to schema type
   const inputType = getInputType(type, name, schema, strictInputType)
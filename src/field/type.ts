@@ -28,6 +28,9 @@ export interface Field {
   const?: unknown
   checkboxValue?: unknown
   default?: unknown
+  // Touched and dirty state of the form store (see `FieldState`), kept up to date by `createHeadlessForm`
+  touched?: boolean
+  dirty?: boolean
 
   // Async options configuration and loader
   asyncOptions?: AsyncOptionsConfig & {
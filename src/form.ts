@@ -1,23 +1,88 @@
-import type { ValidationError, ValidationErrorPath } from './errors'
+import type { CustomKeywordErrorType, ErrorMessageCatalog, SchemaValidationErrorType, ValidationError, ValidationErrorPath } from './errors'
 import type { Field } from './field/type'
-import type { AsyncOptionsLoader, JsfLayoutConfig, JsfObjectSchema, JsfSchema, ObjectValue, SchemaValue } from './types'
-import type { LegacyOptions } from './validation/schema'
-import { getErrorMessage } from './errors/messages'
+import type { HardeningOptions } from './hardening'
+import type { FormStore } from './store'
+import type { HiddenValuesPolicy } from './submit'
+import type { AsyncOptionsLoader, AsyncValidator, JsfLayoutConfig, JsfObjectSchema, JsfSchema, ObjectValue, SchemaRegistry, SchemaValue } from './types'
+import type { CompiledFormSchema } from './validation/compile'
+import type { CustomKeyword } from './validation/custom/keywords'
+import type { CustomFormat } from './validation/format'
+import type { LegacyOptions, ValidationOptions } from './validation/schema'
+import { coerceValue } from './coerce'
+import { applySchemaDefaults } from './defaults'
+import { getMessageCatalog } from './errors/locales'
+import { getErrorMessageWithParams, getSchemaErrorMessage } from './errors/messages'
 import { buildFieldSchema } from './field/schema'
+import { assertSafeSchema } from './hardening'
+import { validateFormSchema } from './meta-schema'
 import { calculateFinalSchema, updateFieldProperties } from './mutations'
+import { createFormStore } from './store'
+import { applyHiddenValuesPolicy } from './submit'
+import { getAsyncValidations, runAsyncValidation } from './validation/async'
+import { compileFormSchema } from './validation/compile'
+import { getCustomKeywordMessages } from './validation/custom/keywords'
+import { getCustomFormatMessages } from './validation/format'
 import { addCustomJsonLogicOperations, removeCustomJsonLogicOperations } from './validation/json-logic'
-import { validateSchema } from './validation/schema'
+import { validateSchemaPaths } from './validation/paths'
+import { dereferenceSchema } from './validation/ref'
+import { isObjectValue, isWarning, toJsonPointer } from './validation/util'
 
 export { LegacyOptions } from './validation/schema'
 
-interface FormResult {
+interface FormResult extends FormStore {
   fields: Field[]
   isError: boolean
   error: string | null
   handleValidation: (value: SchemaValue) => ValidationResult
+  /**
+   * Validate a value like `handleValidation`, then run the async validations of the fields without errors
+   * (`x-jsf-asyncValidations`), merging their errors into the result.
+   * The promise is rejected with the reason of the signal if it's aborted.
+   */
+  handleValidationAsync: (value: SchemaValue, options?: AsyncValidationOptions) => Promise<ValidationResult>
+  /**
+   * Get the fields with async validations in progress, as JSON pointers (e.g. `'/username'`)
+   */
+  getPendingFields: () => string[]
+  /**
+   * Validate a field (and its nested fields) of a value, with the conditionals and json-logic rules evaluated with all the form values.
+   * Only the schema of the field and the `required`, `dependentRequired` and `additionalProperties` constraints of its parent fields are validated,
+   * and the form fields aren't updated.
+   */
+  validateField: (path: FieldPath, value: SchemaValue) => ValidationResult
+  /**
+   * Validate some fields (and their nested fields) of a value, like `validateField`
+   */
+  validatePaths: (paths: FieldPath[], value: SchemaValue) => ValidationResult
+  /**
+   * Get the values to submit, applying a policy to the values of the hidden fields (removing them by default),
+   * recursively through fieldsets and group-arrays
+   */
+  getSubmitValues: (values: ObjectValue, options?: SubmitValuesOptions) => ObjectValue
   layout?: JsfLayoutConfig | null
 }
 
+/**
+ * Path to a field: either its name, with dots for nested fields (e.g. `'address.street'`),
+ * or its segments (e.g. `['tags', 0]`), the same as the `path` of the validation errors
+ */
+export type FieldPath = string | Array<string | number>
+
+export interface AsyncValidationOptions {
+  /**
+   * Signal for aborting the async validations (e.g. when the value changes again)
+   */
+  signal?: AbortSignal
+}
+
+export interface SubmitValuesOptions {
+  /**
+   * What to do with the values of the hidden fields
+   * @default 'remove'
+   */
+  hiddenValues?: HiddenValuesPolicy
+}
+
 /**
  * Recursive type for form error messages
  * - String for leaf error messages
@@ -28,18 +93,94 @@ export interface FormErrors {
   [key: string]: string | FormErrors | Array<null | FormErrors>
 }
 
+/**
+ * Form error messages with all the messages of each field, returned with the `allErrorMessages` option
+ * - Array of messages for the errors of a field
+ * - Nested object for nested fields
+ * - Arrays for group-array fields
+ */
+export interface FormErrorMessages {
+  [key: string]: string[] | FormErrorMessages | Array<null | FormErrorMessages>
+}
+
+/**
+ * Form errors while they are being built, with either the last or all the messages of each field
+ */
+interface FormErrorsTree {
+  [key: string]: string | string[] | FormErrorsTree | Array<null | FormErrorsTree>
+}
+
+/**
+ * Validation error of a form, with the information needed to render or track it
+ */
+export interface FormValidationError {
+  /**
+   * The path to the field that has the error, without schema keywords (the same path used in `formErrors`)
+   * @example
+   * ['address', 'street']
+   * ['tags', 0]
+   */
+  path: Array<string | number>
+  /**
+   * The JSON pointer to the invalid value
+   * @example
+   * '/address/street'
+   */
+  pointer: string
+  /**
+   * The type of validation error
+   * @example
+   * 'minLength'
+   */
+  validation: SchemaValidationErrorType | CustomKeywordErrorType
+  /**
+   * The values interpolated in the error message
+   * @example
+   * { minLength: 3 }
+   */
+  params: Record<string, unknown>
+  /**
+   * The error message
+   */
+  message: string
+}
+
 export interface ValidationResult {
   formErrors?: FormErrors
+  /**
+   * All the error messages of each field, with the same structure as `formErrors`, when `allErrorMessages` is enabled
+   */
+  formErrorMessages?: FormErrorMessages
+  /**
+   * All the validation errors, in the order they were found
+   */
+  errors?: FormValidationError[]
+  /**
+   * Warning messages, with the same structure as `formErrors`. Warnings don't make the value invalid.
+   */
+  formWarnings?: FormErrors
+  /**
+   * All the warning messages of each field, with the same structure as `formWarnings`, when `allErrorMessages` is enabled
+   */
+  formWarningMessages?: FormErrorMessages
+  /**
+   * All the validation warnings, in the order they were found
+   */
+  warnings?: FormValidationError[]
+  /**
+   * The values coerced to the types of the schema, when `coerceValues` is enabled
+   */
+  values?: SchemaValue
 }
 
 /**
  * @param path - The path to transform
  * @returns The transformed path
  * Transforms a validation error path in two ways:
- * 1. Removes composition keywords (allOf, anyOf, oneOf) and conditional keywords (then, else)
+ * 1. Removes composition keywords (allOf, anyOf, oneOf), conditional keywords (then, else) and references ($ref)
  * 2. Converts array paths by removing "items" keywords but keeping indices
  *
- * Example: ['some_object','allOf', 0, 'then', 'items', 3, 'field'] -> ['some_object', 3, 'field']
+ * Example: ['some_object','allOf', 0, 'then', 'items', 3, '$ref', 'field'] -> ['some_object', 3, 'field']
  */
 function transformErrorPath(path: ValidationErrorPath): Array<string | number> {
   const result: Array<string | number> = []
@@ -55,13 +196,19 @@ function transformErrorPath(path: ValidationErrorPath): Array<string | number> {
       continue
     }
 
-    // Skip conditional keywords
-    if (segment === 'then' || segment === 'else') {
+    // Skip conditional and reference keywords
+    if (segment === 'then' || segment === 'else' || segment === '$ref') {
       continue
     }
 
-    // Skip 'items' but keep the array index that follows
-    if (segment === 'items' && typeof path[i + 1] === 'number') {
+    // Skip dependent schemas and the property that triggered them
+    if (segment === 'dependentSchemas') {
+      i++
+      continue
+    }
+
+    // Skip 'items' (and 'unevaluatedItems') but keep the array index that follows
+    if ((segment === 'items' || segment === 'unevaluatedItems') && typeof path[i + 1] === 'number') {
       i++
       result.push(path[i] as number)
     }
@@ -73,12 +220,20 @@ function transformErrorPath(path: ValidationErrorPath): Array<string | number> {
   return result
 }
 
+/**
+ * Check if a form errors value holds the error messages of a field (as opposed to the errors of nested fields)
+ */
+function isFieldMessages(value: FormErrorsTree[string] | undefined): value is string | string[] {
+  return typeof value === 'string' || (Array.isArray(value) && value.length > 0 && Array.from(value as unknown[]).every(item => typeof item === 'string'))
+}
+
 /**
  * @param errors - The validation errors
+ * @param allMessages - Whether to keep all the error messages of each field (as an array) instead of the last one
  * @returns The form errors
  * Transform validation errors into an object with the field names as keys and the error messages as values.
  * For nested fields, creates a nested object structure rather than using dot notation.
- * When multiple errors exist for the same field, the last error message is used.
+ * When multiple errors exist for the same field, the last error message is used, unless `allMessages` is enabled.
  *
  * @example
  * Single field error
@@ -90,19 +245,34 @@ function transformErrorPath(path: ValidationErrorPath): Array<string | number> {
  * Schema-level error
  * { '': 'The value must match at least one schema' }
  */
-function validationErrorsToFormErrors(errors: ValidationErrorWithMessage[]): FormErrors | null {
+function validationErrorsToFormErrors(errors: ValidationErrorWithMessage[], allMessages: true): FormErrorMessages | null
+function validationErrorsToFormErrors(errors: ValidationErrorWithMessage[], allMessages?: false): FormErrors | null
+function validationErrorsToFormErrors(errors: ValidationErrorWithMessage[], allMessages = false): FormErrorsTree | null {
   if (errors.length === 0) {
     return null
   }
 
-  const result: FormErrors = {}
+  const result: FormErrorsTree = {}
+
+  const setMessage = (target: FormErrorsTree, key: string | number, message: string) => {
+    const current = target[key]
+    if (!allMessages) {
+      target[key] = message
+    }
+    else if (Array.isArray(current) && isFieldMessages(current)) {
+      current.push(message)
+    }
+    else {
+      target[key] = [message]
+    }
+  }
 
   for (const error of errors) {
     const { path } = error
 
     // Handle schema-level errors (empty path)
     if (path.length === 0) {
-      result[''] = error.message
+      setMessage(result, '', error.message)
       continue
     }
 
@@ -121,7 +291,7 @@ function validationErrorsToFormErrors(errors: ValidationErrorWithMessage[]): For
           current[segment] = {}
         }
 
-        current = current[segment] as FormErrors
+        current = current[segment] as FormErrorsTree
       }
       else {
         if (typeof segments[i + 1] === 'number') {
@@ -129,17 +299,17 @@ function validationErrorsToFormErrors(errors: ValidationErrorWithMessage[]): For
             current[segment] = []
           }
         }
-        else if (!(segment in current) || typeof current[segment] === 'string') {
+        else if (!(segment in current) || isFieldMessages(current[segment])) {
           current[segment] = {}
         }
 
-        current = current[segment] as FormErrors
+        current = current[segment] as FormErrorsTree
       }
     }
 
     if (segments.length > 0) {
       const lastSegment = segments[segments.length - 1]
-      current[lastSegment] = error.message
+      setMessage(current, lastSegment, error.message)
     }
   }
 
@@ -148,26 +318,28 @@ function validationErrorsToFormErrors(errors: ValidationErrorWithMessage[]): For
 
 interface ValidationErrorWithMessage extends ValidationError {
   message: string
+  params: Record<string, unknown>
 }
 
 /**
  * Add error messages to validation errors (based on the validation type, schema, and value)
  * @param errors - The validation errors
+ * @param messages - The error message catalog
  * @returns The validation errors with error messages added
  */
-function addErrorMessages(errors: ValidationError[]): ValidationErrorWithMessage[] {
+function addErrorMessages(errors: ValidationError[], messages: ErrorMessageCatalog): ValidationErrorWithMessage[] {
   return errors.map((error) => {
     const { schema, value, validation, customErrorMessage } = error
 
     return {
       ...error,
-      message: getErrorMessage(schema, value, validation, customErrorMessage),
+      ...getErrorMessageWithParams(schema, value, validation, customErrorMessage, messages),
     }
   })
 }
 
 /**
- * Apply custom error messages from the schema to validation errors
+ * Apply custom error messages (and their severity) from the schema to validation errors
  * @param errors - The validation errors
  * @param schema - The schema that contains custom error messages
  * @returns The validation errors with custom error messages applied
@@ -178,15 +350,12 @@ function applyCustomErrorMessages(errors: ValidationErrorWithMessage[], schema:
   }
 
   return errors.map((error) => {
-    const fieldSchema = error.schema
-    const customErrorMessage = fieldSchema['x-jsf-errorMessage']?.[error.validation]
-    if (
-      fieldSchema
-      && customErrorMessage
-    ) {
+    const customErrorMessage = getSchemaErrorMessage(error.schema, error.validation)
+    if (customErrorMessage) {
       return {
         ...error,
-        message: customErrorMessage,
+        message: customErrorMessage.message,
+        ...(customErrorMessage.severity && { severity: customErrorMessage.severity }),
       }
     }
 
@@ -197,30 +366,112 @@ function applyCustomErrorMessages(errors: ValidationErrorWithMessage[], schema:
 /**
  * Validate a value against a schema
  * @param value - The value to validate
- * @param schema - The schema to validate against
+ * @param compiledSchema - The (final) schema to validate against, and its compiled validator
+ * @param messages - The error message catalog
+ * @param allErrorMessages - Whether to return all the error messages of each field in `formErrorMessages`
  * @returns The validation result
  */
-function validate(value: SchemaValue, schema: JsfSchema, options: LegacyOptions = {}): ValidationResult {
-  const result: ValidationResult = {}
-  const errors = validateSchema(value, schema, options)
+function validate(
+  value: SchemaValue,
+  compiledSchema: CompiledFormSchema,
+  messages: ErrorMessageCatalog = getMessageCatalog(),
+  allErrorMessages = false,
+): ValidationResult {
+  return getValidationResult(compiledSchema.validate(value), compiledSchema.schema, messages, allErrorMessages)
+}
+
+/**
+ * Coerce the raw values of a form to the types of the schema (see `coerceValue`), when `coerceValues` is enabled.
+ * The conditional rules are evaluated with the coerced values, and their branches may declare the types of other fields,
+ * so the values are coerced again with the final schema.
+ */
+function coerceFormValue(
+  value: SchemaValue,
+  schema: JsfObjectSchema,
+  getCompiledSchema: (value: SchemaValue) => CompiledFormSchema,
+  options: CreateValidatorOptions,
+): SchemaValue {
+  if (!options.coerceValues) {
+    return value
+  }
 
-  const errorsWithMessages = addErrorMessages(errors)
+  const coercedValue = coerceValue(value, schema)
+  return coerceValue(coercedValue, getCompiledSchema(coercedValue).schema)
+}
+
+function withCoercedValues(result: ValidationResult, value: SchemaValue, options: CreateValidatorOptions): ValidationResult {
+  return options.coerceValues ? { ...result, values: value } : result
+}
+
+/**
+ * Get the validation result of some validation errors
+ * @param errors - The validation errors
+ * @param schema - The (final) schema the value was validated against
+ * @param messages - The error message catalog
+ * @param allErrorMessages - Whether to return all the error messages of each field in `formErrorMessages`
+ * @returns The validation result
+ */
+function getValidationResult(
+  errors: ValidationError[],
+  schema: JsfObjectSchema,
+  messages: ErrorMessageCatalog,
+  allErrorMessages = false,
+): ValidationResult {
+  const result: ValidationResult = {}
+  const errorsWithMessages = addErrorMessages(errors, messages)
   const processedErrors = applyCustomErrorMessages(errorsWithMessages, schema)
+  const blockingErrors = processedErrors.filter(error => error.severity !== 'warning')
+  const warnings = processedErrors.filter(error => error.severity === 'warning')
 
-  const formErrors = validationErrorsToFormErrors(processedErrors)
+  const formErrors = validationErrorsToFormErrors(blockingErrors)
+  const formWarnings = validationErrorsToFormErrors(warnings)
 
   if (formErrors) {
     result.formErrors = formErrors
+    if (allErrorMessages) {
+      result.formErrorMessages = validationErrorsToFormErrors(blockingErrors, true)!
+    }
+    result.errors = blockingErrors.map(toFormValidationError)
+  }
+
+  if (formWarnings) {
+    result.formWarnings = formWarnings
+    if (allErrorMessages) {
+      result.formWarningMessages = validationErrorsToFormErrors(warnings, true)!
+    }
+    result.warnings = warnings.map(toFormValidationError)
   }
 
   return result
 }
 
+/**
+ * Convert a validation error into the error exposed in the validation result
+ * @param error - The validation error (with its message)
+ * @returns The form validation error
+ */
+function toFormValidationError(error: ValidationErrorWithMessage): FormValidationError {
+  const path = transformErrorPath(error.path)
+
+  return {
+    path,
+    pointer: toJsonPointer(path),
+    validation: error.validation,
+    params: error.params,
+    message: error.message,
+  }
+}
+
 export interface CreateHeadlessFormOptions {
   /**
    * The initial values to use for the form
    */
   initialValues?: SchemaValue
+  /**
+   * Fill the `default` values of the schema into the initial values (see `getDefaultValues`)
+   * @default false
+   */
+  applyDefaults?: boolean
   /**
    * Backward compatibility config with v0
    */
@@ -251,6 +502,122 @@ export interface CreateHeadlessFormOptions {
    * ```
    */
   asyncLoaders?: Record<string, AsyncOptionsLoader>
+
+  /**
+   * Async validators, run by `handleValidationAsync`.
+   * Maps validator IDs (from the schema's `x-jsf-asyncValidations`) to validator functions.
+   *
+   * @example
+   * ```ts
+   * {
+   *   'username-available': async ({ value, signal }) => {
+   *     const response = await fetch(`/api/users/${value}`, { signal })
+   *     return response.status === 404 || 'This username is taken'
+   *   }
+   * }
+   * ```
+   */
+  asyncValidators?: Record<string, AsyncValidator>
+
+  /**
+   * Registry of external schemas, used to resolve references (`$ref`) to other documents.
+   * Either a map of absolute URIs to schemas, or a function returning the schema for a given URI.
+   * To load the schemas asynchronously, use `loadSchemaRegistry` before creating the form.
+   *
+   * @example
+   * ```ts
+   * {
+   *   'https://example.com/address.json': { type: 'object', properties: { street: { type: 'string' } } }
+   * }
+   * ```
+   */
+  schemaRegistry?: SchemaRegistry
+
+  /**
+   * Locale of the error messages. Built-in locales are `en` (default), `es`, `pt` and `de`.
+   * Regional locales (e.g. `pt-BR`) use their language messages.
+   * @default 'en'
+   */
+  locale?: string
+
+  /**
+   * Custom error messages, taking precedence over the messages of the locale.
+   * Messages can have placeholders with the values of the schema keywords (e.g. `{minLength}`).
+   * Messages declared in the schema (`x-jsf-errorMessage`) still take precedence over these.
+   *
+   * @example
+   * ```ts
+   * {
+   *   'required': 'Campo requerido',
+   *   'minLength': 'Escribe {minLength} caracteres como mínimo',
+   * }
+   * ```
+   */
+  messages?: Partial<ErrorMessageCatalog>
+
+  /**
+   * When enabled, the validation result also has `formErrorMessages` (and `formWarningMessages`), with the list of
+   * all the error messages of each field. `formErrors` keeps only the last message of each field.
+   * @default false
+   */
+  allErrorMessages?: boolean
+
+  /**
+   * Custom string formats, by name. Each format is a function checking if a value is valid,
+   * or an object with the function and the default error message of the format.
+   * Custom formats take precedence over the built-in ones.
+   *
+   * @example
+   * ```ts
+   * {
+   *   'postal-code': value => /^\d{4}-\d{3}$/.test(value),
+   *   'iban': { validate: isValidIban, message: 'Must be a valid IBAN' },
+   * }
+   * ```
+   */
+  customFormats?: Record<string, CustomFormat>
+
+  /**
+   * Custom schema keywords, by name. Each keyword is a function validating the values of the schemas with the keyword,
+   * or an object with the function and the default error message of the keyword.
+   * The errors returned by the function can be customized with `x-jsf-errorMessage`, keyed by the keyword name.
+   *
+   * @example
+   * ```ts
+   * {
+   *   'x-business-day': {
+   *     validate: (value, schema, path) => isBusinessDay(value) ? [] : [{ path, validation: 'x-business-day', schema, value }],
+   *     message: 'Must be a business day',
+   *   },
+   * }
+   * ```
+   */
+  customKeywords?: Record<string, CustomKeyword>
+
+  /**
+   * Hardened mode, for untrusted schemas. The schema (and the schemas of the registry) are checked before being used,
+   * throwing an `UnsafeSchemaError` for keys that could pollute prototypes (`__proto__`, `constructor`, `prototype`),
+   * schemas too deep or too big, and regular expressions prone to catastrophic backtracking.
+   * Pass an object to change the limits.
+   * @default false
+   */
+  hardened?: boolean | HardeningOptions
+
+  /**
+   * Coerce the raw input values (e.g. the strings of HTML inputs) to the types of the schema before validating them:
+   * numbers, integers, booleans, `null` for empty strings of nullable fields and arrays for single values of array fields.
+   * The coerced values are returned as the `values` of the validation result. Values that can't be coerced fail
+   * the `type` validation.
+   * @default false
+   */
+  coerceValues?: boolean
+
+  /**
+   * Validate the schema against the json-schema-form meta-schema (see `validateFormSchema`) before using it,
+   * throwing an error with the invalid parts of the schema instead of failing later in unexpected ways.
+   * @default false
+   */
+  strictSchema?: boolean
 }
 
 function buildFields(params: {
@@ -298,6 +665,54 @@ function validateOptions(options: CreateHeadlessFormOptions) {
     console.error('[json-schema-form] `customProperties` is a deprecated option and it\'s not supported on json-schema-form v1')
   }
 
+  if (options.hardened !== undefined && typeof options.hardened !== 'boolean' && (typeof options.hardened !== 'object' || options.hardened === null)) {
+    throw new TypeError('hardened must be a boolean or an object.')
+  }
+
+  if (options.messages !== undefined && (typeof options.messages !== 'object' || options.messages === null)) {
+    throw new TypeError('messages must be an object.')
+  }
+
+  if (options.customFormats !== undefined) {
+    if (typeof options.customFormats !== 'object' || options.customFormats === null) {
+      throw new TypeError('customFormats must be an object.')
+    }
+
+    for (const [name, format] of Object.entries(options.customFormats)) {
+      if (typeof format !== 'function' && typeof format?.validate !== 'function') {
+        throw new TypeError(
+          `Custom format '${name}' must be a function or an object with a validate function, but received type '${typeof format}'.`,
+        )
+      }
+    }
+  }
+
+  if (options.customKeywords !== undefined) {
+    if (typeof options.customKeywords !== 'object' || options.customKeywords === null) {
+      throw new TypeError('customKeywords must be an object.')
+    }
+
+    for (const [name, keyword] of Object.entries(options.customKeywords)) {
+      if (typeof keyword !== 'function' && typeof keyword?.validate !== 'function') {
+        throw new TypeError(
+          `Custom keyword '${name}' must be a function or an object with a validate function, but received type '${typeof keyword}'.`,
+        )
+      }
+    }
+  }
+
+  if (options.asyncValidators !== undefined) {
+    if (typeof options.asyncValidators !== 'object' || options.asyncValidators === null) {
+      throw new TypeError('asyncValidators must be an object.')
+    }
+
+    for (const [id, validator] of Object.entries(options.asyncValidators)) {
+      if (typeof validator !== 'function') {
+        throw new TypeError(`Async validator '${id}' must be a function, but received type '${typeof validator}'.`)
+      }
+    }
+  }
+
   if (options.customJsonLogicOps) {
     if (typeof options.customJsonLogicOps !== 'object' || options.customJsonLogicOps === null) {
       throw new TypeError('validationOptions.customJsonLogicOps must be an object.')
@@ -313,19 +728,130 @@ function validateOptions(options: CreateHeadlessFormOptions) {
   }
 }
 
+/**
+ * Check that the schemas of a form are safe to use, in hardened mode
+ * @param jsonSchema - The schema of the form
+ * @param options - The options of the form, with the schema registry
+ * @throws {UnsafeSchemaError} If a schema is not safe
+ */
+function assertSafeSchemas(jsonSchema: JsfObjectSchema, options: CreateHeadlessFormOptions) {
+  if (!options.hardened) {
+    return
+  }
+
+  const hardeningOptions = options.hardened === true ? {} : options.hardened
+  assertSafeSchema(jsonSchema, hardeningOptions)
+
+  // Schemas returned by a registry function are only known when resolving references, so they're not checked
+  const { schemaRegistry } = options
+  if (schemaRegistry && typeof schemaRegistry === 'object') {
+    const registrySchemas = schemaRegistry instanceof Map ? [...schemaRegistry.values()] : Object.values(schemaRegistry)
+    registrySchemas.forEach(schema => assertSafeSchema(schema, hardeningOptions))
+  }
+}
+
+/**
+ * Check that the schema of a form is valid against the json-schema-form meta-schema, when `strictSchema` is enabled
+ * @param jsonSchema - The schema of the form
+ * @param options - The options of the form
+ * @throws {Error} If the schema is invalid, with the JSON pointer and error of each invalid part of the schema
+ */
+function assertValidFormSchema(jsonSchema: JsfObjectSchema, options: CreateHeadlessFormOptions) {
+  if (!options.strictSchema) {
+    return
+  }
+
+  const { valid, errors = [] } = validateFormSchema(jsonSchema)
+  if (!valid) {
+    const details = errors.map(error => `- "${error.instanceLocation}": ${error.error}`).join('\n')
+    throw new Error(`[json-schema-form] Invalid schema:\n${details}`)
+  }
+}
+
+/**
+ * Check the options and the schema of a form, and prepare what's needed to validate its values
+ * (shared by `createHeadlessForm`, `createValidator` and `getDefaultValues`)
+ * @param jsonSchema - The schema of the form
+ * @param options - The options of the form
+ * @returns The dereferenced schema, the validation options and the error message catalog
+ */
+function prepareFormSchema(jsonSchema: JsfObjectSchema, options: CreateHeadlessFormOptions) {
+  validateOptions(options)
+  assertSafeSchemas(jsonSchema, options)
+  assertValidFormSchema(jsonSchema, options)
+  // Inline all references ($ref) so the final schema and fields can be calculated from the schema as is
+  const schema = dereferenceSchema(jsonSchema, options.schemaRegistry)
+  const validationOptions: ValidationOptions = {
+    ...options.legacyOptions,
+    schemaRegistry: options.schemaRegistry,
+    customFormats: options.customFormats,
+    customKeywords: options.customKeywords,
+  }
+  const messages = getMessageCatalog(options.locale, {
+    ...getCustomFormatMessages(options.customFormats),
+    ...getCustomKeywordMessages(options.customKeywords),
+    ...options.messages,
+  })
+
+  return { schema, validationOptions, messages }
+}
+
+/**
+ * Set the touched and dirty state of the form store on the fields, including the fields of fieldsets
+ * @param fields - The fields to update (in place)
+ * @param getFieldState - Get the state of a field from the form store
+ * @param path - The path of the parent field
+ */
+function updateFieldStates(fields: Field[], getFieldState: FormStore['getFieldState'], path: string[] = []) {
+  for (const field of fields) {
+    const fieldPath = [...path, field.name]
+    const { touched, dirty } = getFieldState(fieldPath)
+    field.touched = touched
+    field.dirty = dirty
+
+    // The fields of group-array fields are the template of the items, not fields with a value
+    if (field.fields && field.inputType === 'fieldset') {
+      updateFieldStates(field.fields, getFieldState, fieldPath)
+    }
+  }
+}
+
+function getObjectValue(value: SchemaValue): ObjectValue {
+  return isObjectValue(value) ? value : {}
+}
+
+/**
+ * Run a function with the custom JSON Logic operations registered, removing them afterwards
+ * @param customJsonLogicOps - The custom operations
+ * @param fn - The function to run
+ * @returns The result of the function
+ */
+function withCustomJsonLogicOperations<T>(customJsonLogicOps: CreateHeadlessFormOptions['customJsonLogicOps'], fn: () => T): T {
+  try {
+    addCustomJsonLogicOperations(customJsonLogicOps)
+    return fn()
+  }
+  finally {
+    removeCustomJsonLogicOperations(customJsonLogicOps)
+  }
+}
+
 export function createHeadlessForm(
-  schema: JsfObjectSchema,
+  jsonSchema: JsfObjectSchema,
   options: CreateHeadlessFormOptions = {},
 ): FormResult {
-  validateOptions(options)
-  const initialValues = options.initialValues || {}
+  const { schema, validationOptions, messages } = prepareFormSchema(jsonSchema, options)
   const strictInputType = options.strictInputType || false
   const asyncLoaders = options.asyncLoaders || {}
+  const asyncValidators = options.asyncValidators || {}
+  const initialValues = options.applyDefaults
+    ? withCustomJsonLogicOperations(options.customJsonLogicOps, () => applySchemaDefaults(schema, getObjectValue(options.initialValues), validationOptions))
+    : options.initialValues || {}
   // Make a new version of the schema with all the computed attrs applied, as well as the final version of each property (taking into account conditional rules)
   const updatedSchema = calculateFinalSchema({
     schema,
     values: initialValues,
-    options: options.legacyOptions,
+    options: validationOptions,
   })
 
   const { fields, layout } = buildFields({
@@ -339,34 +865,190 @@ export function createHeadlessForm(
   // TODO: check if we need this isError variable exposed
   const isError = false
 
-  const handleValidation = (value: SchemaValue) => {
-    const customJsonLogicOps = options?.customJsonLogicOps
+  const getCompiledSchema = compileFormSchema(schema, validationOptions)
+  let fieldsSchema: JsfObjectSchema | undefined
 
-    try {
-      addCustomJsonLogicOperations(customJsonLogicOps)
+  const getFinalSchema = (value: SchemaValue) => {
+    const compiledSchema = getCompiledSchema(value)
 
-      const updatedSchema = calculateFinalSchema({
-        schema,
-        values: value,
-        options: options.legacyOptions,
-      })
+    // The fields only change when the final schema does
+    if (compiledSchema.schema !== fieldsSchema) {
+      updateFieldProperties(fields, compiledSchema.schema, schema)
+      syncFieldStates()
+      fieldsSchema = compiledSchema.schema
+    }
+
+    return compiledSchema
+  }
 
-      const result = validate(value, updatedSchema, options.legacyOptions)
+  const validateValue = (rawValue: SchemaValue) => withCustomJsonLogicOperations(options.customJsonLogicOps, () => {
+    const value = coerceFormValue(rawValue, schema, getCompiledSchema, options)
+    const compiledSchema = getFinalSchema(value)
 
-      updateFieldProperties(fields, updatedSchema, schema)
+    return { value, compiledSchema, errors: compiledSchema.validate(value) }
+  })
 
-      return result
+  const handleValidation = (rawValue: SchemaValue) => {
+    const { value, compiledSchema, errors } = validateValue(rawValue)
+
+    return withCoercedValues(getValidationResult(errors, compiledSchema.schema, messages, options.allErrorMessages), value, options)
+  }
+
+  // Only the subschemas of the fields are validated, and the fields aren't updated
+  const validatePaths = (paths: FieldPath[], rawValue: SchemaValue) => withCustomJsonLogicOperations(options.customJsonLogicOps, () => {
+    const value = coerceFormValue(rawValue, schema, getCompiledSchema, options)
+    const finalSchema = getCompiledSchema(value).schema
+    const fieldPaths = paths.map(path => typeof path === 'string' ? path.split('.') : path)
+
+    return withCoercedValues(getValidationResult(
+      validateSchemaPaths(value, finalSchema, fieldPaths, validationOptions),
+      finalSchema,
+      messages,
+      options.allErrorMessages,
+    ), value, options)
+  })
+
+  // Number of async validations in progress, by field (JSON pointer)
+  const pendingFields = new Map<string, number>()
+  const updatePendingField = (pointer: string, change: number) => {
+    const count = (pendingFields.get(pointer) ?? 0) + change
+    if (count > 0) {
+      pendingFields.set(pointer, count)
     }
-    finally {
-      removeCustomJsonLogicOperations(customJsonLogicOps)
+    else {
+      pendingFields.delete(pointer)
     }
   }
 
+  const handleValidationAsync = async (rawValue: SchemaValue, { signal }: AsyncValidationOptions = {}) => {
+    signal?.throwIfAborted()
+    const { value, compiledSchema, errors } = validateValue(rawValue)
+    const formValues = isObjectValue(value) ? value : {}
+
+    // Fields with errors are not validated asynchronously
+    const invalidFields = new Set(errors
+      .filter(error => !isWarning(error))
+      .map(error => toJsonPointer(transformErrorPath(error.path))))
+    const validations = getAsyncValidations(compiledSchema.schema, value, validationOptions)
+      .map(validation => ({ validation, pointer: toJsonPointer(transformErrorPath(validation.path)) }))
+      .filter(({ pointer }) => !invalidFields.has(pointer))
+
+    const asyncErrors = await Promise.all(validations.map(({ validation, pointer }) => {
+      updatePendingField(pointer, 1)
+      return runAsyncValidation(validation, asyncValidators, formValues, signal)
+        .finally(() => updatePendingField(pointer, -1))
+    }))
+
+    return withCoercedValues(getValidationResult(
+      [...errors, ...asyncErrors.filter(error => error !== undefined)],
+      compiledSchema.schema,
+      messages,
+      options.allErrorMessages,
+    ), value, options)
+  }
+
+  const getSubmitValues = (values: ObjectValue, { hiddenValues = 'remove' }: SubmitValuesOptions = {}) => {
+    return withCustomJsonLogicOperations(options.customJsonLogicOps, () => applyHiddenValuesPolicy({
+      values,
+      schema,
+      finalSchema: getCompiledSchema(values).schema,
+      policy: hiddenValues,
+      options: validationOptions,
+    }))
+  }
+
+  const store = createFormStore({
+    initialValues: getObjectValue(initialValues),
+    schema: updatedSchema,
+    updateFields: values => withCustomJsonLogicOperations(options.customJsonLogicOps, () => getFinalSchema(values).schema),
+  })
+
+  // The state is set again when the fields are updated, as the update removes the properties the new fields don't have
+  function syncFieldStates() {
+    updateFieldStates(fields, store.getFieldState)
+  }
+
+  // Subscribed before any other listener, so the fields are up to date when they're notified
+  store.subscribe(syncFieldStates)
+  syncFieldStates()
+
   return {
     fields,
     isError,
     error: null,
     handleValidation,
+    handleValidationAsync,
+    getPendingFields: () => [...pendingFields.keys()],
+    validateField: (path, value) => validatePaths([path], value),
+    validatePaths,
+    getSubmitValues,
+    ...store,
     layout,
   }
 }
+
+export type CreateValidatorOptions = Omit<CreateHeadlessFormOptions, 'initialValues' | 'applyDefaults' | 'strictInputType' | 'asyncLoaders' | 'asyncValidators'>
+
+export interface Validator {
+  /**
+   * Validate a value against the schema
+   * @param value - The value to validate
+   * @returns The validation result, the same as the one of `handleValidation`
+   */
+  validate: (value: SchemaValue) => ValidationResult
+}
+
+/**
+ * Create a validator for a schema, without building the form fields.
+ * Values are validated the same way as in `createHeadlessForm(...).handleValidation`: the conditional rules
+ * are applied to the schema for each value, and the errors have the same messages.
+ * @param jsonSchema - The schema to validate against
+ * @param options - The validation options
+ * @returns The validator
+ *
+ * @example
+ * ```ts
+ * const validator = createValidator(schema, { legacyOptions: { treatNullAsUndefined: true } })
+ * const { formErrors } = validator.validate(payload)
+ * ```
+ */
+export function createValidator(
+  jsonSchema: JsfObjectSchema,
+  options: CreateValidatorOptions = {},
+): Validator {
+  const { schema, validationOptions, messages } = prepareFormSchema(jsonSchema, options)
+  const getCompiledSchema = compileFormSchema(schema, validationOptions)
+
+  return {
+    validate: (rawValue: SchemaValue) => withCustomJsonLogicOperations(options.customJsonLogicOps, () => {
+      const value = coerceFormValue(rawValue, schema, getCompiledSchema, options)
+      return withCoercedValues(validate(value, getCompiledSchema(value), messages, options.allErrorMessages), value, options)
+    }),
+  }
+}
+
+export type DefaultValuesOptions = Pick<
+  CreateHeadlessFormOptions,
+  'initialValues' | 'legacyOptions' | 'customJsonLogicOps' | 'schemaRegistry' | 'customFormats' | 'customKeywords' | 'hardened' | 'strictSchema'
+>
+
+/**
+ * Get the values of a form with the `default` values of its schema, e.g. to store a new record on the server.
+ * Defaults are filled into nested objects, the items of arrays (`group-array` fields), and from the `then`/`else`
+ * branches that apply to the values. Existing values are never overridden.
+ * @param jsonSchema - The schema of the form
+ * @param options - The options, with the `initialValues` to fill
+ * @returns The values with the defaults (the initial values aren't mutated)
+ *
+ * @example
+ * ```ts
+ * getDefaultValues(schema, { initialValues: { name: 'Jane' } }) // { name: 'Jane', country: 'PT' }
+ * ```
+ */
+export function getDefaultValues(jsonSchema: JsfObjectSchema, options: DefaultValuesOptions = {}): ObjectValue {
+  const { schema, validationOptions } = prepareFormSchema(jsonSchema, options)
+
+  return withCustomJsonLogicOperations(options.customJsonLogicOps, () => {
+    return applySchemaDefaults(schema, getObjectValue(options.initialValues), validationOptions)
+  })
+}
@@ -0,0 +1,452 @@
+import { toJsonPointer } from './validation/util'
+
+/**
+ * Limits applied to untrusted schemas in hardened mode
+ */
+export interface HardeningOptions {
+  /**
+   * Maximum nesting depth of the schema (objects and arrays)
+   * @default 100
+   */
+  maxDepth?: number
+  /**
+   * Maximum number of values in the schema (objects, arrays and primitive values)
+   * @default 100000
+   */
+  maxSize?: number
+  /**
+   * Maximum length of the regular expressions (`pattern` and `patternProperties`)
+   * @default 1000
+   */
+  maxPatternLength?: number
+}
+
+/**
+ * The type of violation found in an untrusted schema
+ * - `unsafeKey`: a `__proto__` key, or a `__proto__`, `constructor` or `prototype` segment in a field path of the
+ *   `modify` config (e.g. `'address.__proto__'`), which could pollute the prototype of objects
+ * - `maxDepth`: the schema is nested deeper than `maxDepth`
+ * - `maxSize`: the schema has more values than `maxSize`
+ * - `unsafePattern`: a regular expression that is invalid, too long, or vulnerable to catastrophic backtracking (ReDoS)
+ */
+export type UnsafeSchemaViolation = 'unsafeKey' | 'maxDepth' | 'maxSize' | 'unsafePattern'
+
+/**
+ * Error thrown in hardened mode when a schema is not safe to use
+ */
+export interface UnsafeSchemaError extends Error {
+  name: 'UnsafeSchemaError'
+  /**
+   * The type of violation
+   */
+  violation: UnsafeSchemaViolation
+  /**
+   * JSON pointer to the unsafe part of the schema
+   * @example
+   * '/properties/name/pattern'
+   */
+  pointer: string
+}
+
+// Field paths are followed by lodash `set`, so `constructor.prototype` would also reach the prototype of objects
+const UNSAFE_PATH_SEGMENTS = ['__proto__', 'constructor', 'prototype']
+
+const DEFAULT_MAX_DEPTH = 100
+const DEFAULT_MAX_SIZE = 100000
+const DEFAULT_MAX_PATTERN_LENGTH = 1000
+
+function createUnsafeSchemaError(violation: UnsafeSchemaViolation, path: Array<string | number>, message: string): UnsafeSchemaError {
+  const pointer = toJsonPointer(path)
+
+  return Object.assign(new Error(`[json-schema-form] Unsafe schema at "${pointer}": ${message}`), {
+    name: 'UnsafeSchemaError' as const,
+    violation,
+    pointer,
+  })
+}
+
+/**
+ * Check if an error was thrown because a schema is not safe to use (in hardened mode)
+ * @param error - The error
+ * @returns True if the error is an `UnsafeSchemaError`
+ */
+export function isUnsafeSchemaError(error: unknown): error is UnsafeSchemaError {
+  return error instanceof Error && error.name === 'UnsafeSchemaError' && 'violation' in error
+}
+
+/**
+ * Check if a key can be safely assigned to an object (without changing its prototype)
+ */
+export function isSafeKey(key: string): boolean {
+  return key !== '__proto__'
+}
+
+/**
+ * Check that a field path of the `modify` config (with dots for nested fields) is safe to use
+ * @param fieldPath - The field path
+ * @param path - The path to the field path in the config
+ * @throws {UnsafeSchemaError} If the field path could reach the prototype of objects
+ */
+export function assertSafeFieldPath(fieldPath: string, path: Array<string | number>): void {
+  if (fieldPath.split('.').some(segment => UNSAFE_PATH_SEGMENTS.includes(segment))) {
+    throw createUnsafeSchemaError('unsafeKey', path, `the "${fieldPath}" field path is not allowed`)
+  }
+}
+
+/**
+ * Check that an untrusted schema (or any JSON value, e.g. the config of `modify`) is safe to use
+ * @param schema - The schema to check
+ * @param options - The limits of the schema
+ * @throws {UnsafeSchemaError} If the schema has unsafe keys, is too deep or too big, or has unsafe regular expressions
+ * @description
+ * Regular expressions are rejected when they're too long, invalid, or have repeated groups with nested quantifiers (e.g. `(a+)+`)
+ * or overlapping alternatives (e.g. `(a|aa)+`), which can take exponential time to match.
+ */
+export function assertSafeSchema(schema: unknown, options: HardeningOptions = {}): void {
+  const {
+    maxDepth = DEFAULT_MAX_DEPTH,
+    maxSize = DEFAULT_MAX_SIZE,
+    maxPatternLength = DEFAULT_MAX_PATTERN_LENGTH,
+  } = options
+  let size = 0
+
+  const checkPattern = (pattern: string, path: Array<string | number>) => {
+    if (pattern.length > maxPatternLength) {
+      throw createUnsafeSchemaError('unsafePattern', path, `the pattern is longer than ${maxPatternLength} characters`)
+    }
+
+    try {
+      void new RegExp(pattern)
+    }
+    catch {
+      throw createUnsafeSchemaError('unsafePattern', path, `"${pattern}" is not a valid regular expression`)
+    }
+
+    const backtrackingRisk = getBacktrackingRisk(pattern)
+    if (backtrackingRisk) {
+      throw createUnsafeSchemaError('unsafePattern', path, `"${pattern}" ${backtrackingRisk}`)
+    }
+  }
+
+  const check = (value: unknown, path: Array<string | number>) => {
+    size++
+    if (size > maxSize) {
+      throw createUnsafeSchemaError('maxSize', path, `the schema has more than ${maxSize} values`)
+    }
+
+    if (!value || typeof value !== 'object') {
+      return
+    }
+
+    if (path.length >= maxDepth) {
+      throw createUnsafeSchemaError('maxDepth', path, `the schema is nested deeper than ${maxDepth} levels`)
+    }
+
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => check(item, [...path, index]))
+      return
+    }
+
+    for (const [key, item] of Object.entries(value)) {
+      if (!isSafeKey(key)) {
+        throw createUnsafeSchemaError('unsafeKey', [...path, key], `the "${key}" key is not allowed`)
+      }
+
+      if (key === 'pattern' && typeof item === 'string') {
+        checkPattern(item, [...path, key])
+      }
+
+      if (key === 'patternProperties' && item && typeof item === 'object') {
+        Object.keys(item).forEach(pattern => checkPattern(pattern, [...path, key, pattern]))
+      }
+
+      check(item, [...path, key])
+    }
+  }
+
+  check(schema, [])
+}
+
+/**
+ * Check if a regular expression can take exponential time to match (catastrophic backtracking), because it has a repeated group:
+ * - with a repeated expression (nested quantifiers, e.g. `(a+)+` or `(\d*x?)*`)
+ * - with alternatives that can match the same input (e.g. `(a|aa)+` or `(\w|\d)+`). Alternatives are considered to overlap
+ *   when they can start with the same character, so some safe groups are also rejected (e.g. `(ab|ac)+`).
+ *
+ * There are exponentially many ways to match a string with these groups.
+ * @param pattern - The regular expression source
+ * @returns The reason the pattern is unsafe, if it is
+ */
+function getBacktrackingRisk(pattern: string): string | undefined {
+  // The start of each open group, and whether it contains a repeated expression
+  const groups: Array<{ start: number, repeats: boolean }> = []
+  // The previous atom, if it's a group
+  let previousGroup: { source: string, repeats: boolean } | undefined
+  let i = 0
+
+  while (i < pattern.length) {
+    const char = pattern[i]
+
+    if (char === '\\') {
+      previousGroup = undefined
+      i += 2
+    }
+    else if (char === '[') {
+      previousGroup = undefined
+      i = getClassEnd(pattern, i)
+    }
+    else if (char === '(') {
+      previousGroup = undefined
+      i++
+      // Skip the group modifiers: (?:, (?=, (?!, (?<=, (?<! and (?<name>
+      if (pattern[i] === '?') {
+        const end = pattern[i + 1] === '<' && !['=', '!'].includes(pattern[i + 2]) ? pattern.indexOf('>', i) : i + (pattern[i + 1] === '<' ? 2 : 1)
+        i = end + 1
+      }
+      groups.push({ start: i, repeats: false })
+    }
+    else if (char === ')') {
+      const group = groups.pop()
+      if (group?.repeats && groups.length > 0) {
+        groups[groups.length - 1].repeats = true
+      }
+      previousGroup = group && { source: pattern.slice(group.start, i), repeats: group.repeats }
+      i++
+    }
+    else if (char === '*' || char === '+' || char === '?' || (char === '{' && /^\{\d+(?:,\d*)?\}/.test(pattern.slice(i)))) {
+      const quantifier = char === '{' ? pattern.slice(i, pattern.indexOf('}', i) + 1) : char
+      const repeating = isRepeatingQuantifier(quantifier)
+
+      if (repeating && previousGroup?.repeats) {
+        return 'has nested quantifiers'
+      }
+      if (repeating && previousGroup && hasOverlappingAlternatives(previousGroup.source)) {
+        return 'has a repeated group with overlapping alternatives'
+      }
+      if (repeating && groups.length > 0) {
+        groups[groups.length - 1].repeats = true
+      }
+
+      previousGroup = undefined
+      i += quantifier.length
+      // Lazy quantifiers (e.g. `+?`)
+      if (pattern[i] === '?') {
+        i++
+      }
+    }
+    else {
+      previousGroup = undefined
+      i++
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Characters used to check if two expressions can start with the same character: ASCII and some non-ASCII letters and spaces
+ */
+const SAMPLE_CHARACTERS = [...Array.from({ length: 128 }, (_, code) => String.fromCharCode(code)), '\u00A0', '\u2028', '\uFEFF', 'é', 'ß', '中']
+
+/**
+ * Check if some alternatives of a group (e.g. `a|aa`) can start with the same character
+ * @param source - The source of the group, without the parentheses and modifiers
+ */
+function hasOverlappingAlternatives(source: string): boolean {
+  const alternatives = splitAlternatives(source).map(alternative => getFirstCharacters(alternative).map(toCharacterRegExp))
+  if (alternatives.length < 2) {
+    return false
+  }
+
+  const canStartWith = SAMPLE_CHARACTERS.map(char => alternatives.map(first => first.some(regex => regex.test(char))))
+  return canStartWith.some(matches => matches.filter(Boolean).length > 1)
+}
+
+/**
+ * Split a regular expression into its top-level alternatives (e.g. `a|(b|c)` into `a` and `(b|c)`)
+ */
+function splitAlternatives(source: string): string[] {
+  const alternatives: string[] = []
+  let depth = 0
+  let start = 0
+  let i = 0
+
+  while (i < source.length) {
+    const char = source[i]
+
+    if (char === '\\') {
+      i += 2
+      continue
+    }
+
+    if (char === '[') {
+      i = getClassEnd(source, i)
+      continue
+    }
+
+    if (char === '(') {
+      depth++
+    }
+    else if (char === ')') {
+      depth--
+    }
+    else if (char === '|' && depth === 0) {
+      alternatives.push(source.slice(start, i))
+      start = i + 1
+    }
+    i++
+  }
+
+  return [...alternatives, source.slice(start)]
+}
+
+/**
+ * Get the expressions that can match the first character of a regular expression (without alternatives at the top level),
+ * e.g. `a` and `\d` for `a?\d+`
+ */
+function getFirstCharacters(source: string): string[] {
+  const characters: string[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const char = source[i]
+    let end = i + 1
+    let first: string[]
+
+    // Anchors and word boundaries don't match characters
+    if (char === '^' || char === '$' || (char === '\\' && ['b', 'B'].includes(source[i + 1]))) {
+      i += char === '\\' ? 2 : 1
+      continue
+    }
+
+    if (char === '\\') {
+      end = i + getEscapeLength(source, i)
+      // Backreferences can match any character
+      first = [/^\\(?:[1-9]|k<)/.test(source.slice(i)) ? '[\\s\\S]' : source.slice(i, end)]
+    }
+    else if (char === '[') {
+      end = getClassEnd(source, i)
+      first = [source.slice(i, end)]
+    }
+    else if (char === '(') {
+      end = getGroupEnd(source, i)
+      const content = source.slice(i + 1, end - 1)
+      // Lookarounds don't match characters
+      if (/^\?(?:=|!|<=|<!)/.test(content)) {
+        i = end
+        continue
+      }
+      const groupSource = content.startsWith('?:') ? content.slice(2) : content.startsWith('?<') ? content.slice(content.indexOf('>') + 1) : content
+      first = splitAlternatives(groupSource).flatMap(getFirstCharacters)
+    }
+    else {
+      first = [char]
+    }
+
+    characters.push(...first)
+    i = end
+
+    const quantifier = /^(?:[*+?]|\{\d+(?:,\d*)?\})\??/.exec(source.slice(i))?.[0]
+    // The next expression can also match the first character when this one is optional
+    if (!quantifier || !/^(?:[*?]|\{0[,}])/.test(quantifier)) {
+      return characters
+    }
+    i += quantifier.length
+  }
+
+  return characters
+}
+
+function toCharacterRegExp(expression: string): RegExp {
+  try {
+    return new RegExp(`^(?:${expression})$`)
+  }
+  catch {
+    // Expressions that can't be checked are considered to match any character
+    return /^[\s\S]$/
+  }
+}
+
+/**
+ * Get the length of an escape sequence (e.g. `\d`, `\x41` or `\u0041`)
+ */
+function getEscapeLength(source: string, start: number): number {
+  const escaped = source[start + 1]
+
+  if (escaped === 'x') {
+    return 4
+  }
+  if (escaped === 'u') {
+    return 6
+  }
+  if (escaped === 'c') {
+    return 3
+  }
+  if (escaped === 'k' && source[start + 2] === '<') {
+    return source.indexOf('>', start) - start + 1
+  }
+
+  return 2
+}
+
+/**
+ * Get the index after the end of a character class (e.g. `[a-z]`)
+ */
+function getClassEnd(source: string, start: number): number {
+  let i = start + 1
+
+  while (i < source.length && source[i] !== ']') {
+    i += source[i] === '\\' ? 2 : 1
+  }
+
+  return i + 1
+}
+
+/**
+ * Get the index after the end of a group (e.g. `(a|b)`)
+ */
+function getGroupEnd(source: string, start: number): number {
+  let depth = 0
+  let i = start
+
+  while (i < source.length) {
+    const char = source[i]
+
+    if (char === '\\') {
+      i += 2
+      continue
+    }
+
+    if (char === '[') {
+      i = getClassEnd(source, i)
+      continue
+    }
+
+    if (char === '(') {
+      depth++
+    }
+    else if (char === ')' && --depth === 0) {
+      return i + 1
+    }
+    i++
+  }
+
+  return i
+}
+
+/**
+ * Check if a quantifier can match its expression more than once
+ */
+function isRepeatingQuantifier(quantifier: string): boolean {
+  if (quantifier === '?') {
+    return false
+  }
+
+  const bounds = /^\{(\d+)(,(\d*))?\}$/.exec(quantifier)
+  if (bounds) {
+    const [, min, comma, max] = bounds
+    return comma !== undefined ? max === '' || Number(max) > 1 : Number(min) > 1
+  }
+
+  return true
+}
@@ -1,12 +1,42 @@
+export { coerceValue } from './coerce'
+export {
+  type CustomKeywordErrorType,
+  type ErrorMessageCatalog,
+  type ErrorMessageKey,
+  type SchemaValidationErrorType,
+  type ValidationSeverity,
+} from './errors'
+export { errorMessageCatalogs } from './errors/locales'
 export { type Field, type FieldType } from './field/type'
 export {
+  type AsyncValidationOptions,
   createHeadlessForm,
   type CreateHeadlessFormOptions,
+  createValidator,
+  type CreateValidatorOptions,
+  type DefaultValuesOptions,
+  type FieldPath,
+  type FormErrorMessages,
   type FormErrors,
+  type FormValidationError,
+  getDefaultValues,
   type LegacyOptions,
+  type SubmitValuesOptions,
   type ValidationResult,
+  type Validator,
 } from './form'
+export {
+  assertSafeSchema,
+  type HardeningOptions,
+  isUnsafeSchemaError,
+  type UnsafeSchemaError,
+  type UnsafeSchemaViolation,
+} from './hardening'
+export { type LintProblem, type LintRule, lintSchema } from './lint'
+export { validateFormSchema } from './meta-schema'
 export { modifySchema as modify } from './modify-schema'
+export { type FieldState, type FormChangeEvent, type FormListener, type FormState, type FormStore } from './store'
+export { type HiddenValuesPolicy } from './submit'
 
 export {
   type AsyncOptionsConfig,
@@ -14,10 +44,14 @@ export {
   type AsyncOptionsLoaderContext,
   type AsyncOptionsLoaderResult,
   type AsyncOptionsPaginationInfo,
+  type AsyncValidator,
+  type AsyncValidatorContext,
+  type JsfErrorMessage,
   type JsfLayoutConfig,
   type JsfObjectSchema,
   type ResponsiveBreakpoints,
   type ResponsiveFieldConfig,
+  type SchemaRegistry,
   type SchemaValue,
 } from './types'
 
@@ -33,3 +67,17 @@ export {
   isValidLayoutConfig,
   normalizeLayoutConfig,
 } from './utils/layout'
+
+export { type CompiledValidator, compileSchema } from './validation/compile'
+export { type CustomKeyword, type CustomKeywordContext, type CustomKeywordValidator } from './validation/custom/keywords'
+export { type CustomFormat, type FormatValidator } from './validation/format'
+export {
+  type BasicOutput,
+  type FlagOutput,
+  getValidationOutput,
+  type OutputFormat,
+  type OutputOptions,
+  type OutputUnit,
+} from './validation/output'
+
+export { loadSchemaRegistry } from './validation/ref'
@@ -0,0 +1,206 @@
+import type { ValidationSeverity } from './errors'
+import type { FieldType } from './field/type'
+import type { JsfSchema, JsonLogicRules, NonBooleanJsfSchema } from './types'
+import { isValidLayoutConfig } from './utils/layout'
+import { toJsonPointer } from './validation/util'
+
+/**
+ * The rule broken by a problem found by `lintSchema`
+ * - `unknown-order-key`: an `x-jsf-order` entry that isn't a property of the schema
+ * - `missing-logic-validation`: an `x-jsf-logic-validations` entry that isn't declared in `x-jsf-logic`
+ * - `missing-computed-value`: an `x-jsf-logic-computedAttrs` attribute referencing a computed value that isn't declared in `x-jsf-logic`
+ * - `unknown-input-type`: an `x-jsf-presentation.inputType` that isn't one of the field types
+ * - `invalid-layout`: an `x-jsf-layout` that isn't a valid layout configuration
+ */
+export type LintRule =
+  | 'unknown-order-key'
+  | 'missing-logic-validation'
+  | 'missing-computed-value'
+  | 'unknown-input-type'
+  | 'invalid-layout'
+
+/**
+ * Problem found by `lintSchema`
+ */
+export interface LintProblem {
+  /**
+   * The rule broken by the schema
+   */
+  rule: LintRule
+  /**
+   * The severity of the problem. Errors break the form (e.g. throw at validation time), while warnings are ignored.
+   */
+  severity: ValidationSeverity
+  /**
+   * JSON pointer to the problem in the schema
+   * @example
+   * '/properties/end_date/x-jsf-logic-validations/0'
+   */
+  pointer: string
+  /**
+   * Description of the problem
+   */
+  message: string
+}
+
+// A record (instead of a list) so that new field types can't be forgotten here
+const FIELD_TYPES: Record<FieldType, true> = {
+  'text': true,
+  'number': true,
+  'select': true,
+  'file': true,
+  'radio': true,
+  'group-array': true,
+  'email': true,
+  'date': true,
+  'checkbox': true,
+  'fieldset': true,
+  'money': true,
+  'country': true,
+  'textarea': true,
+  'hidden': true,
+  'autocomplete': true,
+}
+
+const SEVERITIES: Record<LintRule, ValidationSeverity> = {
+  'unknown-order-key': 'warning',
+  'missing-logic-validation': 'error',
+  'missing-computed-value': 'error',
+  'unknown-input-type': 'error',
+  'invalid-layout': 'error',
+}
+
+const SUBSCHEMA_KEYWORDS = ['items', 'not', 'if', 'then', 'else'] as const
+const SUBSCHEMA_LIST_KEYWORDS = ['allOf', 'anyOf', 'oneOf'] as const
+const SUBSCHEMA_MAP_KEYWORDS = ['properties', '$defs', 'dependentSchemas'] as const
+
+/**
+ * Statically check the `x-jsf-*` extensions of a schema, finding the mistakes that would otherwise be silently ignored
+ * or only noticed at validation time
+ * @param schema - The schema to check
+ * @returns The problems found, with their severity and JSON pointer
+ * @example
+ * lintSchema({ type: 'object', properties: { name: { type: 'string' } }, 'x-jsf-order': ['nmae'] })
+ * // [{ rule: 'unknown-order-key', severity: 'warning', pointer: '/x-jsf-order/0', message: 'Unknown property "nmae" in x-jsf-order' }]
+ */
+export function lintSchema(schema: JsfSchema): LintProblem[] {
+  const problems: LintProblem[] = []
+
+  const report = (rule: LintRule, path: Array<string | number>, message: string) => {
+    problems.push({ rule, severity: SEVERITIES[rule], pointer: toJsonPointer(path), message })
+  }
+
+  const lint = (schema: JsfSchema, path: Array<string | number>, logic: JsonLogicRules | undefined) => {
+    if (!schema || typeof schema !== 'object') {
+      return
+    }
+
+    // Like in validation, the first `x-jsf-logic` found is the one referenced by the nested schemas
+    const jsonLogic = logic ?? schema['x-jsf-logic']
+
+    const order = schema['x-jsf-order']
+    if (Array.isArray(order)) {
+      const keys = getPropertyKeys(typeof schema.items === 'object' ? schema.items : schema)
+      order.forEach((key, index) => {
+        if (!keys.has(key)) {
+          report('unknown-order-key', [...path, 'x-jsf-order', index], `Unknown property "${key}" in x-jsf-order`)
+        }
+      })
+    }
+
+    schema['x-jsf-logic-validations']?.forEach((name, index) => {
+      if (!jsonLogic?.validations?.[name]) {
+        report('missing-logic-validation', [...path, 'x-jsf-logic-validations', index], `Validation "${name}" isn't declared in x-jsf-logic`)
+      }
+    })
+
+    const computedAttrs = schema['x-jsf-logic-computedAttrs']
+    if (computedAttrs) {
+      lintComputedAttrs(computedAttrs, [...path, 'x-jsf-logic-computedAttrs'], (name, attrPath) => {
+        if (!jsonLogic?.computedValues?.[name]) {
+          report('missing-computed-value', attrPath, `Computed value "${name}" isn't declared in x-jsf-logic`)
+        }
+      })
+    }
+
+    const inputType = schema['x-jsf-presentation']?.inputType
+    if (inputType !== undefined && !Object.hasOwn(FIELD_TYPES, inputType)) {
+      report('unknown-input-type', [...path, 'x-jsf-presentation', 'inputType'], `Unknown input type "${inputType}"`)
+    }
+
+    if (schema['x-jsf-layout'] !== undefined && !isValidLayoutConfig(schema['x-jsf-layout'])) {
+      report('invalid-layout', [...path, 'x-jsf-layout'], 'Invalid layout configuration in x-jsf-layout')
+    }
+
+    for (const keyword of SUBSCHEMA_KEYWORDS) {
+      lint(schema[keyword] as JsfSchema, [...path, keyword], jsonLogic)
+    }
+
+    for (const keyword of SUBSCHEMA_LIST_KEYWORDS) {
+      schema[keyword]?.forEach((subschema, index) => lint(subschema as JsfSchema, [...path, keyword, index], jsonLogic))
+    }
+
+    for (const keyword of SUBSCHEMA_MAP_KEYWORDS) {
+      for (const [key, subschema] of Object.entries(schema[keyword] ?? {})) {
+        lint(subschema, [...path, keyword, key], jsonLogic)
+      }
+    }
+
+    // The conditions of `x-jsf-logic` (if/then/else, allOf, etc.) are schemas too
+    const { validations, computedValues, ...logicSchema } = schema['x-jsf-logic'] ?? {}
+    if (Object.keys(logicSchema).length > 0) {
+      lint(logicSchema, [...path, 'x-jsf-logic'], jsonLogic)
+    }
+  }
+
+  lint(schema, [], undefined)
+
+  return problems
+}
+
+/**
+ * Get the keys of the properties of a schema, including the ones declared in its conditional branches
+ * (as fields are also created for them)
+ */
+function getPropertyKeys(schema: JsfSchema, keys = new Set<string>()): Set<string> {
+  if (typeof schema !== 'object') {
+    return keys
+  }
+
+  Object.keys(schema.properties ?? {}).forEach(key => keys.add(key))
+
+  const branches: JsfSchema[] = [
+    schema.then,
+    schema.else,
+    ...(schema.allOf ?? []),
+    ...(schema.anyOf ?? []),
+    ...(schema.oneOf ?? []),
+    ...Object.values(schema.dependentSchemas ?? {}),
+  ].filter(branch => branch !== undefined)
+
+  branches.forEach(branch => getPropertyKeys(branch, keys))
+
+  return keys
+}
+
+/**
+ * Call a function with the name and path of every computed value referenced by the (nested) computed attributes,
+ * either directly by name or in handlebars templates (e.g. `'Category: {{ageCategory}}'`)
+ */
+function lintComputedAttrs(
+  computedAttrs: NonBooleanJsfSchema['x-jsf-logic-computedAttrs'] | object,
+  path: Array<string | number>,
+  check: (name: string, path: Array<string | number>) => void,
+) {
+  for (const [attr, computation] of Object.entries(computedAttrs ?? {})) {
+    if (typeof computation === 'string') {
+      const templateNames = [...computation.matchAll(/\{\{(.*?)\}\}/g)].map(([, name]) => name.trim())
+      const names = templateNames.length > 0 ? templateNames : [computation]
+
+      names.forEach(name => check(name, [...path, attr]))
+    }
+    else if (computation && typeof computation === 'object') {
+      lintComputedAttrs(computation, [...path, attr], check)
+    }
+  }
+}
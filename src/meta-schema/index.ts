@@ -0,0 +1,140 @@
+import type { JsfSchema, SchemaValue } from '../types'
+import type { BasicOutput } from '../validation/output'
+import formMetaSchema from '../../json-schema-form.schema.json'
+import { getValidationOutput } from '../validation/output'
+import draft07MetaSchema from './json-schema-draft-07.json'
+
+const DRAFT_07_URI = 'http://json-schema.org/draft-07/schema'
+
+const errorMessageSchema = {
+  anyOf: [
+    { type: 'string' },
+    {
+      type: 'object',
+      properties: {
+        message: { type: 'string' },
+        severity: { enum: ['error', 'warning'] },
+      },
+      required: ['message'],
+    },
+  ],
+}
+
+/**
+ * The json-schema-form meta-schema, extended with the keywords of `JsfSchema` that it doesn't declare:
+ * the newer JSON Schema keywords (`$defs`, `dependentSchemas`, etc.) and the `x-jsf-*` extensions.
+ * Subschemas reference the root (`#`), so nested schemas are checked with the extensions too.
+ */
+const metaSchema = {
+  ...formMetaSchema,
+  definitions: {
+    ...formMetaSchema.definitions,
+    stringArray: { $ref: `${DRAFT_07_URI}#/definitions/stringArray` },
+    positiveInteger: { type: 'integer', minimum: 1 },
+    responsiveConfig: {
+      type: 'object',
+      properties: {
+        sm: { $ref: '#/definitions/positiveInteger' },
+        md: { $ref: '#/definitions/positiveInteger' },
+        lg: { $ref: '#/definitions/positiveInteger' },
+        xl: { $ref: '#/definitions/positiveInteger' },
+      },
+    },
+    columnPosition: {
+      anyOf: [{ $ref: '#/definitions/positiveInteger' }, { $ref: '#/definitions/responsiveConfig' }],
+    },
+  },
+  properties: {
+    ...formMetaSchema.properties,
+    '$defs': { type: 'object', additionalProperties: { $ref: '#' } },
+    'dependentSchemas': { type: 'object', additionalProperties: { $ref: '#' } },
+    'dependentRequired': { type: 'object', additionalProperties: { $ref: '#/definitions/stringArray' } },
+    'prefixItems': { $ref: '#/definitions/schemaArray' },
+    'unevaluatedItems': { $ref: '#' },
+    'unevaluatedProperties': { $ref: '#' },
+    'x-jsf-errorMessage': {
+      type: 'object',
+      additionalProperties: errorMessageSchema,
+    },
+    'x-jsf-layout': {
+      type: 'object',
+      properties: {
+        type: { const: 'columns' },
+        columns: { $ref: '#/definitions/positiveInteger' },
+        gap: { type: 'string' },
+        responsive: { $ref: '#/definitions/responsiveConfig' },
+        colSpan: { $ref: '#/definitions/columnPosition' },
+        colStart: { $ref: '#/definitions/columnPosition' },
+        colEnd: { $ref: '#/definitions/columnPosition' },
+      },
+    },
+    'x-jsf-logic': {
+      type: 'object',
+      properties: {
+        validations: {
+          type: 'object',
+          additionalProperties: {
+            type: 'object',
+            properties: {
+              errorMessage: { type: 'string' },
+              rule: true,
+              severity: { enum: ['error', 'warning'] },
+            },
+            required: ['rule'],
+          },
+        },
+        computedValues: {
+          type: 'object',
+          additionalProperties: { type: 'object', properties: { rule: true }, required: ['rule'] },
+        },
+        if: { $ref: '#' },
+        then: { $ref: '#' },
+        else: { $ref: '#' },
+        not: { $ref: '#' },
+        allOf: { $ref: '#/definitions/schemaArray' },
+        anyOf: { $ref: '#/definitions/schemaArray' },
+        oneOf: { $ref: '#/definitions/schemaArray' },
+      },
+    },
+    'x-jsf-logic-validations': { $ref: '#/definitions/stringArray' },
+    'x-jsf-asyncValidations': { $ref: '#/definitions/stringArray' },
+    'x-jsf-logic-computedAttrs': {
+      type: 'object',
+      additionalProperties: { type: ['string', 'object'] },
+    },
+  },
+} as unknown as JsfSchema
+
+/**
+ * Validate a schema against the json-schema-form meta-schema (`json-schema-form.schema.json`,
+ * extended with the `x-jsf-*` keywords supported by the library)
+ * @param schema - The schema to validate
+ * @returns The validation output, with the JSON pointer to each invalid part of the schema (`instanceLocation`)
+ * and the meta-schema keyword it doesn't comply with (`keywordLocation`)
+ * @example
+ * validateFormSchema({ type: 'object', properties: { age: { type: 'integr' } } })
+ * // { valid: false, errors: [{ valid: false, keywordLocation: '/properties/properties/additionalProperties/$ref/...', instanceLocation: '/properties/age/type', error: '...' }] }
+ */
+export function validateFormSchema(schema: JsfSchema): BasicOutput {
+  const output = getValidationOutput(schema as SchemaValue, metaSchema, {
+    schemaRegistry: { [DRAFT_07_URI]: draft07MetaSchema as unknown as JsfSchema },
+  })
+
+  if (output.valid) {
+    return output
+  }
+
+  // Nested schemas are checked both by the draft-07 meta-schema and by its extension, so the errors of the
+  // draft-07 keywords are found twice (with the same absolute location)
+  const seen = new Set<string>()
+  const errors = output.errors?.filter((error) => {
+    const key = `${error.instanceLocation} ${error.absoluteKeywordLocation ?? error.keywordLocation}`
+    if (seen.has(key)) {
+      return false
+    }
+    seen.add(key)
+    return true
+  })
+
+  return { valid: false, errors }
+}
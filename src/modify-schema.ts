@@ -1,3 +1,4 @@
+import type { HardeningOptions } from './hardening'
 import type { JsfSchema } from './types'
 import difference from 'lodash/difference'
 import get from 'lodash/get'
@@ -5,6 +6,7 @@ import intersection from 'lodash/intersection'
 import merge from 'lodash/merge'
 import mergeWith from 'lodash/mergeWith'
 import set from 'lodash/set'
+import { assertSafeFieldPath, assertSafeSchema } from './hardening'
 
 type FieldOutput = Partial<JsfSchema>
 
@@ -26,6 +28,12 @@ interface ModifyConfig {
   pick?: string[]
   orderRoot?: string[] | ((originalOrder: string[]) => string[])
   muteLogging?: boolean
+  /**
+   * Hardened mode, for untrusted schemas or configs: both are checked before modifying the schema,
+   * throwing an `UnsafeSchemaError` for keys or field names that could pollute prototypes (e.g. `'address.__proto__'`),
+   * values too deep or too big, and regular expressions prone to catastrophic backtracking.
+   */
+  hardened?: boolean | HardeningOptions
 };
 
 type WarningType = 'FIELD_TO_CHANGE_NOT_FOUND'
@@ -417,6 +425,15 @@ function findMissingFields(conditional: JsfSchema | undefined, { fields, path }:
  * @returns {ModifyResult} The new schema and the warnings that occurred during the modifications
  */
 export function modifySchema(originalSchema: JsfSchema, config: ModifyConfig) {
+  if (config.hardened) {
+    const hardeningOptions = config.hardened === true ? {} : config.hardened
+    assertSafeSchema(originalSchema, hardeningOptions)
+    assertSafeSchema(config, hardeningOptions)
+    Object.keys(config.fields ?? {}).forEach(fieldPath => assertSafeFieldPath(fieldPath, ['fields', fieldPath]))
+    Object.keys(config.create ?? {}).forEach(fieldPath => assertSafeFieldPath(fieldPath, ['create', fieldPath]))
+    config.pick?.forEach((fieldPath, index) => assertSafeFieldPath(fieldPath, ['pick', index]))
+  }
+
   // Create a deep copy of the original schema so we don't mutate the original one.
   const schema = JSON.parse(JSON.stringify(originalSchema))
 
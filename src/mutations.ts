@@ -1,12 +1,13 @@
 import type { Field } from './field/type'
 import type { JsfObjectSchema, JsfSchema, JsonLogicContext, NonBooleanJsfSchema, ObjectValue, SchemaValue } from './types'
-import type { LegacyOptions } from './validation/schema'
+import type { ValidationOptions } from './validation/schema'
 import { buildFieldSchema } from './field/schema'
 import { deepMergeSchemas } from './utils'
 import { evaluateIfCondition } from './validation/conditions'
 import { applyComputedAttrsToSchema, getJsonLogicContextFromSchema } from './validation/json-logic'
+import { createRefResolver } from './validation/ref'
 import { validateSchema } from './validation/schema'
-import { isObjectValue, safeDeepClone } from './validation/util'
+import { hasProperty, isObjectValue, safeDeepClone } from './validation/util'
 
 /**
  * Creates a new version of the schema with all the computed attrs applied, as well as the
@@ -24,18 +25,20 @@ export function calculateFinalSchema({
 }: {
   schema: JsfObjectSchema
   values: SchemaValue
-  options?: LegacyOptions
+  options?: ValidationOptions
 }): JsfObjectSchema {
   const jsonLogicContext = schema['x-jsf-logic'] ? getJsonLogicContextFromSchema(schema['x-jsf-logic'], values) : undefined
   const schemaCopy = safeDeepClone(schema)
+  // Conditions are evaluated against subschemas, so references ($ref) must be resolved against the root schema
+  const rulesOptions = { ...options, refResolver: createRefResolver(schemaCopy, options.schemaRegistry) }
 
-  applySchemaRules(schemaCopy, values, options, jsonLogicContext)
+  applySchemaRules(schemaCopy, values, rulesOptions, jsonLogicContext)
 
   if (jsonLogicContext?.schema.computedValues) {
     applyComputedAttrsToSchema(schemaCopy, jsonLogicContext.schema.computedValues, values)
     // If we had computed values applied to the schema,
     // we need to re-apply the schema rules to update the fields
-    applySchemaRules(schemaCopy, values, options, jsonLogicContext)
+    applySchemaRules(schemaCopy, values, rulesOptions, jsonLogicContext)
   }
 
   return schemaCopy
@@ -53,7 +56,7 @@ function evaluateConditional(
   values: ObjectValue,
   schema: JsfObjectSchema,
   rule: NonBooleanJsfSchema,
-  options: LegacyOptions = {},
+  options: ValidationOptions = {},
   jsonLogicContext: JsonLogicContext | undefined,
 ) {
   // At this point, we know that the rule has an if property
@@ -87,7 +90,7 @@ function evaluateConditional(
 function applySchemaRules(
   schema: JsfObjectSchema,
   values: SchemaValue = {},
-  options: LegacyOptions = {},
+  options: ValidationOptions = {},
   jsonLogicContext: JsonLogicContext | undefined,
 ) {
   if (!isObjectValue(values)) {
@@ -125,6 +128,22 @@ function applySchemaRules(
     }
   }
 
+  // Dependent keywords only apply once the property that triggers them is filled
+  for (const [key, dependencies] of Object.entries(schema.dependentRequired ?? {})) {
+    if (hasProperty(values, key, options.treatNullAsUndefined)) {
+      processBranch(schema, values, { required: [...dependencies] }, options, jsonLogicContext)
+      delete schema.dependentRequired![key]
+    }
+  }
+
+  for (const [key, dependentSchema] of Object.entries(schema.dependentSchemas ?? {})) {
+    if (typeof dependentSchema === 'object' && hasProperty(values, key, options.treatNullAsUndefined)) {
+      processBranch(schema, values, dependentSchema, options, jsonLogicContext)
+      // Delete the dependent schema to avoid processing it again when validating the schema
+      delete schema.dependentSchemas![key]
+    }
+  }
+
   if (schema.properties) {
     for (const [key, property] of Object.entries(schema.properties)) {
       if (typeof property === 'object') {
@@ -161,7 +180,7 @@ function applySchemaRules(
  * @param options - Validation options
  * @param jsonLogicContext - JSON Logic context
  */
-function processBranch(schema: JsfObjectSchema, values: SchemaValue, branch: JsfSchema, options: LegacyOptions = {}, jsonLogicContext: JsonLogicContext | undefined) {
+function processBranch(schema: JsfObjectSchema, values: SchemaValue, branch: JsfSchema, options: ValidationOptions = {}, jsonLogicContext: JsonLogicContext | undefined) {
   const branchSchema = branch as JsfObjectSchema
 
   applySchemaRules(branchSchema, values, options, jsonLogicContext)
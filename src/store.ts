@@ -0,0 +1,307 @@
+import type { FieldPath } from './form'
+import type { JsfObjectSchema, JsfSchema, ObjectValue, SchemaValue } from './types'
+import { deepEqual, isObjectValue, toJsonPointer } from './validation/util'
+
+/**
+ * Event emitted when the values of a form change
+ */
+export interface FormChangeEvent {
+  /**
+   * The form values after the change
+   */
+  values: ObjectValue
+  /**
+   * The fields affected by the change, as JSON pointers (e.g. `'/address/street'`):
+   * the field whose value changed, and the fields whose schema changed because of it (e.g. visibility or required state)
+   */
+  paths: string[]
+}
+
+/**
+ * Listener of the changes of a form
+ */
+export type FormListener = (event: FormChangeEvent) => void
+
+/**
+ * State of a field
+ */
+export interface FieldState {
+  /**
+   * Whether the field (or one of its nested fields) was touched, e.g. blurred
+   */
+  touched: boolean
+  /**
+   * Whether the value of the field differs from its initial value
+   */
+  dirty: boolean
+}
+
+/**
+ * State of a form
+ */
+export interface FormState {
+  /**
+   * Whether the form values differ from the initial values
+   */
+  isDirty: boolean
+  /**
+   * Whether a submission is in progress
+   */
+  isSubmitting: boolean
+  /**
+   * Number of submissions since the form was created (or reset)
+   */
+  submitCount: number
+}
+
+/**
+ * Store of the values of a form, keeping its fields in sync with them
+ */
+export interface FormStore {
+  /**
+   * Get the current form values
+   */
+  getValues: () => ObjectValue
+  /**
+   * Set the value of a field, updating the fields (visibility, required state, etc.) for the new values.
+   * An `undefined` value removes the field value.
+   */
+  setValue: (path: FieldPath, value: SchemaValue) => void
+  /**
+   * Listen to the changes of the form values
+   * @returns A function to stop listening
+   */
+  subscribe: (listener: FormListener) => () => void
+  /**
+   * Mark a field as touched (or untouched)
+   */
+  setTouched: (path: FieldPath, touched?: boolean) => void
+  /**
+   * Get the touched and dirty state of a field
+   */
+  getFieldState: (path: FieldPath) => FieldState
+  /**
+   * Get the dirty and submission state of the form
+   */
+  getFormState: () => FormState
+  /**
+   * Submit the form values, counting the submission and tracking it as in progress until `onSubmit` settles
+   * @returns The result of `onSubmit`
+   */
+  submit: <T>(onSubmit: (values: ObjectValue) => T | Promise<T>) => Promise<T>
+  /**
+   * Reset the values to the initial values, or to new initial values, clearing the touched fields and the submit count
+   */
+  reset: (initialValues?: ObjectValue) => void
+}
+
+/**
+ * Create the store of a form
+ * @param params - The parameters for the store
+ * @param params.initialValues - The initial form values
+ * @param params.schema - The final schema of the initial values (the one used to build the fields)
+ * @param params.updateFields - Update the fields for some values, returning the final schema
+ * @returns The form store
+ */
+export function createFormStore({
+  initialValues,
+  schema,
+  updateFields,
+}: {
+  initialValues: ObjectValue
+  schema: JsfObjectSchema
+  updateFields: (values: ObjectValue) => JsfObjectSchema
+}): FormStore {
+  let initial = initialValues
+  let values = initialValues
+  let finalSchema = schema
+  // Touched fields, as JSON pointers
+  let touchedFields = new Set<string>()
+  let submitCount = 0
+  let pendingSubmits = 0
+  const listeners = new Set<FormListener>()
+
+  const notify = (paths: string[]) => {
+    const event = { values, paths: [...new Set(paths)] }
+    listeners.forEach(listener => listener(event))
+  }
+
+  const updateValues = (nextValues: ObjectValue, changedPaths: string[]) => {
+    values = nextValues
+    const previousSchema = finalSchema
+    finalSchema = updateFields(values)
+    notify([...changedPaths, ...getChangedPaths(previousSchema, finalSchema)])
+  }
+
+  const setValue = (path: FieldPath, value: SchemaValue) => {
+    const segments = toPathSegments(path)
+    if (deepEqual(getIn(values, segments), value)) {
+      return
+    }
+
+    updateValues(setIn(values, segments, value) as ObjectValue, [toJsonPointer(segments)])
+  }
+
+  const setTouched = (path: FieldPath, touched = true) => {
+    const pointer = toJsonPointer(toPathSegments(path))
+    if (touchedFields.has(pointer) === touched) {
+      return
+    }
+
+    if (touched) {
+      touchedFields.add(pointer)
+    }
+    else {
+      touchedFields.delete(pointer)
+    }
+    notify([pointer])
+  }
+
+  const getFieldState = (path: FieldPath): FieldState => {
+    const segments = toPathSegments(path)
+    const pointer = toJsonPointer(segments)
+
+    return {
+      touched: [...touchedFields].some(touchedPointer => touchedPointer === pointer || touchedPointer.startsWith(`${pointer}/`)),
+      dirty: !deepEqual(getIn(values, segments), getIn(initial, segments)),
+    }
+  }
+
+  const submit = async <T>(onSubmit: (values: ObjectValue) => T | Promise<T>): Promise<T> => {
+    submitCount++
+    pendingSubmits++
+    notify([])
+
+    try {
+      return await onSubmit(values)
+    }
+    finally {
+      pendingSubmits--
+      notify([])
+    }
+  }
+
+  const reset = (initialValues: ObjectValue = initial) => {
+    const changedPaths = [...touchedFields, ...getChangedValuePaths(values, initialValues)]
+    initial = initialValues
+    touchedFields = new Set()
+    submitCount = 0
+    updateValues(initialValues, changedPaths)
+  }
+
+  const subscribe = (listener: FormListener) => {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  return {
+    getValues: () => values,
+    setValue,
+    subscribe,
+    setTouched,
+    getFieldState,
+    getFormState: () => ({
+      isDirty: !deepEqual(values, initial),
+      isSubmitting: pendingSubmits > 0,
+      submitCount,
+    }),
+    submit,
+    reset,
+  }
+}
+
+/**
+ * Get the segments of a field path, with dots for nested fields in string paths (e.g. `'address.street'`)
+ */
+function toPathSegments(path: FieldPath): Array<string | number> {
+  return typeof path === 'string' ? path.split('.') : path
+}
+
+/**
+ * Get the value at a path
+ */
+function getIn(value: SchemaValue, segments: Array<string | number>): SchemaValue {
+  return segments.reduce<SchemaValue>((current, segment) => {
+    if (Array.isArray(current)) {
+      return current[Number(segment)]
+    }
+    return isObjectValue(current) ? current[segment] : undefined
+  }, value)
+}
+
+/**
+ * Set the value at a path, copying the objects and arrays along the path instead of mutating them.
+ * Missing containers are created as arrays for numeric segments and as objects otherwise.
+ */
+function setIn(container: SchemaValue, segments: Array<string | number>, value: SchemaValue): SchemaValue {
+  if (segments.length === 0) {
+    return value
+  }
+
+  const [segment, ...rest] = segments
+
+  if (Array.isArray(container) || (container === undefined && typeof segment === 'number')) {
+    const items = [...(container as SchemaValue[] | undefined) ?? []]
+    items[Number(segment)] = setIn(items[Number(segment)], rest, value)
+    return items
+  }
+
+  const object: ObjectValue = { ...(isObjectValue(container) ? container : {}) }
+  const nextValue = setIn(object[segment], rest, value)
+  if (nextValue === undefined) {
+    delete object[segment]
+  }
+  else {
+    object[segment] = nextValue
+  }
+
+  return object
+}
+
+/**
+ * Get the fields whose schema (or required state) changed between two final schemas, as JSON pointers
+ */
+function getChangedPaths(previousSchema: JsfSchema, schema: JsfSchema, path: string[] = []): string[] {
+  const previousProperties = (typeof previousSchema === 'object' && previousSchema.properties) || {}
+  const properties = (typeof schema === 'object' && schema.properties) || {}
+  const previousRequired = (typeof previousSchema === 'object' && previousSchema.required) || []
+  const required = (typeof schema === 'object' && schema.required) || []
+  const keys = new Set([...Object.keys(previousProperties), ...Object.keys(properties)])
+
+  return [...keys].flatMap((key) => {
+    const previousProperty = previousProperties[key]
+    const property = properties[key]
+
+    if (
+      deepEqual(previousProperty as SchemaValue, property as SchemaValue)
+      && previousRequired.includes(key) === required.includes(key)
+    ) {
+      return []
+    }
+
+    return [toJsonPointer([...path, key]), ...getChangedPaths(previousProperty, property, [...path, key])]
+  })
+}
+
+/**
+ * Get the values that changed between two values, as JSON pointers (including their parents, but not the root)
+ */
+function getChangedValuePaths(previousValue: SchemaValue, value: SchemaValue, path: Array<string | number> = []): string[] {
+  if (deepEqual(previousValue, value)) {
+    return []
+  }
+
+  const isContainer = (value: SchemaValue) => isObjectValue(value) || Array.isArray(value)
+  if (!isContainer(previousValue) || !isContainer(value)) {
+    return [toJsonPointer(path)]
+  }
+
+  const keys = new Set([...Object.keys(previousValue as ObjectValue), ...Object.keys(value as ObjectValue)])
+  return [...(path.length > 0 ? [toJsonPointer(path)] : []), ...[...keys].flatMap(key => getChangedValuePaths(
+    getIn(previousValue, [key]),
+    getIn(value, [key]),
+    [...path, key],
+  ))]
+}
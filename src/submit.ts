@@ -0,0 +1,88 @@
+import type { JsfObjectSchema, JsfSchema, ObjectValue, SchemaValue } from './types'
+import type { ValidationOptions } from './validation/schema'
+import { calculateFinalSchema } from './mutations'
+import { isObjectValue, safeDeepClone } from './validation/util'
+
+/**
+ * What to do with the values of hidden fields (the ones with a `false` schema after applying the conditional rules)
+ * - `remove`: remove the values
+ * - `default`: reset the values to the `default` of the field (removing them if it has none)
+ * - `keep`: keep the values as they are
+ */
+export type HiddenValuesPolicy = 'remove' | 'default' | 'keep'
+
+/**
+ * Apply a policy to the values of the hidden fields, recursively through nested objects and array items
+ * @param params - The parameters for the function
+ * @param params.values - The form values
+ * @param params.schema - The original schema
+ * @param params.finalSchema - The final schema for the values
+ * @param params.policy - What to do with the values of the hidden fields
+ * @param params.options - Validation options, used to calculate the final schema of the array items
+ * @returns New values with the policy applied (the values aren't mutated)
+ */
+export function applyHiddenValuesPolicy({
+  values,
+  schema,
+  finalSchema,
+  policy,
+  options = {},
+}: {
+  values: ObjectValue
+  schema: JsfSchema
+  finalSchema: JsfSchema
+  policy: HiddenValuesPolicy
+  options?: ValidationOptions
+}): ObjectValue {
+  if (policy === 'keep') {
+    return values
+  }
+
+  return applyPolicy(values, schema, finalSchema, policy, options) as ObjectValue
+}
+
+function applyPolicy(value: SchemaValue, schema: JsfSchema, finalSchema: JsfSchema, policy: HiddenValuesPolicy, options: ValidationOptions): SchemaValue {
+  if (typeof schema !== 'object' || typeof finalSchema !== 'object') {
+    return value
+  }
+
+  if (Array.isArray(value)) {
+    const items = schema.items
+    if (typeof items !== 'object' || !items.properties) {
+      return value
+    }
+
+    // The conditional rules of the items depend on the values of each item, so each one has its own final schema
+    return value.map((item) => {
+      const itemSchema = calculateFinalSchema({ schema: items as JsfObjectSchema, values: item, options })
+      return applyPolicy(item, items, itemSchema, policy, options)
+    })
+  }
+
+  if (!isObjectValue(value)) {
+    return value
+  }
+
+  const result: ObjectValue = { ...value }
+
+  for (const [key, property] of Object.entries(finalSchema.properties ?? {})) {
+    if (!Object.hasOwn(result, key)) {
+      continue
+    }
+
+    // Properties only declared in a conditional branch are missing from the original schema
+    const originalProperty = schema.properties?.[key] ?? property
+
+    if (property !== false) {
+      result[key] = applyPolicy(result[key], originalProperty, property, policy, options)
+    }
+    else if (policy === 'default' && typeof originalProperty === 'object' && originalProperty.default !== undefined) {
+      result[key] = safeDeepClone(originalProperty.default as SchemaValue)
+    }
+    else {
+      delete result[key]
+    }
+  }
+
+  return result
+}
@@ -1,5 +1,6 @@
-import type { RulesLogic } from 'json-logic-js'
+import type { AdditionalOperation, RulesLogic } from 'json-logic-js'
 import type { JSONSchema } from 'json-schema-typed/draft-2020-12'
+import type { ValidationSeverity } from './errors'
 import type { FieldType } from './field/type'
 /**
  * Defines the type of a `Field` in the form.
@@ -141,6 +142,30 @@ export interface AsyncOptionsConfig {
   debounceMs?: number
 }
 
+/**
+ * Context provided to async validators
+ */
+export interface AsyncValidatorContext {
+  /** Value of the field being validated */
+  value: SchemaValue
+  /** Schema of the field being validated */
+  schema: NonBooleanJsfSchema
+  /** Current form values (useful for validations depending on other fields) */
+  formValues: ObjectValue
+  /** Signal for aborting the request */
+  signal?: AbortSignal
+}
+
+/**
+ * Async validator function signature
+ * @param context - Context with the field value and schema, and the form values
+ * @returns Promise resolving to the error message (or `false`, to use the default message) when the value is invalid,
+ * or to nothing (or `true`) when it's valid
+ */
+export type AsyncValidator = (
+  context: AsyncValidatorContext
+) => Promise<string | boolean | null | undefined>
+
 export type JsfPresentation = {
   inputType?: FieldType
   description?: string
@@ -154,6 +179,17 @@ export type JsfPresentation = {
   [key: string]: unknown
 }
 
+/**
+ * Custom error message of a validation (`x-jsf-errorMessage`): the message, or the message and its severity
+ * @example
+ * 'Must be 18 or older'
+ * { message: 'Salary is unusually high', severity: 'warning' }
+ */
+export type JsfErrorMessage = string | {
+  message: string
+  severity?: ValidationSeverity
+}
+
 export interface JsonLogicContext {
   schema: JsonLogicRules
   value: SchemaValue
@@ -163,10 +199,15 @@ export interface JsonLogicContext {
 export interface JsonLogicRules {
   validations?: Record<string, {
     errorMessage?: string
-    rule: RulesLogic
+    rule: RulesLogic<AdditionalOperation>
+    /**
+     * The severity of the validation. Warnings don't make the value invalid.
+     * @default 'error'
+     */
+    severity?: ValidationSeverity
   }>
   computedValues?: Record<string, {
-    rule: RulesLogic
+    rule: RulesLogic<AdditionalOperation>
   }>
 }
 export interface JsonLogicRootSchema extends Pick<NonBooleanJsfSchema, 'if' | 'then' | 'else' | 'allOf' | 'anyOf' | 'oneOf' | 'not'> {}
@@ -187,6 +228,8 @@ export type JsfSchema = JSONSchema & {
   'if'?: JsfSchema
   'then'?: JsfSchema
   'else'?: JsfSchema
+  '$defs'?: Record<string, JsfSchema>
+  'dependentSchemas'?: Record<string, JsfSchema>
   // while value is not part of the spec, we're keeping it for v0 backwards compatibility
   'value'?: SchemaValue
   // Note: if we don't have this property here, when inspecting any recursive
@@ -199,16 +242,25 @@ export type JsfSchema = JSONSchema & {
   'x-jsf-presentation'?: JsfPresentation
   /** Defines the layout configuration for the form or field. */
   'x-jsf-layout'?: JsfLayoutConfig
-  /** Defines the error message of the field in the form. */
-  'x-jsf-errorMessage'?: Record<string, string>
+  /** Defines the error message of the field in the form, by validation type. */
+  'x-jsf-errorMessage'?: Record<string, JsfErrorMessage>
   /** Defines all JSON Logic rules for the schema (both validations and computed values). */
   'x-jsf-logic'?: JsonLogicSchema
   /** Extra validations to run. References validations declared in the `x-jsf-logic` root property. */
   'x-jsf-logic-validations'?: string[]
+  /** Async validations to run after the sync ones. References the async validators given to the form (`asyncValidators`). */
+  'x-jsf-asyncValidations'?: string[]
   /** Extra attributes to add to the schema. References computedValues in the `x-jsf-logic` root property. */
   'x-jsf-logic-computedAttrs'?: Record<string, string | object>
 }
 
+/**
+ * Registry of external schemas, used to resolve references (`$ref`) to other documents
+ * (e.g. `https://example.com/address.json#/properties/street`).
+ * Either a map of absolute URIs to schemas, or a function returning the schema for a given URI.
+ */
+export type SchemaRegistry = Record<string, JsfSchema> | Map<string, JsfSchema> | ((uri: string) => JsfSchema | undefined)
+
 /**
  * JSON Schema Form type without booleans.
  * This type is used for convenience in places where a boolean is not allowed.
@@ -1,4 +1,5 @@
 import type { Field } from './field/type'
+import { isSafeKey } from './hardening'
 
 type DiskSizeUnit = 'Bytes' | 'KB' | 'MB'
 
@@ -78,8 +79,8 @@ export function deepMergeSchemas<T extends Record<string, any>>(schema1: T, sche
 
   // Merge all properties from schema2 into schema1
   for (const [key, schema2Value] of Object.entries(schema2)) {
-    // let's skip merging some properties
-    if (KEYS_TO_SKIP.includes(key)) {
+    // let's skip merging some properties, and the keys that would change the prototype of the schema
+    if (KEYS_TO_SKIP.includes(key) || !isSafeKey(key)) {
       continue
     }
 
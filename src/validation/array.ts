@@ -1,7 +1,7 @@
 import type { ValidationError, ValidationErrorPath } from '../errors'
 import type { JsfSchema, JsonLogicContext, NonBooleanJsfSchema, SchemaValue } from '../types'
-import { type LegacyOptions, validateSchema } from './schema'
-import { deepEqual } from './util'
+import { validateSchema, type ValidationOptions } from './schema'
+import { deepEqual, hasBlockingErrors } from './util'
 
 /**
  * Validate an array against a schema
@@ -18,7 +18,7 @@ import { deepEqual } from './util'
 export function validateArray(
   value: SchemaValue,
   schema: JsfSchema,
-  options: LegacyOptions,
+  options: ValidationOptions,
   jsonLogicContext: JsonLogicContext | undefined,
   path: ValidationErrorPath,
 ): ValidationError[] {
@@ -82,7 +82,7 @@ function validateLength(
 function validateItems(
   schema: NonBooleanJsfSchema,
   values: SchemaValue[],
-  options: LegacyOptions,
+  options: ValidationOptions,
   jsonLogicContext: JsonLogicContext | undefined,
   path: ValidationErrorPath,
 ): ValidationError[] {
@@ -123,7 +123,7 @@ function validateItems(
 function validatePrefixItems(
   schema: NonBooleanJsfSchema,
   values: SchemaValue[],
-  options: LegacyOptions,
+  options: ValidationOptions,
   jsonLogicContext: JsonLogicContext | undefined,
   path: ValidationErrorPath,
 ): ValidationError[] {
@@ -164,7 +164,7 @@ function validatePrefixItems(
 function validateContains(
   value: SchemaValue[],
   schema: NonBooleanJsfSchema,
-  options: LegacyOptions,
+  options: ValidationOptions,
   jsonLogicContext: JsonLogicContext | undefined,
   path: ValidationErrorPath,
 ): ValidationError[] {
@@ -177,13 +177,13 @@ function validateContains(
   // How many items in the array are valid against the contains schema?
   const contains = value.filter(
     item =>
-      validateSchema(
+      !hasBlockingErrors(validateSchema(
         item,
         schema.contains as JsfSchema,
         options,
         [...path, 'contains'],
         jsonLogicContext,
-      ).length === 0,
+      )),
   ).length
 
   if (schema.minContains === undefined && schema.maxContains === undefined) {
@@ -0,0 +1,114 @@
+import type { ValidationError, ValidationErrorPath } from '../errors'
+import type { AsyncValidator, JsfSchema, NonBooleanJsfSchema, ObjectValue, SchemaValue } from '../types'
+import type { ValidationOptions } from './schema'
+import { isMissingValue, isObjectValue } from './util'
+
+/**
+ * Async validation of a value, referenced by the `x-jsf-asyncValidations` keyword of its schema
+ */
+export interface AsyncValidation {
+  /**
+   * The id of the async validator
+   */
+  id: string
+  /**
+   * The path to the value
+   */
+  path: ValidationErrorPath
+  /**
+   * The schema with the `x-jsf-asyncValidations` keyword
+   */
+  schema: NonBooleanJsfSchema
+  /**
+   * The value to validate
+   */
+  value: SchemaValue
+}
+
+/**
+ * Get the async validations to run for a value
+ * @param schema - The (final) schema of the value
+ * @param value - The value
+ * @param options - The validation options
+ * @param path - The path to the value
+ * @returns The async validations of the value and of its properties and items, skipping missing values
+ */
+export function getAsyncValidations(
+  schema: JsfSchema,
+  value: SchemaValue,
+  options: ValidationOptions = {},
+  path: ValidationErrorPath = [],
+): AsyncValidation[] {
+  if (typeof schema !== 'object' || isMissingValue(value, options.treatNullAsUndefined)) {
+    return []
+  }
+
+  const validations = (schema['x-jsf-asyncValidations'] ?? []).map(id => ({ id, path, schema, value }))
+
+  if (isObjectValue(value)) {
+    for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+      validations.push(...getAsyncValidations(propertySchema, value[key], options, [...path, key]))
+    }
+  }
+
+  if (Array.isArray(value) && schema.items !== undefined) {
+    value.forEach((item, index) => {
+      validations.push(...getAsyncValidations(schema.items as JsfSchema, item, options, [...path, 'items', index]))
+    })
+  }
+
+  return validations
+}
+
+/**
+ * Run an async validation
+ * @param validation - The async validation
+ * @param validators - The async validators, by id
+ * @param formValues - The form values
+ * @param signal - Signal for aborting the validation
+ * @returns Promise resolving to the validation error, if the value is invalid.
+ * It's rejected with the reason of the signal as soon as the signal is aborted.
+ */
+export function runAsyncValidation(
+  validation: AsyncValidation,
+  validators: Record<string, AsyncValidator>,
+  formValues: ObjectValue,
+  signal?: AbortSignal,
+): Promise<ValidationError | undefined> {
+  const { id, path, schema, value } = validation
+  const validator = validators[id]
+
+  if (!validator) {
+    return Promise.reject(new Error(`[json-schema-form] Async validation "${id}" doesn't exist.`))
+  }
+
+  const result = Promise.resolve()
+    .then(() => validator({ value, schema, formValues, signal }))
+    .then((outcome): ValidationError | undefined => {
+      if (outcome === false || typeof outcome === 'string') {
+        return { path, validation: id, schema, value, customErrorMessage: outcome || undefined }
+      }
+      return undefined
+    })
+
+  return signal ? abortable(result, signal) : result
+}
+
+/**
+ * Reject a promise as soon as a signal is aborted
+ */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+
+    if (signal.aborted) {
+      onAbort()
+      return
+    }
+
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
@@ -0,0 +1,749 @@
+import type { ValidationError, ValidationErrorPath } from '../errors'
+import type { JsfObjectSchema, JsfSchema, JsfSchemaType, JsonLogicContext, JsonLogicSchema, NonBooleanJsfSchema, SchemaValue } from '../types'
+import type { RefResolver } from './ref'
+import type { ValidationOptions } from './schema'
+import { calculateFinalSchema } from '../mutations'
+import { validateConst } from './const'
+import { validateDate } from './custom/date'
+import { validateCustomKeywords } from './custom/keywords'
+import { validateDependentRequired } from './dependent'
+import { validateEnum } from './enum'
+import { validateFile } from './file'
+import { validateFormat } from './format'
+import { getJsonLogicContextFromSchema, validateJsonLogicRules } from './json-logic'
+import { validateNumber } from './number'
+import { createRefResolver, getBaseUri, resolveRef } from './ref'
+import { validateSchema } from './schema'
+import { validateUnevaluatedItems, validateUnevaluatedProperties } from './unevaluated'
+import { deepEqual, hasBlockingErrors, hasProperty, isMissingValue, isObjectValue } from './util'
+
+/**
+ * Validate a value the same way as `validateSchema` does
+ * @param value - The value to validate
+ * @param path - The path of the value
+ * @returns An array of validation errors
+ */
+export type CompiledValidator = (value: SchemaValue, path?: ValidationErrorPath) => ValidationError[]
+
+/**
+ * Compiled version of a (sub)schema
+ */
+type SchemaValidator = (
+  value: SchemaValue,
+  options: ValidationOptions,
+  path: ValidationErrorPath,
+  jsonLogicContext: JsonLogicContext | undefined,
+) => ValidationError[]
+
+interface CompileContext {
+  resolver: RefResolver
+  validators: Map<JsfSchema, SchemaValidator>
+}
+
+const NUMBER_KEYWORDS = ['multipleOf', 'maximum', 'exclusiveMaximum', 'minimum', 'exclusiveMinimum'] as const
+const STRING_KEYWORDS = ['minLength', 'maxLength', 'pattern', 'format'] as const
+const ARRAY_KEYWORDS = ['maxItems', 'minItems', 'uniqueItems', 'contains', 'prefixItems', 'items'] as const
+const OBJECT_KEYWORDS = ['properties', 'patternProperties', 'additionalProperties', 'propertyNames', 'minProperties', 'maxProperties'] as const
+
+const segmenter = new Intl.Segmenter()
+
+/**
+ * Get the validator of a subschema, compiling it the first time it's used.
+ * Compiling lazily means circular references ($ref) and unused branches are never compiled.
+ */
+function getValidator(schema: JsfSchema, context: CompileContext): SchemaValidator {
+  let validator: SchemaValidator | undefined
+
+  return (value, options, path, jsonLogicContext) => {
+    if (!validator) {
+      validator = context.validators.get(schema)
+      if (!validator) {
+        validator = typeof schema === 'boolean' ? compileBooleanSchema(schema) : compileObjectSchema(schema, context)
+        context.validators.set(schema, validator)
+      }
+    }
+
+    return validator(value, options, path, jsonLogicContext)
+  }
+}
+
+function compileBooleanSchema(schema: boolean): SchemaValidator {
+  return (value, options, path) => {
+    if (value === undefined || (value === null && options.treatNullAsUndefined)) {
+      return []
+    }
+
+    // A false schema doesn't allow any value, unless forbidden values are explicitly allowed
+    return !schema && !options.allowForbiddenValues ? [{ path, validation: 'forbidden', schema, value }] : []
+  }
+}
+
+/**
+ * Compile the `type` keyword into a predicate
+ * @returns The predicate, or undefined if there's no type constraint
+ */
+function compileType(type: JsfSchemaType | JsfSchemaType[] | undefined): ((value: SchemaValue) => boolean) | undefined {
+  if (type === undefined) {
+    return undefined
+  }
+
+  const types = Array.isArray(type) ? type : [type]
+
+  return (value) => {
+    const valueType = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value
+    return types.some(type => valueType === type || (type === 'integer' && valueType === 'number' && Number.isInteger(value)))
+  }
+}
+
+function compileObjectKeywords(schema: NonBooleanJsfSchema, context: CompileContext): SchemaValidator | undefined {
+  if (OBJECT_KEYWORDS.every(keyword => schema[keyword] === undefined)) {
+    return undefined
+  }
+
+  const { minProperties, maxProperties } = schema
+  const properties = Object.entries(schema.properties ?? {}).map(([key, property]) => [key, getValidator(property, context)] as const)
+  const validatePropertyName = schema.propertyNames !== undefined ? getValidator(schema.propertyNames as JsfSchema, context) : undefined
+  const patterns = Object.entries(schema.patternProperties ?? {}).map(([pattern, patternSchema]) => ({
+    regex: new RegExp(pattern),
+    validate: getValidator(patternSchema as JsfSchema, context),
+  }))
+  // `additionalProperties: false` is validated with the required properties
+  const validateAdditionalProperty = typeof schema.additionalProperties === 'object'
+    ? getValidator(schema.additionalProperties as JsfSchema, context)
+    : undefined
+
+  return (value, options, path, jsonLogicContext) => {
+    if (!isObjectValue(value)) {
+      return []
+    }
+
+    const errors: ValidationError[] = []
+
+    if (minProperties !== undefined || maxProperties !== undefined) {
+      // Properties with an undefined value are not counted, as they are not filled
+      const count = Object.keys(value).filter(key => value[key] !== undefined).length
+
+      if (minProperties !== undefined && count < minProperties) {
+        errors.push({ path, validation: 'minProperties', schema, value })
+      }
+
+      if (maxProperties !== undefined && count > maxProperties) {
+        errors.push({ path, validation: 'maxProperties', schema, value })
+      }
+    }
+
+    if (validatePropertyName) {
+      // A `false` schema must not allow any property, so we ignore the allowForbiddenValues option
+      const nameOptions = { ...options, allowForbiddenValues: false }
+
+      for (const key of Object.keys(value)) {
+        if (hasBlockingErrors(validatePropertyName(key, nameOptions, [...path, key], jsonLogicContext))) {
+          errors.push({ path: [...path, key], validation: 'propertyNames', schema, value: key })
+        }
+      }
+    }
+
+    for (const [key, validateProperty] of properties) {
+      errors.push(...validateProperty(value[key], options, [...path, key], jsonLogicContext))
+    }
+
+    if (patterns.length > 0 || validateAdditionalProperty) {
+      for (const key of Object.keys(value)) {
+        const matchingPatterns = patterns.filter(({ regex }) => regex.test(key))
+
+        for (const { validate } of matchingPatterns) {
+          errors.push(...validate(value[key], options, [...path, key], jsonLogicContext))
+        }
+
+        if (validateAdditionalProperty && matchingPatterns.length === 0 && !Object.hasOwn(schema.properties ?? {}, key)) {
+          errors.push(...validateAdditionalProperty(value[key], options, [...path, key], jsonLogicContext))
+        }
+      }
+    }
+
+    return errors
+  }
+}
+
+function compileArrayKeywords(schema: NonBooleanJsfSchema, context: CompileContext): SchemaValidator | undefined {
+  if (ARRAY_KEYWORDS.every(keyword => schema[keyword] === undefined) && !('contains' in schema)) {
+    return undefined
+  }
+
+  const { maxItems, minItems, minContains, maxContains } = schema
+  const hasContains = 'contains' in schema
+  const validateContains = hasContains ? getValidator(schema.contains as JsfSchema, context) : undefined
+  const prefixItems = Array.isArray(schema.prefixItems) ? schema.prefixItems.map(item => getValidator(item as JsfSchema, context)) : undefined
+  const validateItem = schema.items !== undefined ? getValidator(schema.items, context) : undefined
+  const startIndex = prefixItems?.length ?? 0
+
+  return (value, options, path, jsonLogicContext) => {
+    if (!Array.isArray(value)) {
+      return []
+    }
+
+    const errors: ValidationError[] = []
+
+    if (maxItems !== undefined && value.length > maxItems) {
+      errors.push({ path, validation: 'maxItems', schema, value })
+    }
+
+    if (minItems !== undefined && value.length < minItems) {
+      errors.push({ path, validation: 'minItems', schema, value })
+    }
+
+    if (schema.uniqueItems === true) {
+      const duplicate = value.findIndex((item, i) => value.slice(0, i).some(previous => deepEqual(item, previous)))
+      if (duplicate !== -1) {
+        errors.push({ path, validation: 'uniqueItems', schema, value: value[duplicate] })
+      }
+    }
+
+    if (validateContains) {
+      const contains = value.filter(item => !hasBlockingErrors(validateContains(item, options, [...path, 'contains'], jsonLogicContext))).length
+
+      if (minContains === undefined && maxContains === undefined) {
+        if (contains < 1) {
+          errors.push({ path, validation: 'contains', schema, value })
+        }
+      }
+      else {
+        if (minContains !== undefined && contains < minContains) {
+          errors.push({ path, validation: 'minContains', schema, value })
+        }
+
+        if (maxContains !== undefined && contains > maxContains) {
+          errors.push({ path, validation: 'maxContains', schema, value })
+        }
+      }
+    }
+
+    if (prefixItems) {
+      for (const [i, item] of value.slice(0, startIndex).entries()) {
+        errors.push(...prefixItems[i](item, options, [...path, 'prefixItems', i], jsonLogicContext))
+      }
+    }
+
+    if (validateItem) {
+      for (let i = startIndex; i < value.length; i++) {
+        errors.push(...validateItem(value[i], options, [...path, 'items', i], jsonLogicContext))
+      }
+    }
+
+    return errors
+  }
+}
+
+function compileStringKeywords(schema: NonBooleanJsfSchema): SchemaValidator | undefined {
+  const appliesToStrings = schema.type === undefined || schema.type === 'string'
+  if (!appliesToStrings || STRING_KEYWORDS.every(keyword => schema[keyword] === undefined)) {
+    return undefined
+  }
+
+  const { minLength, maxLength } = schema
+  // The pattern is compiled when first used, so invalid patterns only throw when validating strings (as in `validateString`)
+  let pattern: RegExp | undefined
+
+  return (value, options, path) => {
+    if (typeof value !== 'string') {
+      return []
+    }
+
+    const errors: ValidationError[] = []
+
+    if (minLength !== undefined || maxLength !== undefined) {
+      const valueLength = [...segmenter.segment(value)].length
+
+      if (minLength !== undefined && valueLength < minLength) {
+        errors.push({ path, validation: 'minLength', schema, value })
+      }
+
+      if (maxLength !== undefined && valueLength > maxLength) {
+        errors.push({ path, validation: 'maxLength', schema, value })
+      }
+    }
+
+    if (schema.pattern !== undefined) {
+      pattern ??= new RegExp(schema.pattern)
+      if (!pattern.test(value)) {
+        errors.push({ path, validation: 'pattern', schema, value })
+      }
+    }
+
+    if (schema.format !== undefined) {
+      errors.push(...validateFormat(value, schema, options, path))
+    }
+
+    return errors
+  }
+}
+
+function compileRef(schema: NonBooleanJsfSchema, context: CompileContext): SchemaValidator | undefined {
+  if (typeof schema.$ref !== 'string') {
+    return undefined
+  }
+
+  const { resolver } = context
+  let referenced: { schema: JsfSchema, validate: SchemaValidator } | undefined
+
+  return (value, options, path, jsonLogicContext) => {
+    if (!referenced) {
+      const { schema: referencedSchema } = resolveRef(schema.$ref!, getBaseUri(schema, resolver), resolver)
+      referenced = { schema: referencedSchema, validate: getValidator(referencedSchema, context) }
+    }
+
+    const { schema: referencedSchema, validate } = referenced
+    if (typeof referencedSchema === 'boolean') {
+      return validate(value, options, [...path, '$ref'], jsonLogicContext)
+    }
+
+    // Skip circular references, the outer evaluation already applies their constraints (see `validateRef`)
+    const activeValues = resolver.activeRefs.get(referencedSchema) ?? []
+    if (activeValues.includes(value)) {
+      return []
+    }
+
+    resolver.activeRefs.set(referencedSchema, [...activeValues, value])
+    try {
+      return validate(value, options, [...path, '$ref'], jsonLogicContext)
+    }
+    finally {
+      resolver.activeRefs.set(referencedSchema, activeValues)
+    }
+  }
+}
+
+function compileComposition(schema: NonBooleanJsfSchema, context: CompileContext): SchemaValidator[] {
+  const validators: SchemaValidator[] = []
+
+  if (schema.not !== undefined) {
+    const not = schema.not
+    const validateNot = getValidator(not, context)
+    validators.push((value, options, path, jsonLogicContext) => {
+      if (typeof not === 'boolean') {
+        return not ? [{ path, validation: 'not', schema, value }] : []
+      }
+      return !hasBlockingErrors(validateNot(value, options, path, jsonLogicContext)) ? [{ path, validation: 'not', schema, value }] : []
+    })
+  }
+
+  if (schema.allOf) {
+    const allOf = schema.allOf.map(subschema => getValidator(subschema, context))
+    validators.push((value, options, path, jsonLogicContext) => {
+      const warnings: ValidationError[] = []
+      for (const [i, validate] of allOf.entries()) {
+        const errors = validate(value, options, [...path, 'allOf', i], jsonLogicContext)
+        if (hasBlockingErrors(errors)) {
+          return errors
+        }
+        warnings.push(...errors)
+      }
+      return warnings
+    })
+  }
+
+  if (schema.anyOf) {
+    const anyOf = schema.anyOf.map(subschema => getValidator(subschema, context))
+    validators.push((value, options, path, jsonLogicContext) => {
+      // Nested schemas (properties) get a generic error, while the errors of the root schema are flattened (see `validateAnyOf`)
+      if (path.length !== 0) {
+        return anyOf.some(validate => !hasBlockingErrors(validate(value, options, path, jsonLogicContext)))
+          ? []
+          : [{ path, validation: 'anyOf', schema, value }]
+      }
+
+      const errorGroups = anyOf.map(validate => validate(value, options, path, jsonLogicContext)).filter(hasBlockingErrors)
+      return errorGroups.length < anyOf.length ? [] : errorGroups.flat().reverse()
+    })
+  }
+
+  if (schema.oneOf && schema.oneOf.length > 0) {
+    const oneOf = schema.oneOf.map(subschema => getValidator(subschema, context))
+    validators.push((value, options, path, jsonLogicContext) => {
+      let validCount = 0
+      for (const validate of oneOf) {
+        if (!hasBlockingErrors(validate(value, options, path, jsonLogicContext)) && ++validCount > 1) {
+          break
+        }
+      }
+      return validCount === 1 ? [] : [{ path, validation: 'oneOf', schema, value }]
+    })
+  }
+
+  if (schema.if !== undefined) {
+    const validateIf = getValidator(schema.if, context)
+    const validateThen = schema.then !== undefined ? getValidator(schema.then, context) : undefined
+    const validateElse = schema.else !== undefined ? getValidator(schema.else, context) : undefined
+    const isBooleanCondition = typeof schema.if === 'boolean'
+
+    validators.push((value, options, path, jsonLogicContext) => {
+      // When evaluating a boolean condition, we ignore the allowForbiddenValues option (see `evaluateIfCondition`)
+      const conditionOptions = isBooleanCondition ? { ...options, allowForbiddenValues: false } : options
+      const conditionIsTrue = !hasBlockingErrors(validateIf(value, conditionOptions, path, jsonLogicContext))
+
+      if (conditionIsTrue && validateThen) {
+        return validateThen(value, options, [...path, 'then'], jsonLogicContext)
+      }
+
+      if (!conditionIsTrue && validateElse) {
+        return validateElse(value, options, [...path, 'else'], jsonLogicContext)
+      }
+
+      return []
+    })
+  }
+
+  if (schema.dependentSchemas) {
+    const dependentSchemas = Object.entries(schema.dependentSchemas).map(([key, dependentSchema]) => [key, dependentSchema, getValidator(dependentSchema, context)] as const)
+    validators.push((value, options, path, jsonLogicContext) => {
+      if (!isObjectValue(value)) {
+        return []
+      }
+
+      const errors: ValidationError[] = []
+      for (const [key, dependentSchema, validate] of dependentSchemas) {
+        if (!hasProperty(value, key, options.treatNullAsUndefined)) {
+          continue
+        }
+
+        if (dependentSchema === false) {
+          errors.push({ path: [...path, key], validation: 'dependentSchemas', schema: schema.properties?.[key] || schema, value: value[key] })
+          continue
+        }
+
+        errors.push(...validate(value, options, [...path, 'dependentSchemas', key], jsonLogicContext))
+      }
+      return errors
+    })
+  }
+
+  return validators
+}
+
+/**
+ * Compile a schema into a validator, precomputing everything that doesn't depend on the value
+ * (types, required properties, regular expressions and the validators of its subschemas).
+ * The keywords are validated in the same order as in `validateSchema`, so the errors are the same.
+ */
+function compileObjectSchema(schema: NonBooleanJsfSchema, context: CompileContext): SchemaValidator {
+  const logic = schema['x-jsf-logic'] || undefined
+  const validateLogicSchema = logic ? getValidator(getJsonLogicRootSchema(logic), context) : undefined
+  const presentation = schema['x-jsf-presentation']
+  // File inputs skip the type validation
+  const isValidType = presentation?.inputType === 'file' ? undefined : compileType(schema.type)
+  const { required } = schema
+  const definedProperties = new Set(Object.keys(schema.properties || {}))
+  const propertyPatterns = Object.keys(schema.patternProperties || {}).map(pattern => new RegExp(pattern))
+  const hasJsonLogicRules = (schema['x-jsf-logic-validations']?.length ?? 0) > 0
+
+  const validators: SchemaValidator[] = []
+  const addValidator = (validator: SchemaValidator | undefined) => validator && validators.push(validator)
+
+  if (schema.const !== undefined || schema.value !== undefined) {
+    addValidator((value, _options, path) => validateConst(value, schema, path))
+  }
+  if (schema.enum !== undefined) {
+    addValidator((value, _options, path) => validateEnum(value, schema, path))
+  }
+  addValidator(compileObjectKeywords(schema, context))
+  if (schema.dependentRequired) {
+    addValidator((value, options, path) => validateDependentRequired(value, schema, options, path))
+  }
+  addValidator(compileArrayKeywords(schema, context))
+  addValidator(compileStringKeywords(schema))
+  const appliesToNumbers = schema.type === undefined || schema.type === 'number' || schema.type === 'integer'
+  if (appliesToNumbers && NUMBER_KEYWORDS.some(keyword => schema[keyword] !== undefined)) {
+    addValidator((value, _options, path) => validateNumber(value, schema, path))
+  }
+  if (presentation) {
+    addValidator((value, _options, path) => validateFile(value, schema, path))
+  }
+  addValidator(compileRef(schema, context))
+  compileComposition(schema, context).forEach(addValidator)
+  // Unevaluated locations depend on the annotations of the subschemas, so they are validated as in `validateSchema`
+  if (schema.unevaluatedProperties !== undefined) {
+    addValidator((value, options, path, jsonLogicContext) => validateUnevaluatedProperties(value, schema, options, jsonLogicContext, path))
+  }
+  if (schema.unevaluatedItems !== undefined) {
+    addValidator((value, options, path, jsonLogicContext) => validateUnevaluatedItems(value, schema, options, jsonLogicContext, path))
+  }
+  if (presentation) {
+    addValidator((value, options, path) => validateDate(value, schema, options, path))
+  }
+  // Custom keywords are given in the options of each validation
+  addValidator((value, options, path, jsonLogicContext) => validateCustomKeywords(value, schema, options, jsonLogicContext, path))
+
+  return (value, options, path, rootJsonLogicContext) => {
+    if (value === undefined || (value === null && options.treatNullAsUndefined)) {
+      return []
+    }
+
+    if (isValidType && !isValidType(value)) {
+      return [{ path, validation: 'type', schema, value }]
+    }
+
+    // The root json-logic schema is the first schema with an `x-jsf-logic` keyword
+    const isJsonLogicRoot = !rootJsonLogicContext && logic !== undefined
+    const jsonLogicContext = isJsonLogicRoot ? getJsonLogicContextFromSchema(logic, value) : rootJsonLogicContext
+    const errors: ValidationError[] = []
+
+    if (isObjectValue(value)) {
+      for (const key of required ?? []) {
+        if (isMissingValue(value[key], options.treatNullAsUndefined)) {
+          errors.push({ path: [...path, key], validation: 'required', schema: schema.properties?.[key] || schema, value })
+        }
+      }
+
+      if (schema.additionalProperties === false) {
+        for (const key of Object.keys(value)) {
+          if (!definedProperties.has(key) && !propertyPatterns.some(regex => regex.test(key))) {
+            errors.push({ path: [...path, key], validation: 'additionalProperties', schema, value: value[key] })
+          }
+        }
+      }
+    }
+
+    for (const validate of validators) {
+      errors.push(...validate(value, options, path, jsonLogicContext))
+    }
+
+    if (isJsonLogicRoot && validateLogicSchema) {
+      errors.push(...validateLogicSchema(value, options, path, jsonLogicContext))
+    }
+
+    if (hasJsonLogicRules) {
+      errors.push(...validateJsonLogicRules(schema, jsonLogicContext, path))
+    }
+
+    return errors
+  }
+}
+
+/**
+ * Get the schema declared in `x-jsf-logic` (conditionals, allOf, etc.), without the rules
+ */
+function getJsonLogicRootSchema(logic: JsonLogicSchema): JsfSchema {
+  const { validations, computedValues, ...rest } = logic
+  return rest as JsfSchema
+}
+
+/**
+ * Compile a schema into a reusable validator
+ * @param schema - The schema to compile
+ * @param options - The validation options
+ * @returns A function validating values against the schema
+ * @description
+ * Compiling a schema precomputes everything that doesn't depend on the validated value: types, required properties,
+ * regular expressions (`pattern`, `patternProperties`), resolved references and the validators of the subschemas.
+ * Subschemas are compiled the first time they're used.
+ * The validator returns the same errors as `validateSchema`, which remains the reference implementation.
+ *
+ * @example
+ * ```ts
+ * const validate = compileSchema(schema)
+ * validate({ name: 'John' }) // []
+ * ```
+ */
+export function compileSchema(schema: JsfSchema, options: ValidationOptions = {}): CompiledValidator {
+  const resolver = options.refResolver ?? createRefResolver(schema, options.schemaRegistry)
+  const validationOptions = { ...options, refResolver: resolver }
+  const validate = getValidator(schema, { resolver, validators: new Map() })
+
+  return (value, path = []) => validate(value, validationOptions, path, undefined)
+}
+
+/**
+ * Get the keys of a value read by a condition (`if` subschema)
+ * @param schema - The condition
+ * @param customKeywords - The names of the custom keywords, which might read any key
+ * @returns The keys, or null if the condition might read any key
+ */
+function getConditionKeys(schema: JsfSchema, customKeywords: string[]): Set<string> | null {
+  if (typeof schema === 'boolean') {
+    return new Set()
+  }
+
+  const readsAnyKey = ['$ref', '$dynamicRef', 'const', 'enum', 'patternProperties', 'additionalProperties', 'propertyNames', 'minProperties', 'maxProperties', 'unevaluatedProperties', ...customKeywords]
+  if (readsAnyKey.some(keyword => keyword in schema)) {
+    return null
+  }
+
+  const keys = new Set([
+    ...Object.keys(schema.properties ?? {}),
+    ...(schema.required ?? []),
+    ...Object.entries(schema.dependentRequired ?? {}).flatMap(([key, dependencies]) => [key, ...dependencies]),
+    ...Object.keys(schema.dependentSchemas ?? {}),
+  ])
+
+  const subschemas = [
+    ...(schema.allOf ?? []),
+    ...(schema.anyOf ?? []),
+    ...(schema.oneOf ?? []),
+    ...Object.values(schema.dependentSchemas ?? {}),
+    ...[schema.not, schema.if, schema.then, schema.else].filter(subschema => subschema !== undefined),
+  ] as JsfSchema[]
+
+  for (const subschema of subschemas) {
+    const subschemaKeys = getConditionKeys(subschema, customKeywords)
+    if (subschemaKeys === null) {
+      return null
+    }
+    subschemaKeys.forEach(key => keys.add(key))
+  }
+
+  return keys
+}
+
+/**
+ * Get the keys of the form values read by the conditional rules applied by `calculateFinalSchema`
+ * @param schema - The schema with the rules
+ * @param customKeywords - The names of the custom keywords
+ * @returns The keys, or null if the rules might read any key
+ */
+function getConditionalDependencies(schema: JsfSchema, customKeywords: string[] = []): Set<string> | null {
+  if (typeof schema === 'boolean') {
+    return new Set()
+  }
+
+  const keys = new Set<string>()
+  const add = (dependencies: Set<string> | null) => {
+    dependencies?.forEach(key => keys.add(key))
+    return dependencies !== null
+  }
+
+  const rules = [schema, ...(schema.allOf ?? [])].filter(rule => typeof rule === 'object' && rule.if !== undefined) as NonBooleanJsfSchema[]
+  for (const rule of rules) {
+    const isKnown = add(getConditionKeys(rule.if!, customKeywords))
+      && [rule.then, rule.else].every(branch => branch === undefined || add(getConditionalDependencies(branch, customKeywords)))
+    if (!isKnown) {
+      return null
+    }
+  }
+
+  for (const [key, dependencies] of Object.entries(schema.dependentRequired ?? {})) {
+    add(new Set([key, ...dependencies]))
+  }
+
+  for (const [key, dependentSchema] of Object.entries(schema.dependentSchemas ?? {})) {
+    if (!add(new Set([key])) || !add(getConditionalDependencies(dependentSchema, customKeywords))) {
+      return null
+    }
+  }
+
+  // Rules of nested objects read the value of the property
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    if (typeof property === 'object' && property.type === 'object' && getConditionalDependencies(property, customKeywords)?.size !== 0) {
+      keys.add(key)
+    }
+  }
+
+  return keys
+}
+
+/**
+ * Get the keys of the form values read by json-logic rules (`var` operations)
+ * @returns The keys, or null if the rules might read any key
+ */
+function getJsonLogicDependencies(rule: unknown, keys = new Set<string>()): Set<string> | null {
+  if (Array.isArray(rule)) {
+    return rule.every(item => getJsonLogicDependencies(item, keys) !== null) ? keys : null
+  }
+
+  if (!rule || typeof rule !== 'object') {
+    return keys
+  }
+
+  for (const [operation, args] of Object.entries(rule)) {
+    if (operation === 'missing' || operation === 'missing_some') {
+      return null
+    }
+
+    if (operation === 'var') {
+      const name = Array.isArray(args) ? args[0] : args
+      if ((typeof name !== 'string' && typeof name !== 'number') || name === '') {
+        return null
+      }
+      keys.add(String(name).split('.')[0])
+    }
+    else if (getJsonLogicDependencies(args, keys) === null) {
+      return null
+    }
+  }
+
+  return keys
+}
+
+/**
+ * Get a key identifying the values of the dependencies
+ * @returns The key, or undefined if the values can't be compared (e.g. files)
+ */
+function getDependenciesKey(values: SchemaValue, dependencies: string[]): string | undefined {
+  if (!isObjectValue(values)) {
+    return undefined
+  }
+
+  const isJsonValue = (value: unknown): boolean => value === null
+    || ['string', 'number', 'boolean'].includes(typeof value)
+    || (Array.isArray(value) && value.every(isJsonValue))
+    || (typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype && Object.values(value!).every(item => item === undefined || isJsonValue(item)))
+
+  const parts: string[] = []
+  for (const key of dependencies) {
+    const value = values[key]
+    if (value !== undefined && !isJsonValue(value)) {
+      return undefined
+    }
+    // JSON never serializes to an empty string, so undefined values are distinguished from null ones
+    parts.push(value === undefined ? '' : JSON.stringify(value))
+  }
+
+  return parts.join('\n')
+}
+
+export interface CompiledFormSchema {
+  /**
+   * The final schema for the values (see `calculateFinalSchema`)
+   */
+  schema: JsfObjectSchema
+  /**
+   * Validate values against the final schema
+   */
+  validate: CompiledValidator
+}
+
+/**
+ * Compile a form schema for repeated validation of its values
+ * @param schema - The (dereferenced) form schema
+ * @param options - The validation options
+ * @returns A function returning the final schema and its validator for some values
+ * @description
+ * The final schema depends on the values read by the conditional rules (if/then/else, dependentRequired,
+ * dependentSchemas and json-logic rules), which are found once per schema.
+ * While these values don't change, the same final schema (and compiled validator) is returned.
+ * If the rules might read any value, the final schema is calculated every time and validated with `validateSchema`.
+ */
+export function compileFormSchema(schema: JsfObjectSchema, options: ValidationOptions = {}): (values: SchemaValue) => CompiledFormSchema {
+  const logic = schema['x-jsf-logic']
+  const conditionalDependencies = getConditionalDependencies(schema, Object.keys(options.customKeywords ?? {}))
+  const jsonLogicDependencies = getJsonLogicDependencies([...Object.values(logic?.validations ?? {}), ...Object.values(logic?.computedValues ?? {})])
+  const dependencies = conditionalDependencies && jsonLogicDependencies
+    ? [...new Set([...conditionalDependencies, ...jsonLogicDependencies])].sort()
+    : null
+
+  let cached: { key: string, compiled: CompiledFormSchema } | undefined
+
+  return (values) => {
+    const key = dependencies ? getDependenciesKey(values, dependencies) : undefined
+    if (key !== undefined && cached?.key === key) {
+      return cached.compiled
+    }
+
+    const finalSchema = calculateFinalSchema({ schema, values, options })
+    if (key === undefined) {
+      return { schema: finalSchema, validate: (value, path) => validateSchema(value, finalSchema, options, path) }
+    }
+
+    cached = { key, compiled: { schema: finalSchema, validate: compileSchema(finalSchema, options) } }
+    return cached.compiled
+  }
+}
@@ -6,9 +6,10 @@
  */
 
 import type { ValidationError, ValidationErrorPath } from '../errors'
-import type { LegacyOptions } from '../form'
 import type { JsfSchema, JsonLogicContext, SchemaValue } from '../types'
+import type { ValidationOptions } from './schema'
 import { validateSchema } from './schema'
+import { hasBlockingErrors } from './util'
 
 /**
  * Validate a value against the `allOf` keyword in a schema.
@@ -29,7 +30,7 @@ import { validateSchema } from './schema'
 export function validateAllOf(
   value: SchemaValue,
   schema: JsfSchema,
-  options: LegacyOptions,
+  options: ValidationOptions,
   jsonLogicContext: JsonLogicContext | undefined,
   path: ValidationErrorPath = [],
 ): ValidationError[] {
@@ -37,15 +38,19 @@ export function validateAllOf(
     return []
   }
 
+  // Warnings don't make the subschemas invalid, so they are kept while validating the next ones
+  const warnings: ValidationError[] = []
+
   for (let i = 0; i < schema.allOf.length; i++) {
     const subSchema = schema.allOf[i]
     const errors = validateSchema(value, subSchema, options, [...path, 'allOf', i], jsonLogicContext)
-    if (errors.length > 0) {
+    if (hasBlockingErrors(errors)) {
       return errors
     }
+    warnings.push(...errors)
   }
 
-  return []
+  return warnings
 }
 
 /**
@@ -67,7 +72,7 @@ export function validateAllOf(
 export function validateAnyOf(
   value: SchemaValue,
   schema: JsfSchema,
-  options: LegacyOptions,
+  options: ValidationOptions,
   jsonLogicContext: JsonLogicContext | undefined,
   path: ValidationErrorPath = [],
 ): ValidationError[] {
@@ -81,7 +86,7 @@ export function validateAnyOf(
   if (path.length !== 0) {
     for (const subSchema of schema.anyOf) {
       const errors = validateSchema(value, subSchema, options, path, jsonLogicContext)
-      if (errors.length === 0) {
+      if (!hasBlockingErrors(errors)) {
         return []
       }
     }
@@ -104,7 +109,7 @@ export function validateAnyOf(
   for (const subSchema of schema.anyOf) {
     const schemaErrors = validateSchema(value, subSchema, options, path, jsonLogicContext)
     // If the schema is not valid, add the errors to the errorGroups array
-    if (schemaErrors.length !== 0) {
+    if (hasBlockingErrors(schemaErrors)) {
       errorGroups.push(schemaErrors)
     }
   }
@@ -140,7 +145,7 @@ export function validateAnyOf(
 export function validateOneOf(
   value: SchemaValue,
   schema: JsfSchema,
-  options: LegacyOptions,
+  options: ValidationOptions,
   jsonLogicContext: JsonLogicContext | undefined,
   path: ValidationErrorPath = [],
 ): ValidationError[] {
@@ -156,7 +161,7 @@ export function validateOneOf(
 
   for (let i = 0; i < schema.oneOf.length; i++) {
     const errors = validateSchema(value, schema.oneOf[i], options, path, jsonLogicContext)
-    if (errors.length === 0) {
+    if (!hasBlockingErrors(errors)) {
       validCount++
       if (validCount > 1) {
         break
@@ -209,7 +214,7 @@ export function validateOneOf(
 export function validateNot(
   value: SchemaValue,
   schema: JsfSchema,
-  options: LegacyOptions,
+  options: ValidationOptions,
   jsonLogicContext: JsonLogicContext | undefined,
   path: ValidationErrorPath = [],
 ): ValidationError[] {
@@ -222,5 +227,5 @@ export function validateNot(
   }
 
   const notErrors = validateSchema(value, schema.not, options, path, jsonLogicContext)
-  return notErrors.length === 0 ? [{ path, validation: 'not', schema, value }] : []
+  return !hasBlockingErrors(notErrors) ? [{ path, validation: 'not', schema, value }] : []
 }
@@ -1,19 +1,20 @@
 import type { ValidationError, ValidationErrorPath } from '../errors'
-import type { LegacyOptions } from '../form'
 import type { JsfSchema, JsonLogicContext, NonBooleanJsfSchema, SchemaValue } from '../types'
+import type { ValidationOptions } from './schema'
 import { validateSchema } from './schema'
+import { hasBlockingErrors } from './util'
 
 export function evaluateIfCondition(
   value: SchemaValue,
   ifNode: JsfSchema,
-  options: LegacyOptions,
+  options: ValidationOptions,
   jsonLogicContext: JsonLogicContext | undefined,
   path: ValidationErrorPath = [],
 ): boolean {
   // If a boolean value is used as a condition, we need to ignore the allowForbiddenValues option.
   // Otherwise, we can't evaluate the condition correctly
   const isTheConditionalABoolean = typeof ifNode === 'boolean'
-  const conditionIsTrue = validateSchema(value, ifNode, { ...options, ...(isTheConditionalABoolean ? { allowForbiddenValues: false } : {}) }, path, jsonLogicContext).length === 0
+  const conditionIsTrue = !hasBlockingErrors(validateSchema(value, ifNode, { ...options, ...(isTheConditionalABoolean ? { allowForbiddenValues: false } : {}) }, path, jsonLogicContext))
 
   return conditionIsTrue
 }
@@ -21,7 +22,7 @@ export function evaluateIfCondition(
 export function validateCondition(
   value: SchemaValue,
   schema: NonBooleanJsfSchema,
-  options: LegacyOptions,
+  options: ValidationOptions,
   jsonLogicContext: JsonLogicContext | undefined,
   path: ValidationErrorPath = [],
 ): ValidationError[] {
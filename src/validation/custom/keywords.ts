@@ -0,0 +1,108 @@
+import type { ErrorMessageCatalog, ValidationError, ValidationErrorPath } from '../../errors'
+import type { JsonLogicContext, NonBooleanJsfSchema, SchemaValue } from '../../types'
+import type { ValidationOptions } from '../schema'
+
+/**
+ * Context given to the validator of a custom keyword
+ */
+export interface CustomKeywordContext {
+  /**
+   * The name of the keyword being validated
+   */
+  keyword: string
+  /**
+   * The options of the validation, to validate subschemas with `validateSchema` if needed
+   */
+  options: ValidationOptions
+  /**
+   * The json-logic context of the root schema, if any (with the form values and the computed values)
+   */
+  jsonLogicContext: JsonLogicContext | undefined
+}
+
+/**
+ * Function validating a value against a custom keyword of its schema
+ * @param value - The value to validate (never undefined)
+ * @param schema - The schema with the keyword
+ * @param path - The path to the value
+ * @param context - The keyword name, validation options and json-logic context
+ * @returns The validation errors. Their `validation` is usually the name of the keyword, so the error message
+ * can be customized with `x-jsf-errorMessage` and the message catalog.
+ */
+export type CustomKeywordValidator = (
+  value: SchemaValue,
+  schema: NonBooleanJsfSchema,
+  path: ValidationErrorPath,
+  context: CustomKeywordContext,
+) => ValidationError[]
+
+/**
+ * Custom keyword: either its validator, or the validator and the default error message for the keyword
+ * @example
+ * ```ts
+ * {
+ *   validate: (value, schema, path) => isBusinessDay(value) ? [] : [{ path, validation: 'x-business-day', schema, value }],
+ *   message: 'Must be a business day',
+ * }
+ * ```
+ */
+export type CustomKeyword = CustomKeywordValidator | {
+  validate: CustomKeywordValidator
+  /**
+   * Default error message for the keyword (the `<keyword>` message of the catalog)
+   */
+  message?: string
+}
+
+/**
+ * Validate a value against the custom keywords of its schema
+ * @param value - The value to validate
+ * @param schema - The schema to validate against
+ * @param options - The validation options, with the custom keywords
+ * @param jsonLogicContext - The json-logic context
+ * @param path - The path to the value
+ * @returns An array of validation errors
+ * @description
+ * Each custom keyword present in the schema is validated, in the order they were registered.
+ */
+export function validateCustomKeywords(
+  value: SchemaValue,
+  schema: NonBooleanJsfSchema,
+  options: ValidationOptions = {},
+  jsonLogicContext: JsonLogicContext | undefined,
+  path: ValidationErrorPath = [],
+): ValidationError[] {
+  if (!options.customKeywords) {
+    return []
+  }
+
+  const errors: ValidationError[] = []
+
+  for (const [keyword, customKeyword] of Object.entries(options.customKeywords)) {
+    if ((schema as Record<string, unknown>)[keyword] === undefined) {
+      continue
+    }
+
+    const validate = typeof customKeyword === 'function' ? customKeyword : customKeyword.validate
+    errors.push(...validate(value, schema, path, { keyword, options, jsonLogicContext }))
+  }
+
+  return errors
+}
+
+/**
+ * Get the default error messages of some custom keywords, to be merged into a message catalog
+ * @param customKeywords - The custom keywords
+ * @returns The `<keyword>` messages
+ */
+export function getCustomKeywordMessages(customKeywords: Record<string, CustomKeyword> = {}): Partial<ErrorMessageCatalog> {
+  const messages: Partial<ErrorMessageCatalog> = {}
+
+  for (const [keyword, customKeyword] of Object.entries(customKeywords)) {
+    if (typeof customKeyword === 'object' && customKeyword.message !== undefined) {
+      messages[keyword] = customKeyword.message
+    }
+  }
+
+  return messages
+}
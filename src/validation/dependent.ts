@@ -0,0 +1,118 @@
+import type { ValidationError, ValidationErrorPath } from '../errors'
+import type { JsonLogicContext, NonBooleanJsfSchema, SchemaValue } from '../types'
+import type { ValidationOptions } from './schema'
+import { validateSchema } from './schema'
+import { hasProperty, isMissingValue, isObjectValue } from './util'
+
+/**
+ * Validate the `dependentRequired` keyword of an object schema
+ * @param value - The value to validate
+ * @param schema - The schema to validate against
+ * @param options - The validation options
+ * @param path - The path to the current field being validated
+ * @returns An array of validation errors
+ * @description
+ * When a property is present (even if empty), all the properties it depends on must be filled.
+ * The error is reported on each missing property, the same way `required` does.
+ *
+ * @example
+ * ```json
+ * {
+ *   "dependentRequired": {
+ *     "iban": ["bic"]
+ *   }
+ * }
+ * ```
+ * This schema requires "bic" when "iban" is filled.
+ * @see https://json-schema.org/understanding-json-schema/reference/conditionals#dependentRequired
+ */
+export function validateDependentRequired(
+  value: SchemaValue,
+  schema: NonBooleanJsfSchema,
+  options: ValidationOptions,
+  path: ValidationErrorPath = [],
+): ValidationError[] {
+  if (!schema.dependentRequired || !isObjectValue(value)) {
+    return []
+  }
+
+  const errors: ValidationError[] = []
+
+  for (const [key, dependencies] of Object.entries(schema.dependentRequired)) {
+    if (!hasProperty(value, key, options.treatNullAsUndefined)) {
+      continue
+    }
+
+    for (const dependency of dependencies) {
+      if (isMissingValue(value[dependency], options.treatNullAsUndefined)) {
+        errors.push({
+          path: [...path, dependency],
+          validation: 'dependentRequired',
+          schema: schema.properties?.[dependency] || schema,
+          value,
+        })
+      }
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Validate the `dependentSchemas` keyword of an object schema
+ * @param value - The value to validate
+ * @param schema - The schema to validate against
+ * @param options - The validation options
+ * @param jsonLogicContext - The JSON Logic context
+ * @param path - The path to the current field being validated
+ * @returns An array of validation errors
+ * @description
+ * When a property is present (even if empty), the whole object must also be valid against the subschema declared for that property.
+ * A subschema `false` means the property can't be filled at all, so the error is reported on the property.
+ *
+ * @example
+ * ```json
+ * {
+ *   "dependentSchemas": {
+ *     "iban": {
+ *       "properties": { "bic": { "minLength": 8 } },
+ *       "required": ["bic"]
+ *     }
+ *   }
+ * }
+ * ```
+ * @see https://json-schema.org/understanding-json-schema/reference/conditionals#dependentSchemas
+ */
+export function validateDependentSchemas(
+  value: SchemaValue,
+  schema: NonBooleanJsfSchema,
+  options: ValidationOptions,
+  jsonLogicContext: JsonLogicContext | undefined,
+  path: ValidationErrorPath = [],
+): ValidationError[] {
+  if (!schema.dependentSchemas || !isObjectValue(value)) {
+    return []
+  }
+
+  const errors: ValidationError[] = []
+
+  for (const [key, dependentSchema] of Object.entries(schema.dependentSchemas)) {
+    if (!hasProperty(value, key, options.treatNullAsUndefined)) {
+      continue
+    }
+
+    if (dependentSchema === false) {
+      errors.push({
+        path: [...path, key],
+        validation: 'dependentSchemas',
+        schema: schema.properties?.[key] || schema,
+        value: value[key],
+      })
+      continue
+    }
+
+    errors.push(...validateSchema(value, dependentSchema, options, [...path, 'dependentSchemas', key], jsonLogicContext))
+  }
+
+  return errors
+}
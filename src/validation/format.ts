@@ -1,5 +1,6 @@
-import type { ValidationError, ValidationErrorPath } from '../errors'
+import type { ErrorMessageCatalog, ValidationError, ValidationErrorPath } from '../errors'
 import type { NonBooleanJsfSchema } from '../types'
+import type { ValidationOptions } from './schema'
 import { Format } from 'json-schema-typed/draft-2020-12'
 
 /**
@@ -14,6 +15,29 @@ import { Format } from 'json-schema-typed/draft-2020-12'
  */
 export type FormatValidationErrorType = 'format'
 
+/**
+ * Function checking if a string is valid for a format
+ */
+export type FormatValidator = (value: string) => boolean
+
+/**
+ * Custom format: either its validation function, or the function and the default error message for the format
+ * @example
+ * ```ts
+ * {
+ *   validate: value => /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(value),
+ *   message: 'Must be a valid IBAN',
+ * }
+ * ```
+ */
+export type CustomFormat = FormatValidator | {
+  validate: FormatValidator
+  /**
+   * Default error message for the format (the `format.<name>` message of the catalog)
+   */
+  message?: string
+}
+
 /**
  * Regular expression patterns for format validation
  * These patterns are based on JSON Schema 2020-12 specifications
@@ -175,6 +199,7 @@ const formatValidationFunctions: Record<Format, (value: string) => boolean> = {
  * Validate a string value against a format
  * @param value - The string value to validate
  * @param schema - The schema to validate against
+ * @param options - The validation options
  * @param path - The path to the current field being validated
  * @returns An array of validation errors
  * @description
@@ -184,10 +209,13 @@ const formatValidationFunctions: Record<Format, (value: string) => boolean> = {
  * - Unknown formats should be ignored
  * - Implementations SHOULD implement validation for standard formats
  * - Implementations MAY treat format as a no-op
+ *
+ * Custom formats (`customFormats` option) take precedence over the built-in ones.
  */
 export function validateFormat(
   value: string,
   schema: NonBooleanJsfSchema,
+  options: ValidationOptions = {},
   path: ValidationErrorPath = [],
 ): ValidationError[] {
   const errors: ValidationError[] = []
@@ -197,10 +225,42 @@ export function validateFormat(
     return errors
   }
 
-  const validateFn = formatValidationFunctions[schema.format as Format]
+  const validateFn = getFormatValidator(schema.format!, options.customFormats)
   if (validateFn && !validateFn(value)) {
     errors.push({ path, validation: 'format', schema, value })
   }
 
   return errors
 }
+
+/**
+ * Get the validation function of a format
+ * @param format - The format name
+ * @param customFormats - The custom formats
+ * @returns The validation function, or undefined for unknown formats
+ */
+function getFormatValidator(format: string, customFormats: Record<string, CustomFormat> = {}): FormatValidator | undefined {
+  const customFormat = Object.prototype.hasOwnProperty.call(customFormats, format) ? customFormats[format] : undefined
+  if (customFormat) {
+    return typeof customFormat === 'function' ? customFormat : customFormat.validate
+  }
+
+  return formatValidationFunctions[format as Format]
+}
+
+/**
+ * Get the default error messages of the custom formats, to be added to the message catalog
+ * @param customFormats - The custom formats
+ * @returns The `format.<name>` messages
+ */
+export function getCustomFormatMessages(customFormats: Record<string, CustomFormat> = {}): Partial<ErrorMessageCatalog> {
+  const messages: Partial<ErrorMessageCatalog> = {}
+
+  for (const [name, customFormat] of Object.entries(customFormats)) {
+    if (typeof customFormat === 'object' && customFormat.message !== undefined) {
+      messages[`format.${name}`] = customFormat.message
+    }
+  }
+
+  return messages
+}
@@ -1,4 +1,4 @@
-import type { RulesLogic } from 'json-logic-js'
+import type { AdditionalOperation, RulesLogic } from 'json-logic-js'
 import type { ValidationError, ValidationErrorPath } from '../errors'
 import type { JsfObjectSchema, JsfSchema, JsonLogicContext, JsonLogicRules, JsonLogicSchema, NonBooleanJsfSchema, ObjectValue, SchemaValue } from '../types'
 import jsonLogic from 'json-logic-js'
@@ -99,7 +99,14 @@ export function validateJsonLogicRules(
         })
       }
 
-      return [{ path, validation: 'json-logic', customErrorMessage: errorMessage, schema, value: formValue } as ValidationError]
+      return [{
+        path,
+        validation: 'json-logic',
+        customErrorMessage: errorMessage,
+        schema,
+        value: formValue,
+        ...(validationData.severity && { severity: validationData.severity }),
+      } as ValidationError]
     }
 
     return []
@@ -108,7 +115,7 @@ export function validateJsonLogicRules(
 
 export function computePropertyValues(
   name: string,
-  rule: RulesLogic,
+  rule: RulesLogic<AdditionalOperation>,
   values: SchemaValue,
 ): any {
   if (!rule) {
@@ -1,8 +1,8 @@
 import type { ValidationError, ValidationErrorPath } from '../errors'
-import type { LegacyOptions } from '../form'
-import type { JsonLogicContext, NonBooleanJsfSchema, SchemaValue } from '../types'
+import type { JsfSchema, JsonLogicContext, NonBooleanJsfSchema, ObjectValue, SchemaValue } from '../types'
+import type { ValidationOptions } from './schema'
 import { validateSchema } from './schema'
-import { isObjectValue } from './util'
+import { hasBlockingErrors, isObjectValue } from './util'
 
 /**
  * Validate an object against a schema
@@ -14,22 +14,166 @@ import { isObjectValue } from './util'
  * @returns An array of validation errors
  * @description
  * Validates each property of object against the schema while keeping track of the path to the property.
- * Each property is validated with `validateSchema`.
+ * Each property is validated with `validateSchema`, against its schema in `properties`, `patternProperties`
+ * or `additionalProperties`.
+ * The property names and the number of properties are validated as well.
  */
 export function validateObject(
   value: SchemaValue,
   schema: NonBooleanJsfSchema,
-  options: LegacyOptions,
+  options: ValidationOptions,
   jsonLogicContext: JsonLogicContext | undefined,
   path: ValidationErrorPath = [],
 ): ValidationError[] {
-  if (typeof schema === 'object' && schema.properties && isObjectValue(value)) {
-    const errors = []
+  if (typeof schema !== 'object' || !isObjectValue(value)) {
+    return []
+  }
+
+  const errors: ValidationError[] = [
+    ...validatePropertiesCount(value, schema, path),
+    ...validatePropertyNames(value, schema, options, jsonLogicContext, path),
+  ]
+
+  if (schema.properties) {
     for (const [key, propertySchema] of Object.entries(schema.properties)) {
       errors.push(...validateSchema(value[key], propertySchema, options, [...path, key], jsonLogicContext))
     }
-    return errors
   }
 
-  return []
+  errors.push(...validatePropertySchemas(value, schema, options, jsonLogicContext, path))
+
+  return errors
+}
+
+/**
+ * Validate the properties of an object against the `patternProperties` and `additionalProperties` schemas
+ * @param value - The object value to validate
+ * @param schema - The schema to validate against
+ * @param options - The validation options
+ * @param jsonLogicContext - The JSON Logic context
+ * @param path - The path to the current field being validated
+ * @returns An array of validation errors
+ * @description
+ * Each property is validated against the schema of every pattern its name matches.
+ * The properties that are not declared in `properties` and don't match any pattern are validated against
+ * the `additionalProperties` schema. `additionalProperties: false` is handled by `validateSchema`.
+ *
+ * @example
+ * ```json
+ * {
+ *   "type": "object",
+ *   "patternProperties": { "^price_": { "type": "number" } },
+ *   "additionalProperties": { "type": "string" }
+ * }
+ * ```
+ * This schema only allows numbers in the properties starting with `price_`, and strings in the other properties.
+ */
+function validatePropertySchemas(
+  value: ObjectValue,
+  schema: NonBooleanJsfSchema,
+  options: ValidationOptions,
+  jsonLogicContext: JsonLogicContext | undefined,
+  path: ValidationErrorPath,
+): ValidationError[] {
+  const patterns = Object.entries(schema.patternProperties ?? {}).map(([pattern, patternSchema]) => ({
+    regex: new RegExp(pattern),
+    schema: patternSchema as JsfSchema,
+  }))
+  const additionalSchema = typeof schema.additionalProperties === 'object' ? schema.additionalProperties as JsfSchema : undefined
+
+  if (patterns.length === 0 && !additionalSchema) {
+    return []
+  }
+
+  const errors: ValidationError[] = []
+
+  for (const key of Object.keys(value)) {
+    const matchingPatterns = patterns.filter(({ regex }) => regex.test(key))
+
+    for (const { schema: patternSchema } of matchingPatterns) {
+      errors.push(...validateSchema(value[key], patternSchema, options, [...path, key], jsonLogicContext))
+    }
+
+    if (additionalSchema && matchingPatterns.length === 0 && !Object.hasOwn(schema.properties ?? {}, key)) {
+      errors.push(...validateSchema(value[key], additionalSchema, options, [...path, key], jsonLogicContext))
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Validate the number of properties of an object
+ * @param value - The object value to validate
+ * @param schema - The schema to validate against
+ * @param path - The path to the current field being validated
+ * @returns An array of validation errors
+ * @description
+ * If the `minProperties` keyword is defined, the object must have at least `minProperties` properties.
+ * If the `maxProperties` keyword is defined, the object must have at most `maxProperties` properties.
+ * Properties with an undefined value are not counted, as they are not filled.
+ */
+function validatePropertiesCount(
+  value: ObjectValue,
+  schema: NonBooleanJsfSchema,
+  path: ValidationErrorPath,
+): ValidationError[] {
+  const errors: ValidationError[] = []
+  const count = Object.keys(value).filter(key => value[key] !== undefined).length
+
+  if (schema.minProperties !== undefined && count < schema.minProperties) {
+    errors.push({ path, validation: 'minProperties', schema, value })
+  }
+
+  if (schema.maxProperties !== undefined && count > schema.maxProperties) {
+    errors.push({ path, validation: 'maxProperties', schema, value })
+  }
+
+  return errors
+}
+
+/**
+ * Validate the names of the properties of an object
+ * @param value - The object value to validate
+ * @param schema - The schema to validate against
+ * @param options - The validation options
+ * @param jsonLogicContext - The JSON Logic context
+ * @param path - The path to the current field being validated
+ * @returns An array of validation errors
+ * @description
+ * If the `propertyNames` keyword is defined, each property name must be valid against its schema.
+ * An error is returned for each invalid property name, with the property name as value.
+ *
+ * @example
+ * ```json
+ * {
+ *   "type": "object",
+ *   "propertyNames": { "pattern": "^[a-z_]+$" }
+ * }
+ * ```
+ * This schema only allows lowercase property names.
+ */
+function validatePropertyNames(
+  value: ObjectValue,
+  schema: NonBooleanJsfSchema,
+  options: ValidationOptions,
+  jsonLogicContext: JsonLogicContext | undefined,
+  path: ValidationErrorPath,
+): ValidationError[] {
+  if (schema.propertyNames === undefined) {
+    return []
+  }
+
+  const errors: ValidationError[] = []
+
+  for (const key of Object.keys(value)) {
+    // A `false` schema must not allow any property, so we ignore the allowForbiddenValues option
+    const keyErrors = validateSchema(key, schema.propertyNames as JsfSchema, { ...options, allowForbiddenValues: false }, [...path, key], jsonLogicContext)
+
+    if (hasBlockingErrors(keyErrors)) {
+      errors.push({ path: [...path, key], validation: 'propertyNames', schema, value: key })
+    }
+  }
+
+  return errors
 }
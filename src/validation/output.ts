@@ -0,0 +1,409 @@
+import type { ErrorMessageCatalog, ValidationError, ValidationErrorPath } from '../errors'
+import type { JsfSchema, NonBooleanJsfSchema, SchemaValue } from '../types'
+import type { RefResolver } from './ref'
+import type { ValidationOptions } from './schema'
+import { getMessageCatalog } from '../errors/locales'
+import { getErrorMessage, getSchemaErrorMessage } from '../errors/messages'
+import { getCustomKeywordMessages } from './custom/keywords'
+import { getCustomFormatMessages } from './format'
+import { createRefResolver, DEFAULT_BASE_URI, getBaseUri, resolveRef } from './ref'
+import { validateSchema } from './schema'
+import { isWarning, toJsonPointer } from './util'
+
+/**
+ * Output formats defined by the JSON Schema 2020-12 specification
+ * - `flag`: only whether the value is valid
+ * - `basic`: a flat list of errors
+ * - `detailed`: errors nested by the subschemas they were found in
+ * @see https://json-schema.org/draft/2020-12/json-schema-core#name-output-formatting
+ */
+export type OutputFormat = 'flag' | 'basic' | 'detailed'
+
+export interface FlagOutput {
+  valid: boolean
+}
+
+/**
+ * Output unit of a failed keyword (or of a subschema with failed keywords, in the `detailed` format)
+ */
+export interface OutputUnit {
+  valid: boolean
+  /**
+   * JSON pointer to the keyword, following the evaluation path (including `$ref`)
+   * @example
+   * '/properties/address/$ref/properties/street/minLength'
+   */
+  keywordLocation: string
+  /**
+   * Absolute URI of the keyword in the schema where it was declared.
+   * Only present when the evaluation path goes through a `$ref` to a schema with an `$id` (or a registry schema).
+   * @example
+   * 'https://example.com/address.json#/properties/street/minLength'
+   */
+  absoluteKeywordLocation?: string
+  /**
+   * JSON pointer to the invalid value
+   * @example
+   * '/address/street'
+   */
+  instanceLocation: string
+  /**
+   * The error message (only for failed keywords)
+   */
+  error?: string
+  /**
+   * The nested output units (only for subschemas in the `detailed` format)
+   */
+  errors?: OutputUnit[]
+}
+
+export interface BasicOutput {
+  valid: boolean
+  errors?: OutputUnit[]
+}
+
+export interface OutputOptions extends ValidationOptions {
+  /**
+   * The output format
+   * @default 'basic'
+   */
+  format?: OutputFormat
+  /**
+   * Locale of the error messages
+   * @default 'en'
+   */
+  locale?: string
+  /**
+   * Custom error messages, taking precedence over the messages of the locale
+   */
+  messages?: Partial<ErrorMessageCatalog>
+}
+
+/**
+ * Location of a subschema in the evaluation of a value
+ */
+interface SchemaLocation {
+  schema: JsfSchema
+  keyword: string[]
+  instance: ValidationErrorPath
+  absolute?: { uri: string, tokens: string[] }
+}
+
+/**
+ * Keywords with a subschema (or a list of subschemas) applied to the same value
+ */
+const INDEXED_KEYWORDS = ['allOf', 'anyOf', 'oneOf']
+const CONDITIONAL_KEYWORDS = ['then', 'else']
+
+function getChildLocation(
+  location: SchemaLocation,
+  schema: JsfSchema,
+  tokens: string[],
+  instance: ValidationErrorPath = [],
+): SchemaLocation {
+  return {
+    schema,
+    keyword: [...location.keyword, ...tokens],
+    instance: [...location.instance, ...instance],
+    absolute: location.absolute && { uri: location.absolute.uri, tokens: [...location.absolute.tokens, ...tokens] },
+  }
+}
+
+/**
+ * Move from a schema to the subschema referenced by the first segments of an error path
+ * @returns The location of the subschema and the number of path segments consumed, or undefined if the segment is not a subschema
+ */
+function descend(
+  location: SchemaLocation,
+  segments: ValidationErrorPath,
+  resolver: RefResolver,
+): { location: SchemaLocation, consumed: number } | undefined {
+  const { schema } = location
+  if (typeof schema !== 'object') {
+    return undefined
+  }
+
+  const [segment, next] = segments
+  const key = String(segment)
+
+  // The conditionals of the root `x-jsf-logic` schema are validated as if they were declared in the schema itself
+  const logic = schema['x-jsf-logic'] as Record<string, any> | undefined
+  const [container, prefix]: [Record<string, any>, string[]] = key in schema
+    ? [schema, []]
+    : logic && key in logic ? [logic, ['x-jsf-logic']] : [schema, []]
+
+  if (INDEXED_KEYWORDS.includes(key) && typeof next === 'number' && Array.isArray(container[key])) {
+    return { location: getChildLocation(location, container[key][next], [...prefix, key, String(next)]), consumed: 2 }
+  }
+
+  if (CONDITIONAL_KEYWORDS.includes(key) && container[key] !== undefined) {
+    return { location: getChildLocation(location, container[key], [...prefix, key]), consumed: 1 }
+  }
+
+  if (key === 'prefixItems' && typeof next === 'number' && Array.isArray(schema.prefixItems)) {
+    return { location: getChildLocation(location, schema.prefixItems[next] as JsfSchema, [key, String(next)], [next]), consumed: 2 }
+  }
+
+  if ((key === 'items' || key === 'unevaluatedItems') && typeof next === 'number' && schema[key] !== undefined) {
+    return { location: getChildLocation(location, schema[key] as JsfSchema, [key], [next]), consumed: 2 }
+  }
+
+  if (key === 'dependentSchemas' && next !== undefined && schema.dependentSchemas?.[next] !== undefined) {
+    return { location: getChildLocation(location, schema.dependentSchemas[next], [key, String(next)]), consumed: 2 }
+  }
+
+  if (key === '$ref' && typeof schema.$ref === 'string') {
+    const resolved = resolveRef(schema.$ref, getBaseUri(schema, resolver), resolver)
+    return {
+      location: { ...getChildLocation(location, resolved.schema, [key]), absolute: { uri: resolved.uri, tokens: [] } },
+      consumed: 1,
+    }
+  }
+
+  if (schema.properties?.[key] !== undefined) {
+    return { location: getChildLocation(location, schema.properties[key], ['properties', key], [segment]), consumed: 1 }
+  }
+
+  const pattern = Object.keys(schema.patternProperties ?? {}).find(pattern => new RegExp(pattern).test(key))
+  if (pattern) {
+    return { location: getChildLocation(location, schema.patternProperties![pattern] as JsfSchema, ['patternProperties', pattern], [segment]), consumed: 1 }
+  }
+
+  for (const keyword of ['additionalProperties', 'unevaluatedProperties'] as const) {
+    if (schema[keyword] !== undefined) {
+      return { location: getChildLocation(location, schema[keyword] as JsfSchema, [keyword], [segment]), consumed: 1 }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Walk an error path from a schema, returning the locations of the subschemas it goes through.
+ * Errors of a root `anyOf` don't have the `anyOf` keyword in their path, so when the path can't be followed
+ * (or doesn't end in the schema with the error) we look for it in the `anyOf` subschemas.
+ * @param location - The location to walk from
+ * @param segments - The remaining segments of the error path
+ * @param isErrorSchema - Check if a schema is the one with the failed keyword
+ * @param resolver - The reference resolver
+ * @returns The locations of the subschemas, or undefined if the path can't be followed to the schema with the error
+ */
+function walkErrorPath(
+  location: SchemaLocation,
+  segments: ValidationErrorPath,
+  isErrorSchema: (schema: JsfSchema) => boolean,
+  resolver: RefResolver,
+): SchemaLocation[] | undefined {
+  if (segments.length === 0 && isErrorSchema(location.schema)) {
+    return []
+  }
+
+  const step = segments.length > 0 ? descend(location, segments, resolver) : undefined
+  if (step) {
+    const locations = walkErrorPath(step.location, segments.slice(step.consumed), isErrorSchema, resolver)
+    if (locations) {
+      return [step.location, ...locations]
+    }
+  }
+
+  const anyOf: JsfSchema[] = typeof location.schema === 'object' ? location.schema.anyOf ?? [] : []
+  for (const [i, subschema] of anyOf.entries()) {
+    const branch = getChildLocation(location, subschema, ['anyOf', String(i)])
+    const locations = walkErrorPath(branch, segments, isErrorSchema, resolver)
+    if (locations) {
+      return [branch, ...locations]
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Get the locations of an error: the subschemas it goes through, the failed keyword and the invalid value
+ */
+function getErrorLocations(error: ValidationError, root: SchemaLocation, resolver: RefResolver) {
+  const segments = [...error.path]
+  let keyword: string[] = [error.validation]
+  let instance: ValidationErrorPath = []
+  // Some keywords report the error on a property (or item), while the keyword is declared in the parent schema
+  let property: string | number | undefined
+
+  switch (error.validation) {
+    case 'required':
+    case 'dependentRequired':
+      property = segments.pop()
+      break
+    case 'dependentSchemas':
+      property = segments.pop()
+      keyword = ['dependentSchemas', String(property)]
+      break
+    case 'additionalProperties':
+    case 'unevaluatedProperties':
+    case 'propertyNames':
+      property = segments.pop()
+      instance = [property!]
+      break
+    case 'unevaluatedItems':
+      instance = [segments.pop()!]
+      segments.pop()
+      break
+    case 'forbidden':
+      keyword = []
+      break
+    case 'minDate':
+    case 'maxDate':
+    case 'maxFileSize':
+    case 'accept':
+      keyword = ['x-jsf-presentation', error.validation]
+      break
+    case 'fileStructure':
+      keyword = ['x-jsf-presentation', 'inputType']
+      break
+    case 'json-logic':
+      keyword = ['x-jsf-logic-validations']
+      break
+  }
+
+  const isErrorSchema = (schema: JsfSchema) => schema === error.schema
+    || (property !== undefined && typeof schema === 'object' && schema.properties?.[property] === error.schema)
+
+  const steps = walkErrorPath(root, segments, isErrorSchema, resolver)
+    // If the schema with the error can't be found, we keep the path as is
+    ?? [{ ...root, keyword: segments.map(String), instance: segments }]
+  const { keyword: schemaKeyword, instance: schemaInstance, absolute } = steps[steps.length - 1] ?? root
+
+  return {
+    steps,
+    keywordLocation: toJsonPointer([...schemaKeyword, ...keyword]),
+    absoluteKeywordLocation: absolute && getAbsoluteLocation(absolute.uri, [...absolute.tokens, ...keyword]),
+    instanceLocation: toJsonPointer([...schemaInstance, ...instance]),
+  }
+}
+
+/**
+ * Get the absolute location of a keyword in a referenced schema
+ * @returns The absolute location, or undefined if the schema has no URI or was referenced through an anchor
+ */
+function getAbsoluteLocation(uri: string, tokens: string[]): string | undefined {
+  const [base, fragment = ''] = uri.split('#')
+  if (base === DEFAULT_BASE_URI || (fragment && !fragment.startsWith('/'))) {
+    return undefined
+  }
+
+  return `${base}#${fragment}${toJsonPointer(tokens)}`
+}
+
+function getOutputUnit(location: Pick<SchemaLocation, 'keyword' | 'instance' | 'absolute'>): OutputUnit {
+  const absoluteKeywordLocation = location.absolute && getAbsoluteLocation(location.absolute.uri, location.absolute.tokens)
+
+  return {
+    valid: false,
+    keywordLocation: toJsonPointer(location.keyword),
+    ...(absoluteKeywordLocation ? { absoluteKeywordLocation } : {}),
+    instanceLocation: toJsonPointer(location.instance),
+  }
+}
+
+interface OutputNode {
+  unit: OutputUnit
+  children: Map<string, OutputNode>
+}
+
+/**
+ * Convert an output node into an output unit, replacing the subschemas with a single error by that error
+ */
+function toDetailedUnit(node: OutputNode): OutputUnit {
+  const errors = [...node.children.values()].map(toDetailedUnit)
+  if (errors.length === 0) {
+    return node.unit
+  }
+
+  return errors.length === 1 ? errors[0] : { ...node.unit, errors }
+}
+
+/**
+ * Validate a value against a schema, returning the result in one of the JSON Schema 2020-12 output formats
+ * @param value - The value to validate
+ * @param schema - The schema to validate against
+ * @param options - The validation options, including the output format
+ * @returns The validation output
+ * @description
+ * The output is built from the validation errors of `validateSchema`: the keyword location is the path
+ * of the failed keyword in the schema (following `$ref`), and the instance location is the path of the invalid value.
+ * Error messages are the same as the ones in the forms (including `x-jsf-errorMessage`).
+ * Warnings (validations with the `warning` severity) don't make the value invalid and are left out of the output.
+ *
+ * @example
+ * ```ts
+ * getValidationOutput({ name: 'J' }, schema, { format: 'basic' })
+ * // {
+ * //   valid: false,
+ * //   errors: [{
+ * //     valid: false,
+ * //     keywordLocation: '/properties/name/minLength',
+ * //     instanceLocation: '/name',
+ * //     error: 'Please insert at least 3 characters',
+ * //   }],
+ * // }
+ * ```
+ */
+export function getValidationOutput(value: SchemaValue, schema: JsfSchema, options: OutputOptions & { format: 'flag' }): FlagOutput
+export function getValidationOutput(value: SchemaValue, schema: JsfSchema, options: OutputOptions & { format: 'detailed' }): OutputUnit
+export function getValidationOutput(value: SchemaValue, schema: JsfSchema, options?: OutputOptions & { format?: 'basic' }): BasicOutput
+export function getValidationOutput(value: SchemaValue, schema: JsfSchema, options?: OutputOptions): FlagOutput | BasicOutput | OutputUnit
+export function getValidationOutput(
+  value: SchemaValue,
+  schema: JsfSchema,
+  options: OutputOptions = {},
+): FlagOutput | BasicOutput | OutputUnit {
+  const { format = 'basic', locale, messages: customMessages, ...validationOptions } = options
+  const resolver = validationOptions.refResolver ?? createRefResolver(schema, validationOptions.schemaRegistry)
+  // Warnings don't make the value invalid, so they are not part of the output
+  const errors = validateSchema(value, schema, { ...validationOptions, refResolver: resolver }).filter(error => !isWarning(error))
+  const valid = errors.length === 0
+
+  if (format === 'flag') {
+    return { valid }
+  }
+
+  const messages = getMessageCatalog(locale, {
+    ...getCustomFormatMessages(validationOptions.customFormats),
+    ...getCustomKeywordMessages(validationOptions.customKeywords),
+    ...customMessages,
+  })
+  const root: SchemaLocation = { schema, keyword: [], instance: [] }
+  const detailedRoot: OutputNode = { unit: { valid, keywordLocation: '', instanceLocation: '' }, children: new Map() }
+  const units: OutputUnit[] = []
+
+  for (const error of errors) {
+    const errorSchema = error.schema as NonBooleanJsfSchema
+    const { steps, ...locations } = getErrorLocations(error, root, resolver)
+    const unit: OutputUnit = {
+      valid: false,
+      keywordLocation: locations.keywordLocation,
+      ...(locations.absoluteKeywordLocation ? { absoluteKeywordLocation: locations.absoluteKeywordLocation } : {}),
+      instanceLocation: locations.instanceLocation,
+      error: getSchemaErrorMessage(errorSchema, error.validation)?.message
+        ?? getErrorMessage(errorSchema, error.value, error.validation, error.customErrorMessage, messages),
+    }
+    units.push(unit)
+
+    // Nest the error in the subschemas it was found in
+    let node = detailedRoot
+    for (const step of steps) {
+      const stepUnit = getOutputUnit(step)
+      const key = `${stepUnit.keywordLocation} ${stepUnit.instanceLocation}`
+      if (!node.children.has(key)) {
+        node.children.set(key, { unit: stepUnit, children: new Map() })
+      }
+      node = node.children.get(key)!
+    }
+    node.children.set(`${unit.keywordLocation} ${unit.instanceLocation} ${node.children.size}`, { unit, children: new Map() })
+  }
+
+  if (format === 'detailed') {
+    return valid ? detailedRoot.unit : { ...detailedRoot.unit, errors: [...detailedRoot.children.values()].map(toDetailedUnit) }
+  }
+
+  return valid ? { valid } : { valid, errors: units }
+}
@@ -0,0 +1,199 @@
+import type { ValidationError, ValidationErrorPath } from '../errors'
+import type { JsfSchema, JsonLogicContext, NonBooleanJsfSchema, SchemaValue } from '../types'
+import type { ValidationOptions } from './schema'
+import { evaluateIfCondition } from './conditions'
+import { getJsonLogicContextFromSchema } from './json-logic'
+import { createRefResolver } from './ref'
+import { validateSchema } from './schema'
+import { hasProperty, isMissingValue, isObjectValue } from './util'
+
+/**
+ * A subschema applied to a value, with the validation error path it's applied at
+ */
+interface AppliedSchema {
+  schema: JsfSchema
+  path: ValidationErrorPath
+}
+
+/**
+ * Validate only the values at some paths of a value, against their subschemas.
+ * The subschemas are found through `properties`, `patternProperties`, `additionalProperties`, `prefixItems` and `items`,
+ * including the ones of the `allOf`, `if/then/else` and `dependentSchemas` subschemas that apply to the value.
+ * The `required`, `dependentRequired` and `additionalProperties: false` constraints of the parent objects are checked
+ * for the properties on the paths, while the other constraints of the parent objects (e.g. `anyOf` or `unevaluatedProperties`)
+ * are not checked.
+ * @param value - The value to validate
+ * @param schema - The (root) schema to validate against
+ * @param paths - The paths to validate, as property names and array indices (a path includes its nested values)
+ * @param options - The validation options
+ * @returns The validation errors, with the same paths as `validateSchema`
+ */
+export function validateSchemaPaths(
+  value: SchemaValue,
+  schema: NonBooleanJsfSchema,
+  paths: Array<Array<string | number>>,
+  options: ValidationOptions = {},
+): ValidationError[] {
+  const pathOptions = { ...options, refResolver: options.refResolver ?? createRefResolver(schema, options.schemaRegistry) }
+  const jsonLogicContext = schema['x-jsf-logic'] ? getJsonLogicContextFromSchema(schema['x-jsf-logic'], value) : undefined
+  const segments = paths.map(path => path.map(String))
+
+  // Nested paths of other paths are validated with them
+  const validatedPaths = segments.filter((path, index) => !segments.some((other, otherIndex) =>
+    otherIndex !== index
+    && other.length <= path.length
+    && other.every((segment, i) => path[i] === segment)
+    && (other.length < path.length || otherIndex < index),
+  ))
+
+  return validatedPaths.flatMap(path => validatePath(value, [{ schema, path: [] }], path, pathOptions, jsonLogicContext))
+}
+
+function validatePath(
+  value: SchemaValue,
+  appliedSchemas: AppliedSchema[],
+  segments: string[],
+  options: ValidationOptions,
+  jsonLogicContext: JsonLogicContext | undefined,
+): ValidationError[] {
+  if (segments.length === 0) {
+    return appliedSchemas.flatMap(({ schema, path }) => validateSchema(value, schema, options, path, jsonLogicContext))
+  }
+
+  const [segment, ...rest] = segments
+  const schemas = appliedSchemas.flatMap(applied => getAppliedSchemas(value, applied, options, jsonLogicContext))
+
+  if (Array.isArray(value)) {
+    const index = Number(segment)
+    if (!Number.isInteger(index)) {
+      return []
+    }
+
+    return validatePath(value[index], schemas.flatMap(({ schema, path }) => getItemSchema(schema, path, index)), rest, options, jsonLogicContext)
+  }
+
+  return [
+    ...schemas.flatMap(({ schema, path }) => validatePropertyPresence(value, schema, segment, options, path)),
+    ...validatePath(
+      isObjectValue(value) ? value[segment] : undefined,
+      schemas.flatMap(({ schema, path }) => getPropertySchemas(schema, path, segment)),
+      rest,
+      options,
+      jsonLogicContext,
+    ),
+  ]
+}
+
+/**
+ * Get a subschema and the in-place subschemas that apply to a value along with it
+ * (`allOf`, the `then`/`else` branch of its condition, triggered `dependentSchemas` and the root `x-jsf-logic` schema)
+ */
+function getAppliedSchemas(
+  value: SchemaValue,
+  { schema, path }: AppliedSchema,
+  options: ValidationOptions,
+  jsonLogicContext: JsonLogicContext | undefined,
+): AppliedSchema[] {
+  if (typeof schema === 'boolean') {
+    return [{ schema, path }]
+  }
+
+  const nested: AppliedSchema[] = []
+
+  schema.allOf?.forEach((subschema, index) => nested.push({ schema: subschema as JsfSchema, path: [...path, 'allOf', index] }))
+
+  if (schema.if !== undefined) {
+    const branch = evaluateIfCondition(value, schema.if, options, jsonLogicContext, path) ? 'then' : 'else'
+    if (schema[branch] !== undefined) {
+      nested.push({ schema: schema[branch], path: [...path, branch] })
+    }
+  }
+
+  if (isObjectValue(value)) {
+    for (const [key, dependentSchema] of Object.entries(schema.dependentSchemas ?? {})) {
+      if (hasProperty(value, key, options.treatNullAsUndefined)) {
+        nested.push({ schema: dependentSchema as JsfSchema, path: [...path, 'dependentSchemas', key] })
+      }
+    }
+  }
+
+  if (path.length === 0 && schema['x-jsf-logic']) {
+    const { validations, computedValues, ...logicSchema } = schema['x-jsf-logic']
+    nested.push({ schema: logicSchema, path })
+  }
+
+  return [{ schema, path }, ...nested.flatMap(applied => getAppliedSchemas(value, applied, options, jsonLogicContext))]
+}
+
+/**
+ * Check the constraints of an object schema on the presence of one of its properties
+ */
+function validatePropertyPresence(
+  value: SchemaValue,
+  schema: JsfSchema,
+  key: string,
+  options: ValidationOptions,
+  path: ValidationErrorPath,
+): ValidationError[] {
+  if (typeof schema === 'boolean' || !isObjectValue(value)) {
+    return []
+  }
+
+  const errors: ValidationError[] = []
+  const isMissing = isMissingValue(value[key], options.treatNullAsUndefined)
+
+  if (isMissing && schema.required?.includes(key)) {
+    errors.push({ path: [...path, key], validation: 'required', schema: schema.properties?.[key] || schema, value })
+  }
+
+  const isDependency = Object.entries(schema.dependentRequired ?? {})
+    .some(([trigger, dependencies]) => dependencies.includes(key) && hasProperty(value, trigger, options.treatNullAsUndefined))
+  if (isMissing && isDependency) {
+    errors.push({ path: [...path, key], validation: 'dependentRequired', schema: schema.properties?.[key] || schema, value })
+  }
+
+  if (schema.additionalProperties === false && Object.hasOwn(value, key) && getPropertySchemas(schema, path, key).length === 0) {
+    errors.push({ path: [...path, key], validation: 'additionalProperties', schema, value: value[key] })
+  }
+
+  return errors
+}
+
+/**
+ * Get the subschemas of a property of an object schema (`properties`, matching `patternProperties` or `additionalProperties`)
+ */
+function getPropertySchemas(schema: JsfSchema, path: ValidationErrorPath, key: string): AppliedSchema[] {
+  if (typeof schema === 'boolean') {
+    return []
+  }
+
+  const propertyPath = [...path, key]
+  const schemas: AppliedSchema[] = Object.entries(schema.patternProperties ?? {})
+    .filter(([pattern]) => new RegExp(pattern).test(key))
+    .map(([, patternSchema]) => ({ schema: patternSchema as JsfSchema, path: propertyPath }))
+
+  if (schema.properties && Object.hasOwn(schema.properties, key)) {
+    schemas.unshift({ schema: schema.properties[key], path: propertyPath })
+  }
+
+  if (schemas.length === 0 && schema.additionalProperties !== undefined && schema.additionalProperties !== false) {
+    schemas.push({ schema: schema.additionalProperties as JsfSchema, path: propertyPath })
+  }
+
+  return schemas
+}
+
+/**
+ * Get the subschema of an item of an array schema (`prefixItems` or `items`)
+ */
+function getItemSchema(schema: JsfSchema, path: ValidationErrorPath, index: number): AppliedSchema[] {
+  if (typeof schema === 'boolean') {
+    return []
+  }
+
+  if (Array.isArray(schema.prefixItems) && index < schema.prefixItems.length) {
+    return [{ schema: schema.prefixItems[index] as JsfSchema, path: [...path, 'prefixItems', index] }]
+  }
+
+  return schema.items === undefined ? [] : [{ schema: schema.items, path: [...path, 'items', index] }]
+}
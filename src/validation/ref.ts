@@ -0,0 +1,631 @@
+import type { ValidationError, ValidationErrorPath } from '../errors'
+import type { JsfSchema, JsonLogicContext, JsonLogicSchema, NonBooleanJsfSchema, SchemaRegistry, SchemaValue } from '../types'
+import type { ValidationOptions } from './schema'
+import { validateSchema } from './schema'
+
+/**
+ * Base URI used for schemas that don't declare an `$id`.
+ * It only exists so relative references can be resolved with the URL API.
+ */
+export const DEFAULT_BASE_URI = 'jsf:///root.json'
+
+/**
+ * Keywords holding a map of subschemas (e.g. `properties`)
+ */
+const SCHEMA_MAP_KEYWORDS = ['$defs', 'definitions', 'properties', 'patternProperties', 'dependentSchemas'] as const
+
+/**
+ * Keywords holding a list of subschemas (e.g. `allOf`)
+ */
+const SCHEMA_ARRAY_KEYWORDS = ['allOf', 'anyOf', 'oneOf', 'prefixItems'] as const
+
+/**
+ * Keywords holding a single subschema (e.g. `items`).
+ * `x-jsf-logic` is included as it can hold conditional schemas (if/then/else, allOf, etc.)
+ */
+const SCHEMA_KEYWORDS = [
+  'items',
+  'additionalProperties',
+  'unevaluatedProperties',
+  'unevaluatedItems',
+  'contains',
+  'propertyNames',
+  'not',
+  'if',
+  'then',
+  'else',
+  'x-jsf-logic',
+] as const
+
+/**
+ * Resolver used to dereference `$ref` keywords against a root schema.
+ */
+export interface RefResolver {
+  /**
+   * The base URI of the root schema
+   */
+  rootBaseUri: string
+  /**
+   * Schema resources, indexed by their absolute URI (`$id`) or by their URI and anchor name (`$anchor`)
+   */
+  resources: Map<string, JsfSchema>
+  /**
+   * The base URI each (indexed) subschema is evaluated against
+   */
+  baseUris: WeakMap<NonBooleanJsfSchema, string>
+  /**
+   * The values being validated against each referenced schema, used to detect cycles
+   */
+  activeRefs: Map<NonBooleanJsfSchema, SchemaValue[]>
+  /**
+   * Registry used to look up external schemas (documents not embedded in the root schema)
+   */
+  schemaRegistry?: SchemaRegistry
+}
+
+/**
+ * Resolve a URI reference against a base URI
+ * @param reference - The URI reference (e.g. `#/$defs/address` or `address.json`)
+ * @param baseUri - The base URI to resolve against
+ * @returns The absolute URI
+ */
+function resolveUri(reference: string, baseUri: string): URL {
+  try {
+    return new URL(reference, baseUri)
+  }
+  catch {
+    throw new Error(`[json-schema-form] Invalid $ref "${reference}"`)
+  }
+}
+
+/**
+ * Get the absolute URI of a document, without fragment
+ */
+function withoutFragment(uri: URL): string {
+  const copy = new URL(uri.href)
+  copy.hash = ''
+  return copy.href
+}
+
+/**
+ * Calls `callback` for every direct subschema of a schema
+ * @param schema - The schema to walk
+ * @param callback - Function called with each subschema
+ */
+function forEachSubschema(schema: NonBooleanJsfSchema, callback: (subschema: JsfSchema) => void) {
+  const record = schema as Record<string, unknown>
+
+  for (const keyword of SCHEMA_MAP_KEYWORDS) {
+    const value = record[keyword]
+    if (value && typeof value === 'object') {
+      Object.values(value as Record<string, JsfSchema>).forEach(callback)
+    }
+  }
+
+  for (const keyword of SCHEMA_ARRAY_KEYWORDS) {
+    const value = record[keyword]
+    if (Array.isArray(value)) {
+      value.forEach(callback)
+    }
+  }
+
+  for (const keyword of SCHEMA_KEYWORDS) {
+    const value = record[keyword]
+    if (value !== undefined && (typeof value === 'boolean' || typeof value === 'object')) {
+      callback(value as JsfSchema)
+    }
+  }
+}
+
+/**
+ * Index a schema resource (and all of its subschemas), registering `$id` and `$anchor` identifiers
+ * @param schema - The schema to index
+ * @param baseUri - The base URI of the parent schema
+ * @param resolver - The resolver to register the identifiers in
+ */
+function indexSchema(schema: JsfSchema, baseUri: string, resolver: RefResolver) {
+  if (typeof schema !== 'object' || schema === null || resolver.baseUris.has(schema)) {
+    return
+  }
+
+  let currentBaseUri = baseUri
+  if (typeof schema.$id === 'string') {
+    currentBaseUri = withoutFragment(resolveUri(schema.$id, baseUri))
+    resolver.resources.set(currentBaseUri, schema)
+  }
+
+  resolver.baseUris.set(schema, currentBaseUri)
+
+  // A $dynamicAnchor behaves like a regular $anchor when referenced with $ref
+  for (const anchor of [schema.$anchor, schema.$dynamicAnchor]) {
+    if (typeof anchor === 'string' && !resolver.resources.has(`${currentBaseUri}#${anchor}`)) {
+      resolver.resources.set(`${currentBaseUri}#${anchor}`, schema)
+    }
+  }
+
+  forEachSubschema(schema, subschema => indexSchema(subschema, currentBaseUri, resolver))
+}
+
+/**
+ * Normalize a URI so URIs registered in a schema registry can be compared with resolved URIs
+ */
+function normalizeUri(uri: string): string {
+  return withoutFragment(resolveUri(uri, DEFAULT_BASE_URI))
+}
+
+/**
+ * Look up an external schema in a schema registry
+ * @param schemaRegistry - The schema registry
+ * @param documentUri - The absolute URI of the document (without fragment)
+ * @returns The registered schema, or undefined if it's not registered
+ */
+function getRegisteredSchema(schemaRegistry: SchemaRegistry | undefined, documentUri: string): JsfSchema | undefined {
+  if (!schemaRegistry) {
+    return undefined
+  }
+
+  if (typeof schemaRegistry === 'function') {
+    return schemaRegistry(documentUri)
+  }
+
+  const entries = schemaRegistry instanceof Map ? [...schemaRegistry.entries()] : Object.entries(schemaRegistry)
+  return entries.find(([uri]) => uri === documentUri || normalizeUri(uri) === documentUri)?.[1]
+}
+
+/**
+ * Register an external document in a resolver, so its identifiers can be referenced
+ * @param resolver - The resolver
+ * @param documentUri - The absolute URI the document was retrieved from
+ * @param document - The document
+ */
+function registerDocument(resolver: RefResolver, documentUri: string, document: JsfSchema) {
+  resolver.resources.set(documentUri, document)
+  indexSchema(document, documentUri, resolver)
+}
+
+/**
+ * Get a document by its absolute URI, looking it up in the schema registry if it's not embedded in the root schema
+ * @param resolver - The resolver
+ * @param documentUri - The absolute URI of the document (without fragment)
+ * @returns The document, or undefined if it's unknown
+ */
+function getDocument(resolver: RefResolver, documentUri: string): JsfSchema | undefined {
+  const document = resolver.resources.get(documentUri)
+  if (document !== undefined) {
+    return document
+  }
+
+  const registeredSchema = getRegisteredSchema(resolver.schemaRegistry, documentUri)
+  if (registeredSchema !== undefined) {
+    registerDocument(resolver, documentUri, registeredSchema)
+  }
+
+  return registeredSchema
+}
+
+/**
+ * Create a resolver for all the references in a schema
+ * @param schema - The root schema
+ * @param schemaRegistry - Registry of external schemas (referenced by their URI)
+ * @returns The resolver
+ */
+export function createRefResolver(schema: JsfSchema, schemaRegistry?: SchemaRegistry): RefResolver {
+  const resolver: RefResolver = {
+    rootBaseUri: DEFAULT_BASE_URI,
+    resources: new Map(),
+    baseUris: new WeakMap(),
+    activeRefs: new Map(),
+    schemaRegistry,
+  }
+
+  if (typeof schema === 'object' && typeof schema.$id === 'string') {
+    resolver.rootBaseUri = withoutFragment(resolveUri(schema.$id, DEFAULT_BASE_URI))
+  }
+
+  resolver.resources.set(DEFAULT_BASE_URI, schema)
+  resolver.resources.set(resolver.rootBaseUri, schema)
+  indexSchema(schema, DEFAULT_BASE_URI, resolver)
+
+  return resolver
+}
+
+/**
+ * Get the base URI a schema is evaluated against
+ * @param schema - The schema
+ * @param resolver - The resolver the schema was indexed in
+ * @returns The base URI (defaults to the root base URI for schemas not indexed)
+ */
+export function getBaseUri(schema: JsfSchema, resolver: RefResolver): string {
+  if (typeof schema !== 'object') {
+    return resolver.rootBaseUri
+  }
+
+  return resolver.baseUris.get(schema) ?? resolver.rootBaseUri
+}
+
+/**
+ * Walk a JSON pointer (as used in URI fragments) inside a schema
+ * @param schema - The schema to walk
+ * @param pointer - The JSON pointer, already URI-decoded (e.g. `/$defs/address`)
+ * @param baseUri - The base URI of the schema
+ * @returns The schema the pointer points to and its base URI, or undefined if it does not exist
+ */
+function walkJsonPointer(schema: JsfSchema, pointer: string, baseUri: string): { schema: JsfSchema, baseUri: string } | undefined {
+  let current: unknown = schema
+  let currentBaseUri = baseUri
+
+  const tokens = pointer.split('/').slice(1).map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+
+  for (const token of tokens) {
+    if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, token)) {
+      return undefined
+    }
+
+    current = (current as Record<string, unknown>)[token]
+
+    if (current && typeof current === 'object' && typeof (current as NonBooleanJsfSchema).$id === 'string') {
+      currentBaseUri = withoutFragment(resolveUri((current as NonBooleanJsfSchema).$id!, currentBaseUri))
+    }
+  }
+
+  if (typeof current !== 'boolean' && (current === null || typeof current !== 'object')) {
+    return undefined
+  }
+
+  return { schema: current as JsfSchema, baseUri: currentBaseUri }
+}
+
+/**
+ * Resolve a `$ref` value to the schema it references
+ * @param ref - The `$ref` value (e.g. `#/$defs/address`, `#address` or `address.json`)
+ * @param baseUri - The base URI of the schema containing the `$ref`
+ * @param resolver - The resolver
+ * @returns The referenced schema, its base URI and the absolute URI of the reference
+ * @throws If the reference can't be resolved
+ */
+export function resolveRef(ref: string, baseUri: string, resolver: RefResolver): { schema: JsfSchema, baseUri: string, uri: string } {
+  const uri = resolveUri(ref, baseUri)
+  const documentUri = withoutFragment(uri)
+  const fragment = decodeURIComponent(uri.hash.slice(1))
+
+  const document = getDocument(resolver, documentUri)
+  if (document === undefined) {
+    throw new Error(`[json-schema-form] Could not resolve $ref "${ref}": no schema registered for "${documentUri}"`)
+  }
+
+  // Location-independent identifier (`$anchor`)
+  if (fragment !== '' && !fragment.startsWith('/')) {
+    const anchoredSchema = resolver.resources.get(`${documentUri}#${fragment}`)
+    if (anchoredSchema === undefined) {
+      throw new Error(`[json-schema-form] Could not resolve $ref "${ref}": anchor "${fragment}" does not exist`)
+    }
+
+    return { schema: anchoredSchema, baseUri: getBaseUri(anchoredSchema, resolver), uri: uri.href }
+  }
+
+  const result = walkJsonPointer(document, fragment, getBaseUri(document, resolver))
+  if (!result) {
+    throw new Error(`[json-schema-form] Could not resolve $ref "${ref}": "${fragment}" does not exist`)
+  }
+
+  if (typeof result.schema === 'object') {
+    // Subschemas reached through unknown keywords were not indexed, so we index them now
+    indexSchema(result.schema, result.baseUri, resolver)
+  }
+
+  return { ...result, uri: uri.href }
+}
+
+/**
+ * Validate a value against the `$ref` keyword in a schema.
+ * The referenced schema is applied to the same value, alongside the other keywords of the schema.
+ * @param value - The value to validate
+ * @param schema - The schema to validate against
+ * @param options - The validation options (containing the reference resolver)
+ * @param jsonLogicContext - The JSON Logic context
+ * @param path - The path to the current field being validated
+ * @returns An array of validation errors
+ * @description
+ * Recursive schemas (e.g. a tree where each node references the root schema) are supported.
+ * If the same referenced schema is already being applied to the same value, it means the reference
+ * is circular and would never end, so we skip it: the outer evaluation already applies its constraints.
+ */
+export function validateRef(
+  value: SchemaValue,
+  schema: NonBooleanJsfSchema,
+  options: ValidationOptions,
+  jsonLogicContext: JsonLogicContext | undefined,
+  path: ValidationErrorPath = [],
+): ValidationError[] {
+  if (typeof schema.$ref !== 'string') {
+    return []
+  }
+
+  // The resolver is created by `validateSchema` when validating the root schema
+  if (!options.refResolver) {
+    return validateRef(value, schema, { ...options, refResolver: createRefResolver(schema, options.schemaRegistry) }, jsonLogicContext, path)
+  }
+
+  const resolver = options.refResolver
+  const { schema: referencedSchema } = resolveRef(schema.$ref, getBaseUri(schema, resolver), resolver)
+
+  if (typeof referencedSchema === 'boolean') {
+    return validateSchema(value, referencedSchema, options, [...path, '$ref'], jsonLogicContext)
+  }
+
+  const activeValues = resolver.activeRefs.get(referencedSchema) ?? []
+  if (activeValues.includes(value)) {
+    return []
+  }
+
+  resolver.activeRefs.set(referencedSchema, [...activeValues, value])
+  try {
+    return validateSchema(value, referencedSchema, options, [...path, '$ref'], jsonLogicContext)
+  }
+  finally {
+    resolver.activeRefs.set(referencedSchema, activeValues)
+  }
+}
+
+/**
+ * Keywords that don't validate the value: annotations, identifiers and definitions.
+ * The `x-jsf-*` extensions are annotations of the field too.
+ */
+const ANNOTATION_KEYWORDS = new Set([
+  'title',
+  'description',
+  'default',
+  'examples',
+  'deprecated',
+  'readOnly',
+  'writeOnly',
+  '$comment',
+  '$id',
+  '$anchor',
+  '$dynamicAnchor',
+  '$schema',
+  '$defs',
+  'definitions',
+])
+
+function isAnnotationKeyword(keyword: string): boolean {
+  return ANNOTATION_KEYWORDS.has(keyword) || keyword.startsWith('x-jsf-')
+}
+
+/**
+ * Combine a referenced schema with the keywords declared next to the `$ref`.
+ * As in JSON Schema 2020-12, `$ref` is an applicator: the referenced schema and the sibling keywords are
+ * evaluated separately (e.g. an `additionalProperties: false` of the referenced schema doesn't allow
+ * the sibling `properties`, and conflicting keywords both apply).
+ * - Sibling annotations (`title`, `x-jsf-presentation`, etc.) take precedence over the ones of the referenced schema,
+ *   so fields can customize a shared definition.
+ * - Sibling `required` properties, and sibling `properties` that can't change the result of the referenced schema,
+ *   are combined with the ones of the referenced schema, so they're fields of the form.
+ * - The other sibling keywords are added as an `allOf` entry of the referenced schema.
+ * - A sibling `x-jsf-logic` is combined with the one of the referenced schema (see `mergeJsonLogic`).
+ * @param referencedSchema - The (dereferenced) referenced schema
+ * @param siblings - The (dereferenced) keywords declared next to the `$ref`
+ * @returns The combined schema
+ */
+function mergeRefSiblings(referencedSchema: JsfSchema, siblings: NonBooleanJsfSchema): JsfSchema {
+  if (Object.keys(siblings).length === 0) {
+    return referencedSchema
+  }
+
+  if (typeof referencedSchema === 'boolean') {
+    return referencedSchema ? siblings : false
+  }
+
+  const entries = Object.entries(siblings)
+  const annotations = Object.fromEntries(entries.filter(([keyword]) => isAnnotationKeyword(keyword)))
+  const { required, properties, ...otherAssertions } = Object.fromEntries(entries.filter(([keyword]) => !isAnnotationKeyword(keyword))) as NonBooleanJsfSchema
+  const assertions: NonBooleanJsfSchema = otherAssertions
+  const merged: NonBooleanJsfSchema = { ...referencedSchema, ...annotations }
+
+  if (referencedSchema['x-jsf-logic'] && siblings['x-jsf-logic']) {
+    merged['x-jsf-logic'] = mergeJsonLogic(referencedSchema['x-jsf-logic'], siblings['x-jsf-logic'])
+  }
+
+  // `required` doesn't depend on the other keywords, so it's the same to combine it
+  if (required) {
+    merged.required = [...new Set([...(referencedSchema.required ?? []), ...required])]
+  }
+
+  // Declaring new properties in the referenced schema doesn't change the result (unless the additional properties
+  // are restricted), and it makes them fields of the form
+  const hasSharedProperties = Object.keys(properties ?? {}).some(key => Object.hasOwn(referencedSchema.properties ?? {}, key))
+  const restrictsProperties = [referencedSchema, siblings].some(schema =>
+    schema.additionalProperties !== undefined || schema.unevaluatedProperties !== undefined)
+  if (properties && !hasSharedProperties && !restrictsProperties) {
+    merged.properties = { ...referencedSchema.properties, ...properties }
+  }
+  else if (properties) {
+    assertions.properties = properties
+  }
+
+  if (Object.keys(assertions).length > 0) {
+    merged.allOf = [...(referencedSchema.allOf ?? []), assertions]
+  }
+
+  return merged
+}
+
+/**
+ * Combine the `x-jsf-logic` of a referenced schema with the one declared next to the `$ref`.
+ * Only the first `x-jsf-logic` of a schema is evaluated, so the sibling one can't be added as an `allOf` entry:
+ * the validations and computed values of both can be used (the sibling ones take precedence on the same name),
+ * and the conditional schemas of both apply.
+ * @param referencedLogic - The `x-jsf-logic` of the referenced schema
+ * @param siblingLogic - The `x-jsf-logic` declared next to the `$ref`
+ * @returns The combined `x-jsf-logic`
+ */
+function mergeJsonLogic(referencedLogic: JsonLogicSchema, siblingLogic: JsonLogicSchema): JsonLogicSchema {
+  const { validations, computedValues, ...referencedConditions } = referencedLogic
+  const { validations: siblingValidations, computedValues: siblingComputedValues, ...siblingConditions } = siblingLogic
+  const merged: JsonLogicSchema = {}
+
+  if (validations || siblingValidations) {
+    merged.validations = { ...validations, ...siblingValidations }
+  }
+
+  if (computedValues || siblingComputedValues) {
+    merged.computedValues = { ...computedValues, ...siblingComputedValues }
+  }
+
+  const conditions = [referencedConditions, siblingConditions].filter(schema => Object.keys(schema).length > 0)
+  if (conditions.length > 0) {
+    merged.allOf = conditions
+  }
+
+  return merged
+}
+
+/**
+ * Dereference a schema node and all its subschemas
+ * @param schema - The schema to dereference
+ * @param baseUri - The base URI of the parent schema
+ * @param resolver - The resolver
+ * @param stack - The referenced schemas currently being inlined (used to detect cycles)
+ * @returns The dereferenced schema
+ */
+function dereferenceNode(schema: JsfSchema, baseUri: string, resolver: RefResolver, stack: JsfSchema[]): JsfSchema {
+  if (typeof schema !== 'object' || schema === null) {
+    return schema
+  }
+
+  const currentBaseUri = typeof schema.$id === 'string' ? withoutFragment(resolveUri(schema.$id, baseUri)) : baseUri
+  const { $ref, ...rest } = schema
+  const record = rest as Record<string, unknown>
+  const result: Record<string, unknown> = { ...record }
+
+  for (const keyword of SCHEMA_MAP_KEYWORDS) {
+    const value = record[keyword]
+    if (value && typeof value === 'object') {
+      result[keyword] = Object.fromEntries(
+        Object.entries(value as Record<string, JsfSchema>).map(([key, subschema]) => [
+          key,
+          dereferenceNode(subschema, currentBaseUri, resolver, stack),
+        ]),
+      )
+    }
+  }
+
+  for (const keyword of SCHEMA_ARRAY_KEYWORDS) {
+    const value = record[keyword]
+    if (Array.isArray(value)) {
+      result[keyword] = value.map(subschema => dereferenceNode(subschema, currentBaseUri, resolver, stack))
+    }
+  }
+
+  for (const keyword of SCHEMA_KEYWORDS) {
+    const value = record[keyword]
+    if (value !== undefined && value !== null && typeof value === 'object') {
+      result[keyword] = dereferenceNode(value as JsfSchema, currentBaseUri, resolver, stack)
+    }
+  }
+
+  if (typeof $ref !== 'string') {
+    return result as JsfSchema
+  }
+
+  const referenced = resolveRef($ref, currentBaseUri, resolver)
+
+  // Recursive reference: keep it as an (absolute) $ref, so it's resolved lazily when validating
+  if (stack.includes(referenced.schema)) {
+    return { ...result, $ref: referenced.uri } as JsfSchema
+  }
+
+  const referencedSchema = dereferenceNode(referenced.schema, referenced.baseUri, resolver, [...stack, referenced.schema])
+
+  return mergeRefSiblings(referencedSchema, result as NonBooleanJsfSchema)
+}
+
+/**
+ * Creates a new version of the schema with all `$ref` keywords replaced by the schema they reference.
+ * This way, the schema can be used as is to calculate the final schema and to build the fields.
+ * @param schema - The schema to dereference
+ * @param schemaRegistry - Registry of external schemas (referenced by their URI)
+ * @returns The dereferenced schema
+ * @description
+ * - Local references (`#/$defs/...`), anchors (`#name`) and references to embedded resources (`$id`) are supported.
+ * - References to other documents are looked up in the schema registry.
+ * - Keywords next to a `$ref` are applied alongside the referenced schema (see `mergeRefSiblings`).
+ * - Recursive references (e.g. an org tree) are kept as absolute `$ref`s and resolved lazily during validation,
+ *   as inlining them would never end.
+ * - Non-schema values (e.g. `x-jsf-presentation`) are kept by reference, so non-serializable values are preserved.
+ */
+export function dereferenceSchema<T extends JsfSchema>(schema: T, schemaRegistry?: SchemaRegistry): T {
+  if (typeof schema !== 'object' || schema === null) {
+    return schema
+  }
+
+  const resolver = createRefResolver(schema, schemaRegistry)
+
+  return dereferenceNode(schema, DEFAULT_BASE_URI, resolver, [schema]) as T
+}
+
+/**
+ * Collect the absolute URIs of all documents referenced (`$ref`) by a schema
+ * @param schema - The schema to walk
+ * @param baseUri - The base URI of the schema
+ * @param uris - The set the URIs are added to
+ */
+function collectReferencedDocuments(schema: JsfSchema, baseUri: string, uris: Set<string>) {
+  if (typeof schema !== 'object' || schema === null) {
+    return
+  }
+
+  const currentBaseUri = typeof schema.$id === 'string' ? withoutFragment(resolveUri(schema.$id, baseUri)) : baseUri
+
+  if (typeof schema.$ref === 'string') {
+    uris.add(withoutFragment(resolveUri(schema.$ref, currentBaseUri)))
+  }
+
+  forEachSubschema(schema, subschema => collectReferencedDocuments(subschema, currentBaseUri, uris))
+}
+
+/**
+ * Load all the external schemas referenced by a schema (and by the schemas it references), using an async resolver.
+ * The result can be used as the `schemaRegistry` option, as resolving references while validating is synchronous.
+ * @param schema - The root schema
+ * @param resolve - Function returning (or resolving to) the schema for a given absolute URI
+ * @returns A schema registry with all the referenced external schemas
+ * @throws If the resolver doesn't return a schema for any of the referenced URIs
+ *
+ * @example
+ * ```ts
+ * const schemaRegistry = await loadSchemaRegistry(schema, uri => schemasService.get(uri))
+ * const form = createHeadlessForm(schema, { schemaRegistry })
+ * ```
+ */
+export async function loadSchemaRegistry(
+  schema: JsfSchema,
+  resolve: (uri: string) => JsfSchema | undefined | Promise<JsfSchema | undefined>,
+): Promise<Record<string, JsfSchema>> {
+  const schemaRegistry: Record<string, JsfSchema> = {}
+  const resolver = createRefResolver(schema)
+  const documents: JsfSchema[] = [schema]
+
+  while (documents.length > 0) {
+    const document = documents.shift()!
+    const uris = new Set<string>()
+    collectReferencedDocuments(document, getBaseUri(document, resolver), uris)
+
+    for (const uri of uris) {
+      if (resolver.resources.has(uri)) {
+        continue
+      }
+
+      const externalSchema = await resolve(uri)
+      if (externalSchema === undefined) {
+        throw new Error(`[json-schema-form] Could not load schema "${uri}"`)
+      }
+
+      schemaRegistry[uri] = externalSchema
+      registerDocument(resolver, uri, externalSchema)
+      documents.push(externalSchema)
+    }
+  }
+
+  return schemaRegistry
+}
@@ -1,17 +1,23 @@
 import type { ValidationError, ValidationErrorPath } from '../errors'
-import type { JsfSchema, JsfSchemaType, JsonLogicContext, JsonLogicRootSchema, SchemaValue } from '../types'
+import type { JsfSchema, JsfSchemaType, JsonLogicContext, JsonLogicRootSchema, SchemaRegistry, SchemaValue } from '../types'
+import type { CustomKeyword } from './custom/keywords'
+import type { CustomFormat } from './format'
 import { validateArray } from './array'
 import { validateAllOf, validateAnyOf, validateNot, validateOneOf } from './composition'
 import { validateCondition } from './conditions'
 import { validateConst } from './const'
 import { validateDate } from './custom/date'
+import { validateCustomKeywords } from './custom/keywords'
+import { validateDependentRequired, validateDependentSchemas } from './dependent'
 import { validateEnum } from './enum'
 import { validateFile } from './file'
 import { getJsonLogicContextFromSchema, validateJsonLogicRules } from './json-logic'
 import { validateNumber } from './number'
 import { validateObject } from './object'
+import { createRefResolver, type RefResolver, validateRef } from './ref'
 import { validateString } from './string'
-import { isObjectValue } from './util'
+import { validateUnevaluatedItems, validateUnevaluatedProperties } from './unevaluated'
+import { isMissingValue, isObjectValue } from './util'
 
 export interface LegacyOptions {
   /**
@@ -42,6 +48,31 @@ export interface LegacyOptions {
   allowForbiddenValues?: boolean
 }
 
+/**
+ * Options used while validating a value against a schema
+ */
+export interface ValidationOptions extends LegacyOptions {
+  /**
+   * Registry of external schemas, used to resolve references (`$ref`) to other documents.
+   * Either a map of absolute URIs to schemas, or a function returning the schema for a given URI.
+   */
+  schemaRegistry?: SchemaRegistry
+  /**
+   * Custom formats, by name. They take precedence over the built-in formats.
+   */
+  customFormats?: Record<string, CustomFormat>
+  /**
+   * Custom keywords, by name. Their validators are called for the schemas with the keyword, after the built-in ones.
+   */
+  customKeywords?: Record<string, CustomKeyword>
+  /**
+   * Resolver for the `$ref` keywords of the root schema.
+   * It's created when validating the root schema, so it's shared by all of its subschemas.
+   * @internal
+   */
+  refResolver?: RefResolver
+}
+
 /**
  * Get the type of a schema
  * @param schema - The schema to get the type of
@@ -139,7 +170,7 @@ function validateType(
  * @param jsonLogicContext - The json-logic context
  * @returns An array of validation errors
  */
-function validateJsonLogicSchema(value: SchemaValue, schema: JsfSchema | undefined, options: LegacyOptions = {}, path: ValidationErrorPath = [], jsonLogicContext?: JsonLogicContext): ValidationError[] {
+function validateJsonLogicSchema(value: SchemaValue, schema: JsfSchema | undefined, options: ValidationOptions = {}, path: ValidationErrorPath = [], jsonLogicContext?: JsonLogicContext): ValidationError[] {
   if (!schema) {
     return []
   }
@@ -174,11 +205,15 @@ function compilePatternProperties(patternProperties: Record<string, any> = {}):
  *    - Enum validation
  *    - Const validation
  *    - Type-specific validations (string, number, object)
+ *    - Dependent required properties (dependentRequired)
  * 4. Validate against composition keywords in this order:
+ *    - $ref (the referenced schema must be valid)
  *    - not (negates the validation of a subschema)
  *    - allOf (all subschemas must be valid)
  *    - anyOf (at least one subschema must be valid)
  *    - oneOf (exactly one subschema must be valid)
+ *    - if/then/else and dependentSchemas (subschemas applied depending on the value)
+ * 5. Validate the properties and items not evaluated by any of the above (unevaluatedProperties, unevaluatedItems)
  *
  * @see validateType - For type validation behavior
  * @see validateSchemaWithoutComposition - For base schema validation
@@ -187,10 +222,15 @@ function compilePatternProperties(patternProperties: Record<string, any> = {}):
 export function validateSchema(
   value: SchemaValue,
   schema: JsfSchema,
-  options: LegacyOptions = {},
+  options: ValidationOptions = {},
   path: ValidationErrorPath = [],
   rootJsonLogicContext?: JsonLogicContext,
 ): ValidationError[] {
+  // References ($ref) in any subschema are resolved against the root schema
+  if (!options.refResolver && typeof schema === 'object') {
+    return validateSchema(value, schema, { ...options, refResolver: createRefResolver(schema, options.schemaRegistry) }, path, rootJsonLogicContext)
+  }
+
   let jsonLogicContext = rootJsonLogicContext
   let jsonLogicRootSchema: JsonLogicRootSchema | undefined
 
@@ -240,22 +280,7 @@ export function validateSchema(
 
   // If the schema defines "required", run required checks even when type is undefined.
   if (schema.required && isObjectValue(value)) {
-    const missingKeys = schema.required.filter((key: string) => {
-      const fieldValue = value[key]
-      // Field is considered missing if:
-      // - it's undefined OR
-      // - it's null AND treatNullAsUndefined option is true
-      // - it's an array/object and it's empty
-      if (Array.isArray(fieldValue)) {
-        return fieldValue.length === 0
-      }
-
-      if (isObjectValue(fieldValue)) {
-        return Object.keys(fieldValue).length === 0
-      }
-
-      return fieldValue === undefined || (fieldValue === null && options.treatNullAsUndefined)
-    })
+    const missingKeys = schema.required.filter((key: string) => isMissingValue(value[key], options.treatNullAsUndefined))
 
     for (const key of missingKeys) {
       errors.push({
@@ -292,19 +317,26 @@ export function validateSchema(
     ...validateConst(value, schema, path),
     ...validateEnum(value, schema, path),
     ...validateObject(value, schema, options, jsonLogicContext, path),
+    ...validateDependentRequired(value, schema, options, path),
     ...validateArray(value, schema, options, jsonLogicContext, path),
-    ...validateString(value, schema, path),
+    ...validateString(value, schema, options, path),
     ...validateNumber(value, schema, path),
     // File validation
     ...validateFile(value, schema, path),
     // Composition and conditional logic
+    ...validateRef(value, schema, options, jsonLogicContext, path),
     ...validateNot(value, schema, options, jsonLogicContext, path),
     ...validateAllOf(value, schema, options, jsonLogicContext, path),
     ...validateAnyOf(value, schema, options, jsonLogicContext, path),
     ...validateOneOf(value, schema, options, jsonLogicContext, path),
     ...validateCondition(value, schema, options, jsonLogicContext, path),
+    ...validateDependentSchemas(value, schema, options, jsonLogicContext, path),
+    // Unevaluated locations depend on the subschemas applied above
+    ...validateUnevaluatedProperties(value, schema, options, jsonLogicContext, path),
+    ...validateUnevaluatedItems(value, schema, options, jsonLogicContext, path),
     // Custom validations
     ...validateDate(value, schema, options, path),
+    ...validateCustomKeywords(value, schema, options, jsonLogicContext, path),
     ...validateJsonLogicSchema(value, jsonLogicRootSchema, options, path, jsonLogicContext),
     ...validateJsonLogicRules(schema, jsonLogicContext, path),
   ]
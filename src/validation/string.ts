@@ -1,5 +1,6 @@
 import type { ValidationError, ValidationErrorPath } from '../errors'
 import type { NonBooleanJsfSchema, SchemaValue } from '../types'
+import type { ValidationOptions } from './schema'
 import { validateFormat } from './format'
 import { getSchemaType } from './schema'
 
@@ -7,6 +8,7 @@ import { getSchemaType } from './schema'
  * Validate a string against a schema
  * @param value - The value to validate
  * @param schema - The schema to validate against
+ * @param options - The validation options
  * @param path - The path to the current field being validated
  * @returns An array of validation errors
  * @description
@@ -18,6 +20,7 @@ import { getSchemaType } from './schema'
 export function validateString(
   value: SchemaValue,
   schema: NonBooleanJsfSchema,
+  options: ValidationOptions = {},
   path: ValidationErrorPath = [],
 ): ValidationError[] {
   const errors: ValidationError[] = []
@@ -52,7 +55,7 @@ export function validateString(
 
   // Format validation (annotation by default in 2020-12)
   if (schema.format !== undefined) {
-    const formatErrors = validateFormat(value, schema, path)
+    const formatErrors = validateFormat(value, schema, options, path)
     errors.push(...formatErrors)
   }
 
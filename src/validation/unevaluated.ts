@@ -0,0 +1,242 @@
+import type { ValidationError, ValidationErrorPath } from '../errors'
+import type { JsfSchema, JsonLogicContext, NonBooleanJsfSchema, SchemaValue } from '../types'
+import type { ValidationOptions } from './schema'
+import { getBaseUri, resolveRef } from './ref'
+import { validateSchema } from './schema'
+import { hasBlockingErrors, hasProperty, isObjectValue } from './util'
+
+/**
+ * Properties (for objects) and items (for arrays) of a value that were evaluated by a schema
+ */
+interface EvaluatedLocations {
+  properties: Set<string>
+  items: Set<number>
+}
+
+/**
+ * Check if a value is valid against a subschema.
+ * Annotations (evaluated properties and items) are only collected from subschemas the value is valid against.
+ */
+function isValid(value: SchemaValue, schema: JsfSchema, options: ValidationOptions, jsonLogicContext: JsonLogicContext | undefined): boolean {
+  return !hasBlockingErrors(validateSchema(value, schema, options, [], jsonLogicContext))
+}
+
+/**
+ * Collect the properties and items of a value evaluated by a schema, including the ones
+ * evaluated by its in-place applicators ($ref, allOf, anyOf, oneOf, if/then/else and dependentSchemas).
+ * @param value - The value being validated
+ * @param schema - The schema to collect the evaluated locations from
+ * @param options - The validation options
+ * @param jsonLogicContext - The JSON Logic context
+ * @param evaluated - The evaluated locations collected so far (mutated)
+ * @param visited - The schemas already applied to the value, to stop circular references
+ * @param includeUnevaluated - Whether the schema's own unevaluated* keywords count as evaluating the remaining locations
+ */
+function collectEvaluated(
+  value: SchemaValue,
+  schema: JsfSchema,
+  options: ValidationOptions,
+  jsonLogicContext: JsonLogicContext | undefined,
+  evaluated: EvaluatedLocations,
+  visited: Set<NonBooleanJsfSchema>,
+  includeUnevaluated: boolean = true,
+): void {
+  if (typeof schema === 'boolean' || visited.has(schema)) {
+    return
+  }
+
+  visited.add(schema)
+
+  if (isObjectValue(value)) {
+    const patterns = Object.keys(schema.patternProperties || {}).map(pattern => new RegExp(pattern))
+
+    for (const key of Object.keys(value)) {
+      const isEvaluated = (schema.properties !== undefined && Object.hasOwn(schema.properties, key))
+        || patterns.some(regex => regex.test(key))
+        || schema.additionalProperties !== undefined
+        || (includeUnevaluated && schema.unevaluatedProperties !== undefined)
+
+      if (isEvaluated) {
+        evaluated.properties.add(key)
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    for (const [index, item] of value.entries()) {
+      const isEvaluated = (Array.isArray(schema.prefixItems) && index < schema.prefixItems.length)
+        || schema.items !== undefined
+        || (includeUnevaluated && schema.unevaluatedItems !== undefined)
+        || (schema.contains !== undefined && isValid(item, schema.contains as JsfSchema, options, jsonLogicContext))
+
+      if (isEvaluated) {
+        evaluated.items.add(index)
+      }
+    }
+  }
+
+  const collect = (subschema: JsfSchema) => collectEvaluated(value, subschema, options, jsonLogicContext, evaluated, visited)
+  const collectIfValid = (subschema: JsfSchema) => {
+    if (isValid(value, subschema, options, jsonLogicContext)) {
+      collect(subschema)
+    }
+  }
+
+  if (typeof schema.$ref === 'string' && options.refResolver) {
+    collect(resolveRef(schema.$ref, getBaseUri(schema, options.refResolver), options.refResolver).schema)
+  }
+
+  schema.allOf?.forEach(collectIfValid)
+  schema.anyOf?.forEach(collectIfValid)
+  schema.oneOf?.forEach(collectIfValid)
+
+  if (schema.if !== undefined) {
+    if (isValid(value, schema.if, options, jsonLogicContext)) {
+      collect(schema.if)
+      if (schema.then !== undefined) {
+        collectIfValid(schema.then)
+      }
+    }
+    else if (schema.else !== undefined) {
+      collectIfValid(schema.else)
+    }
+  }
+
+  if (schema.dependentSchemas && isObjectValue(value)) {
+    for (const [key, dependentSchema] of Object.entries(schema.dependentSchemas)) {
+      if (hasProperty(value, key, options.treatNullAsUndefined)) {
+        collectIfValid(dependentSchema)
+      }
+    }
+  }
+}
+
+/**
+ * Get the properties and items of a value evaluated by the keywords adjacent to the unevaluated* keywords
+ */
+function getEvaluatedLocations(
+  value: SchemaValue,
+  schema: NonBooleanJsfSchema,
+  options: ValidationOptions,
+  jsonLogicContext: JsonLogicContext | undefined,
+): EvaluatedLocations {
+  const evaluated: EvaluatedLocations = { properties: new Set(), items: new Set() }
+  collectEvaluated(value, schema, options, jsonLogicContext, evaluated, new Set(), false)
+  return evaluated
+}
+
+/**
+ * Validate the `unevaluatedProperties` keyword of an object schema
+ * @param value - The value to validate
+ * @param schema - The schema to validate against
+ * @param options - The validation options
+ * @param jsonLogicContext - The JSON Logic context
+ * @param path - The path to the current field being validated
+ * @returns An array of validation errors
+ * @description
+ * Unlike `additionalProperties`, which only knows about the `properties` and `patternProperties` declared next to it,
+ * `unevaluatedProperties` also takes into account the properties evaluated by `$ref`, `allOf`, `anyOf`, `oneOf`,
+ * `if/then/else` and `dependentSchemas` (only the subschemas the value is valid against count).
+ * The remaining properties are validated against the `unevaluatedProperties` schema.
+ *
+ * @example
+ * ```json
+ * {
+ *   "properties": { "type": { "enum": ["person", "company"] } },
+ *   "if": { "properties": { "type": { "const": "company" } } },
+ *   "then": { "properties": { "vat": { "type": "string" } } },
+ *   "unevaluatedProperties": false
+ * }
+ * ```
+ * This schema only allows "vat" when "type" is "company".
+ */
+export function validateUnevaluatedProperties(
+  value: SchemaValue,
+  schema: NonBooleanJsfSchema,
+  options: ValidationOptions,
+  jsonLogicContext: JsonLogicContext | undefined,
+  path: ValidationErrorPath = [],
+): ValidationError[] {
+  if (schema.unevaluatedProperties === undefined || !isObjectValue(value)) {
+    return []
+  }
+
+  const evaluated = getEvaluatedLocations(value, schema, options, jsonLogicContext)
+  const errors: ValidationError[] = []
+
+  for (const key of Object.keys(value)) {
+    if (evaluated.properties.has(key)) {
+      continue
+    }
+
+    if (schema.unevaluatedProperties === false) {
+      errors.push({
+        path: [...path, key],
+        validation: 'unevaluatedProperties',
+        schema,
+        value: value[key],
+      })
+    }
+    else {
+      errors.push(...validateSchema(value[key], schema.unevaluatedProperties as JsfSchema, options, [...path, key], jsonLogicContext))
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Validate the `unevaluatedItems` keyword of an array schema
+ * @param value - The value to validate
+ * @param schema - The schema to validate against
+ * @param options - The validation options
+ * @param jsonLogicContext - The JSON Logic context
+ * @param path - The path to the current field being validated
+ * @returns An array of validation errors
+ * @description
+ * The items not evaluated by `prefixItems`, `items` and `contains` (including the ones declared in the
+ * subschemas of `$ref`, `allOf`, `anyOf`, `oneOf` and `if/then/else`) are validated against the `unevaluatedItems` schema.
+ *
+ * @example
+ * ```json
+ * {
+ *   "prefixItems": [{ "type": "string" }],
+ *   "unevaluatedItems": false
+ * }
+ * ```
+ * This schema only allows arrays with up to one string.
+ */
+export function validateUnevaluatedItems(
+  value: SchemaValue,
+  schema: NonBooleanJsfSchema,
+  options: ValidationOptions,
+  jsonLogicContext: JsonLogicContext | undefined,
+  path: ValidationErrorPath = [],
+): ValidationError[] {
+  if (schema.unevaluatedItems === undefined || !Array.isArray(value)) {
+    return []
+  }
+
+  const evaluated = getEvaluatedLocations(value, schema, options, jsonLogicContext)
+  const errors: ValidationError[] = []
+
+  for (const [index, item] of value.entries()) {
+    if (evaluated.items.has(index)) {
+      continue
+    }
+
+    if (schema.unevaluatedItems === false) {
+      errors.push({
+        path: [...path, 'unevaluatedItems', index],
+        validation: 'unevaluatedItems',
+        schema,
+        value: item,
+      })
+    }
+    else {
+      errors.push(...validateSchema(item, schema.unevaluatedItems as JsfSchema, options, [...path, 'unevaluatedItems', index], jsonLogicContext))
+    }
+  }
+
+  return errors
+}
@@ -1,4 +1,6 @@
+import type { ValidationError } from '../errors'
 import type { ObjectValue, SchemaValue } from '../types'
+import { getSchemaErrorMessage } from '../errors/messages'
 
 /**
  * Type guard to check if a given SchemaValue is an ObjectValue
@@ -9,6 +11,62 @@ export function isObjectValue(v: SchemaValue): v is ObjectValue {
   return typeof v === 'object' && v !== null && !Array.isArray(v)
 }
 
+/**
+ * Check if a field value is missing, as in not filled in the form
+ * @param value - The value to check
+ * @param treatNullAsUndefined - Whether a null value is considered missing
+ * @returns `true` if the value is missing, `false` otherwise
+ * @description A value is considered missing if:
+ * - it's undefined OR
+ * - it's null AND treatNullAsUndefined is true
+ * - it's an array/object and it's empty
+ */
+export function isMissingValue(value: SchemaValue, treatNullAsUndefined: boolean = false): boolean {
+  if (Array.isArray(value)) {
+    return value.length === 0
+  }
+
+  if (isObjectValue(value)) {
+    return Object.keys(value).length === 0
+  }
+
+  return value === undefined || (value === null && treatNullAsUndefined)
+}
+
+/**
+ * Check if an object has a property, for the keywords triggered by the presence of a property
+ * (`dependentRequired` and `dependentSchemas`)
+ * @param value - The object
+ * @param key - The property name
+ * @param treatNullAsUndefined - Whether a null value is considered missing
+ * @returns `true` if the property is present, `false` otherwise
+ * @description Unlike `isMissingValue`, empty arrays and objects are present.
+ * Properties with an undefined value are not, as they can't exist in JSON.
+ */
+export function hasProperty(value: ObjectValue, key: string, treatNullAsUndefined: boolean = false): boolean {
+  return Object.hasOwn(value, key) && value[key] !== undefined && !(value[key] === null && treatNullAsUndefined)
+}
+
+/**
+ * Check if a validation error is a warning
+ * @param error - The validation error
+ * @returns `true` if the error is a warning, `false` otherwise
+ * @description The severity of the `x-jsf-errorMessage` of the validation takes precedence over the severity of the error
+ * (set by json-logic validations).
+ */
+export function isWarning(error: ValidationError): boolean {
+  return (getSchemaErrorMessage(error.schema, error.validation)?.severity ?? error.severity) === 'warning'
+}
+
+/**
+ * Check if some validation errors make the value invalid (warnings don't)
+ * @param errors - The validation errors
+ * @returns `true` if any of the errors is not a warning, `false` otherwise
+ */
+export function hasBlockingErrors(errors: ValidationError[]): boolean {
+  return errors.some(error => !isWarning(error))
+}
+
 /**
  * Compare two values for deep equality
  * @param a - The first value to compare
@@ -97,3 +155,12 @@ export function safeDeepClone<T>(obj: T): T {
     throw new Error('Deep clone failed: Object may contain circular references or non-serializable values')
   }
 }
+
+/**
+ * Convert a path into a JSON pointer, escaping `~` and `/` in each segment
+ * @param path - The path to convert (e.g. ['address', 'street'])
+ * @returns The JSON pointer (e.g. '/address/street'), or an empty string for the root
+ */
+export function toJsonPointer(path: Array<string | number>): string {
+  return path.map(segment => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('')
+}
@@ -0,0 +1,109 @@
+import type { AsyncValidator, AsyncValidatorContext, JsfObjectSchema } from '../src'
+import { describe, expect, it, jest } from '@jest/globals'
+import { createHeadlessForm } from '../src'
+
+const schema: JsfObjectSchema = {
+  type: 'object',
+  properties: {
+    username: { 'type': 'string', 'minLength': 3, 'x-jsf-asyncValidations': ['username-available'] },
+    company: {
+      type: 'object',
+      properties: {
+        vat: {
+          'type': 'string',
+          'x-jsf-asyncValidations': ['vat-exists'],
+          'x-jsf-errorMessage': { 'vat-exists': 'Unknown VAT number' },
+        },
+      },
+    },
+  },
+  required: ['username'],
+}
+
+const takenUsernames = ['admin', 'root']
+
+/**
+ * Stub of a service call, resolving after a tick
+ */
+function respond<T>(result: T): Promise<T> {
+  return new Promise(resolve => setTimeout(() => resolve(result), 0))
+}
+
+const asyncValidators: Record<string, AsyncValidator> = {
+  'username-available': ({ value }) => respond(takenUsernames.includes(value as string) ? 'This username is taken' : undefined),
+  'vat-exists': ({ value }) => respond(value === 'PT123456789'),
+}
+
+describe('handleValidationAsync', () => {
+  it('merges the errors of the async validators with the sync errors', async () => {
+    const { handleValidationAsync } = createHeadlessForm(schema, { asyncValidators })
+
+    expect(await handleValidationAsync({ username: 'admin', company: { vat: 'PT000' } })).toEqual({
+      formErrors: { username: 'This username is taken', company: { vat: 'Unknown VAT number' } },
+      errors: [
+        expect.objectContaining({ path: ['username'], pointer: '/username', validation: 'username-available', message: 'This username is taken' }),
+        expect.objectContaining({ path: ['company', 'vat'], pointer: '/company/vat', validation: 'vat-exists', message: 'Unknown VAT number' }),
+      ],
+    })
+    expect(await handleValidationAsync({ username: 'john', company: { vat: 'PT123456789' } })).toEqual({})
+  })
+
+  it('only runs the async validators of the fields without sync errors', async () => {
+    const usernameAvailable = jest.fn<AsyncValidator>(() => respond(undefined))
+    const { handleValidationAsync } = createHeadlessForm(schema, { asyncValidators: { ...asyncValidators, 'username-available': usernameAvailable } })
+
+    expect(await handleValidationAsync({ username: 'jo' })).toEqual({
+      formErrors: { username: 'Please insert at least 3 characters' },
+      errors: [expect.objectContaining({ validation: 'minLength' })],
+    })
+    expect(await handleValidationAsync({})).toMatchObject({ formErrors: { username: 'Required field' } })
+    expect(usernameAvailable).not.toHaveBeenCalled()
+  })
+
+  it('gives the value, schema, form values and signal to the validators', async () => {
+    const usernameAvailable = jest.fn<AsyncValidator>(() => respond(undefined))
+    const { handleValidationAsync } = createHeadlessForm(schema, { asyncValidators: { ...asyncValidators, 'username-available': usernameAvailable } })
+    const { signal } = new AbortController()
+
+    await handleValidationAsync({ username: 'john' }, { signal })
+
+    const [context] = usernameAvailable.mock.calls[0] as [AsyncValidatorContext]
+    expect(context).toEqual({ value: 'john', schema: expect.objectContaining({ minLength: 3 }), formValues: { username: 'john' }, signal })
+  })
+
+  it('exposes the fields with async validations in progress', async () => {
+    const { handleValidationAsync, getPendingFields } = createHeadlessForm(schema, { asyncValidators })
+
+    const validation = handleValidationAsync({ username: 'john', company: { vat: 'PT123456789' } })
+    expect(getPendingFields()).toEqual(['/username', '/company/vat'])
+
+    await validation
+    expect(getPendingFields()).toEqual([])
+  })
+
+  it('is rejected when the signal is aborted', async () => {
+    const { handleValidationAsync, getPendingFields } = createHeadlessForm(schema, { asyncValidators })
+    const controller = new AbortController()
+
+    const validation = handleValidationAsync({ username: 'john' }, { signal: controller.signal })
+    controller.abort(new Error('Value changed'))
+
+    await expect(validation).rejects.toThrow('Value changed')
+    expect(getPendingFields()).toEqual([])
+    await expect(handleValidationAsync({ username: 'john' }, { signal: controller.signal })).rejects.toThrow('Value changed')
+  })
+
+  it('is rejected for unknown async validators', async () => {
+    const { handleValidationAsync } = createHeadlessForm(schema)
+
+    await expect(handleValidationAsync({ username: 'john' })).rejects.toThrow(
+      '[json-schema-form] Async validation "username-available" doesn\'t exist.',
+    )
+  })
+
+  it('throws for invalid async validators', () => {
+    expect(() => createHeadlessForm(schema, { asyncValidators: { 'vat-exists': 'nope' as any } })).toThrow(
+      'Async validator \'vat-exists\' must be a function, but received type \'string\'.',
+    )
+  })
+})
@@ -0,0 +1,125 @@
+import type { CliIO } from '../src/cli'
+import { describe, expect, it } from '@jest/globals'
+import { runCli } from '../src/cli'
+
+const files: Record<string, string> = {
+  'schema.json': JSON.stringify({
+    'type': 'object',
+    'properties': {
+      name: { type: 'string', minLength: 2 },
+      address: { type: 'object', properties: { street: { type: 'string' } }, required: ['street'] },
+    },
+    'required': ['name'],
+    'x-jsf-order': ['address', 'name'],
+  }),
+  'valid.json': JSON.stringify({ name: 'Jane', address: { street: 'Main St' } }),
+  'invalid.json': JSON.stringify({ name: 'J', address: {} }),
+  'broken.json': '{ "name": ',
+  'lint.json': JSON.stringify({
+    'type': 'object',
+    'properties': { age: { 'type': 'number', 'x-jsf-logic-validations': ['adult'] } },
+    'x-jsf-order': ['agee'],
+  }),
+}
+
+/**
+ * Run the CLI with in-memory files, collecting its output
+ */
+function run(...args: string[]) {
+  const output = { stdout: '', stderr: '' }
+  const io: CliIO = {
+    readFile: (path) => {
+      if (!(path in files)) {
+        throw new Error('no such file')
+      }
+      return files[path]
+    },
+    stdout: (text) => { output.stdout += text },
+    stderr: (text) => { output.stderr += text },
+  }
+
+  return { code: runCli(args, io), ...output }
+}
+
+describe('jsf validate', () => {
+  it('prints the result of each file, failing if any is invalid', () => {
+    expect(run('validate', 'schema.json', 'valid.json')).toEqual({ code: 0, stdout: 'valid.json: valid\n', stderr: '' })
+    expect(run('validate', 'schema.json', 'valid.json', 'invalid.json')).toEqual({
+      code: 1,
+      stdout: [
+        'valid.json: valid',
+        'invalid.json: invalid',
+        '  /name: Please insert at least 2 characters',
+        '  /address/street: Required field',
+        '',
+      ].join('\n'),
+      stderr: '',
+    })
+  })
+
+  it('prints the errors as JSON, in the given locale', () => {
+    const { code, stdout } = run('validate', 'schema.json', 'invalid.json', '--json', '--locale', 'es')
+
+    expect(code).toBe(1)
+    expect(JSON.parse(stdout)).toEqual([{
+      file: 'invalid.json',
+      valid: false,
+      errors: [
+        expect.objectContaining({ pointer: '/name', validation: 'minLength' }),
+        expect.objectContaining({ pointer: '/address/street', validation: 'required', message: 'Campo obligatorio' }),
+      ],
+      warnings: [],
+    }])
+  })
+})
+
+describe('jsf lint', () => {
+  it('prints the problems of the schema, failing for errors', () => {
+    expect(run('lint', 'schema.json')).toEqual({ code: 0, stdout: 'schema.json: no problems\n', stderr: '' })
+    expect(run('lint', 'lint.json')).toEqual({
+      code: 1,
+      stdout: [
+        'lint.json',
+        '  warning /x-jsf-order/0: Unknown property "agee" in x-jsf-order (unknown-order-key)',
+        '  error   /properties/age/x-jsf-logic-validations/0: Validation "adult" isn\'t declared in x-jsf-logic (missing-logic-validation)',
+        '',
+      ].join('\n'),
+      stderr: '',
+    })
+  })
+})
+
+describe('jsf fields', () => {
+  it('prints the fields of the form', () => {
+    expect(run('fields', 'schema.json')).toEqual({
+      code: 0,
+      stdout: 'address (fieldset)\n  street (text) required\nname (text) required\n',
+      stderr: '',
+    })
+    expect(JSON.parse(run('fields', 'schema.json', '--json').stdout)).toEqual([
+      expect.objectContaining({ name: 'address', inputType: 'fieldset', fields: [expect.objectContaining({ name: 'street' })] }),
+      expect.objectContaining({ name: 'name', inputType: 'text', required: true }),
+    ])
+  })
+})
+
+describe('errors', () => {
+  it('fails with the usage for wrong arguments', () => {
+    expect(run()).toMatchObject({ code: 2, stderr: expect.stringContaining('Usage: jsf <command>') })
+    expect(run('format', 'schema.json')).toMatchObject({ code: 2, stderr: expect.stringContaining('Unknown command "format".') })
+    expect(run('validate', 'schema.json')).toMatchObject({
+      code: 2,
+      stderr: expect.stringContaining('The validate command expects a schema file and at least one data file.'),
+    })
+    expect(run('lint', 'schema.json', '--verbose')).toMatchObject({ code: 2, stderr: expect.stringContaining('--verbose') })
+    expect(run('--help')).toMatchObject({ code: 0, stdout: expect.stringContaining('Usage: jsf <command>') })
+  })
+
+  it('fails for files that can\'t be read or parsed', () => {
+    expect(run('lint', 'missing.json')).toEqual({ code: 2, stdout: '', stderr: 'Could not read "missing.json": no such file\n' })
+    expect(run('validate', 'schema.json', 'broken.json')).toMatchObject({
+      code: 2,
+      stderr: expect.stringMatching(/^Could not parse "broken.json": /),
+    })
+  })
+})
@@ -0,0 +1,108 @@
+import type { JsfObjectSchema } from '../src'
+import { describe, expect, it } from '@jest/globals'
+import { coerceValue, createHeadlessForm, createValidator } from '../src'
+
+const schema: JsfObjectSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    age: { type: 'integer' },
+    salary: { type: 'number' },
+    bonus: { type: ['number', 'null'] },
+    accepts_terms: { type: 'boolean' },
+    languages: { type: 'array', items: { type: 'string' } },
+    address: {
+      type: 'object',
+      properties: { floor: { type: 'integer' } },
+    },
+    children: {
+      type: 'array',
+      items: { type: 'object', properties: { age: { type: 'integer' } } },
+    },
+    pets: { type: 'integer', minimum: 0 },
+    pet_name: { type: 'string' },
+  },
+  allOf: [{
+    if: { properties: { pets: { minimum: 1 } }, required: ['pets'] },
+    then: { required: ['pet_name'] },
+  }],
+}
+
+describe('coerceValue', () => {
+  it('converts raw strings to the types of the schema', () => {
+    expect(coerceValue({
+      name: '42',
+      age: '42',
+      salary: ' 1500.5 ',
+      bonus: '',
+      accepts_terms: 'true',
+      languages: 'en',
+      address: { floor: '3' },
+      children: [{ age: '7' }, { age: '5' }],
+    }, schema)).toEqual({
+      name: '42',
+      age: 42,
+      salary: 1500.5,
+      bonus: null,
+      accepts_terms: true,
+      languages: ['en'],
+      address: { floor: 3 },
+      children: [{ age: 7 }, { age: 5 }],
+    })
+  })
+
+  it('keeps the values that can\'t be converted', () => {
+    const value = { age: '4.5', salary: 'a lot', bonus: 'none', accepts_terms: 'yes', pets: '' }
+
+    expect(coerceValue(value, schema)).toEqual(value)
+  })
+
+  it('only converts plain decimal numbers', () => {
+    expect(coerceValue({ salary: '-1.5', bonus: '.5', pets: '3.' }, schema)).toEqual({ salary: -1.5, bonus: 0.5, pets: 3 })
+
+    for (const number of ['0x10', '0b1', '0o7', '1e2', 'Infinity', '1_000', '+1']) {
+      expect(coerceValue({ salary: number }, schema)).toEqual({ salary: number })
+    }
+  })
+
+  it('doesn\'t wrap empty strings in an array for array fields', () => {
+    expect(coerceValue({ languages: '' }, schema)).toEqual({ languages: '' })
+    expect(coerceValue('', { type: ['array', 'null'] })).toBeNull()
+  })
+
+  it('doesn\'t add the names of Object.prototype members to the values', () => {
+    const objectSchema: JsfObjectSchema = { type: 'object', properties: { toString: { type: 'number' }, constructor: { type: 'string' } } }
+
+    expect(coerceValue({}, objectSchema)).toEqual({})
+    expect(coerceValue({ toString: '1' }, objectSchema)).toEqual({ toString: 1 })
+  })
+})
+
+describe('coerceValues option', () => {
+  it('validates the coerced values', () => {
+    const form = createHeadlessForm(schema, { coerceValues: true })
+
+    expect(form.handleValidation({ age: '42', accepts_terms: 'false', pets: '2', pet_name: 'Rex' })).toEqual({
+      values: { age: 42, accepts_terms: false, pets: 2, pet_name: 'Rex' },
+    })
+    // Conditions are evaluated with the coerced values
+    expect(form.handleValidation({ pets: '2' }).formErrors).toEqual({ pet_name: 'Required field' })
+  })
+
+  it('reports the values that can\'t be coerced as type errors', () => {
+    const { validate } = createValidator(schema, { coerceValues: true })
+    const { errors, values } = validate({ children: [{ age: '7' }, { age: 'seven' }] })
+
+    expect(values).toEqual({ children: [{ age: 7 }, { age: 'seven' }] })
+    expect(errors).toEqual([expect.objectContaining({ path: ['children', 1, 'age'], validation: 'type' })])
+    expect(validate({ salary: '0x10' }).errors).toEqual([expect.objectContaining({ path: ['salary'], validation: 'type' })])
+  })
+
+  it('doesn\'t coerce the values by default', () => {
+    const form = createHeadlessForm(schema)
+    const result = form.handleValidation({ age: '42' })
+
+    expect(result.formErrors).toEqual({ age: 'The value must be a number' })
+    expect(result).not.toHaveProperty('values')
+  })
+})
@@ -0,0 +1,108 @@
+import type { JsfObjectSchema } from '../src'
+import { describe, expect, it } from '@jest/globals'
+import { createHeadlessForm, getDefaultValues } from '../src'
+import { getField } from '../src/utils'
+
+const schema: JsfObjectSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    country: { type: 'string', default: 'PT' },
+    address: {
+      type: 'object',
+      properties: {
+        street: { type: 'string' },
+        city: { type: 'string', default: 'Lisbon' },
+      },
+    },
+    contact: {
+      type: 'object',
+      properties: { email: { type: 'string' } },
+    },
+    dependents: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          relationship: { type: 'string', default: 'child' },
+        },
+      },
+    },
+    has_pet: { type: 'string', enum: ['yes', 'no'] },
+    pet_name: { type: 'string' },
+    pet_kind: { type: 'string' },
+  },
+  allOf: [
+    {
+      if: { properties: { country: { const: 'PT' } } },
+      then: { properties: { has_pet: { default: 'yes' } } },
+    },
+    {
+      if: { properties: { has_pet: { const: 'yes' } }, required: ['has_pet'] },
+      then: { properties: { pet_kind: { default: 'dog' } } },
+      else: { properties: { pet_name: false, pet_kind: false } },
+    },
+  ],
+}
+
+describe('getDefaultValues', () => {
+  it('fills the defaults of nested objects and branches', () => {
+    // The default of `country` makes the first branch apply, and the default of its branch the second one
+    expect(getDefaultValues(schema)).toEqual({
+      country: 'PT',
+      address: { city: 'Lisbon' },
+      has_pet: 'yes',
+      pet_kind: 'dog',
+    })
+  })
+
+  it('keeps the existing values', () => {
+    const initialValues = {
+      country: 'ES',
+      address: { street: 'Gran Via', city: 'Madrid' },
+      dependents: [{ name: 'Ana' }, { name: 'Luis', relationship: 'spouse' }],
+    }
+
+    expect(getDefaultValues(schema, { initialValues })).toEqual({
+      country: 'ES',
+      address: { street: 'Gran Via', city: 'Madrid' },
+      dependents: [{ name: 'Ana', relationship: 'child' }, { name: 'Luis', relationship: 'spouse' }],
+    })
+    expect(initialValues.dependents[0]).toEqual({ name: 'Ana' })
+  })
+
+  it('fills the defaults of the default values', () => {
+    const schemaWithArrayDefault: JsfObjectSchema = {
+      type: 'object',
+      properties: {
+        dependents: { ...schema.properties!.dependents as JsfObjectSchema, default: [{ name: 'Ana' }] },
+      },
+    }
+
+    expect(getDefaultValues(schemaWithArrayDefault)).toEqual({ dependents: [{ name: 'Ana', relationship: 'child' }] })
+  })
+})
+
+describe('applyDefaults option', () => {
+  it('uses the defaults as initial values', () => {
+    const form = createHeadlessForm(schema, { applyDefaults: true, initialValues: { name: 'Jane' } })
+
+    expect(form.getValues()).toEqual({
+      name: 'Jane',
+      country: 'PT',
+      address: { city: 'Lisbon' },
+      has_pet: 'yes',
+      pet_kind: 'dog',
+    })
+    expect(getField(form.fields, 'pet_kind')?.isVisible).toBe(true)
+    expect(form.getFormState().isDirty).toBe(false)
+  })
+
+  it('keeps the initial values as they are by default', () => {
+    const form = createHeadlessForm(schema, { initialValues: { name: 'Jane' } })
+
+    expect(form.getValues()).toEqual({ name: 'Jane' })
+    expect(getField(form.fields, 'pet_kind')?.isVisible).toBe(false)
+  })
+})
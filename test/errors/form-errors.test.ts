@@ -136,4 +136,86 @@ describe('Form error transformation', () => {
       })
     })
   })
+
+  describe('structured errors', () => {
+    const schema: JsfObjectSchema = {
+      type: 'object',
+      properties: {
+        username: { type: 'string', minLength: 3, pattern: '^[a-z]+$' },
+        address: {
+          type: 'object',
+          properties: {
+            'street/number': { type: 'string' },
+          },
+          required: ['street/number'],
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string', maxLength: 5 },
+        },
+      },
+      required: ['username'],
+    }
+
+    it('does not return errors when the value is valid', () => {
+      const form = createHeadlessForm(schema)
+
+      expect(form.handleValidation({ username: 'john' })).toEqual({})
+    })
+
+    it('returns the list of errors with their path, pointer, params and message', () => {
+      const form = createHeadlessForm(schema)
+      const result = form.handleValidation({ username: 'J', address: {}, tags: ['short', 'too long'] })
+
+      expect(result.errors).toEqual([
+        { path: ['username'], pointer: '/username', validation: 'minLength', params: { minLength: 3 }, message: 'Please insert at least 3 characters' },
+        { path: ['username'], pointer: '/username', validation: 'pattern', params: { pattern: '^[a-z]+$', example: expect.any(String) }, message: expect.stringMatching(/^Must have a valid format/) },
+        { path: ['address', 'street/number'], pointer: '/address/street~1number', validation: 'required', params: {}, message: 'Required field' },
+        { path: ['tags', 1], pointer: '/tags/1', validation: 'maxLength', params: { maxLength: 5 }, message: 'Please insert up to 5 characters' },
+      ])
+    })
+
+    it('uses the custom error messages of the schema', () => {
+      const form = createHeadlessForm({
+        type: 'object',
+        properties: {
+          age: { 'type': 'number', 'minimum': 18, 'x-jsf-errorMessage': { minimum: 'Must be an adult' } },
+        },
+      })
+
+      expect(form.handleValidation({ age: 10 }).errors).toEqual([
+        { path: ['age'], pointer: '/age', validation: 'minimum', params: { minimum: 18 }, message: 'Must be an adult' },
+      ])
+    })
+
+    it('keeps only the last message of each field in formErrors by default', () => {
+      const form = createHeadlessForm(schema)
+
+      expect(form.handleValidation({ username: 'J' }).formErrors).toEqual({
+        username: expect.stringMatching(/^Must have a valid format/),
+      })
+    })
+
+    it('returns all the messages of each field in formErrorMessages with the allErrorMessages option', () => {
+      const form = createHeadlessForm(schema, { allErrorMessages: true })
+      const result = form.handleValidation({ username: 'J', address: {}, tags: ['short', 'too long'] })
+
+      expect(result.formErrorMessages).toEqual({
+        username: ['Please insert at least 3 characters', expect.stringMatching(/^Must have a valid format/)],
+        address: { 'street/number': ['Required field'] },
+        tags: [undefined, ['Please insert up to 5 characters']],
+      })
+      expect(result.formErrors).toEqual({
+        username: expect.stringMatching(/^Must have a valid format/),
+        address: { 'street/number': 'Required field' },
+        tags: [undefined, 'Please insert up to 5 characters'],
+      })
+    })
+
+    it('doesn\'t return formErrorMessages by default', () => {
+      const form = createHeadlessForm(schema)
+
+      expect(form.handleValidation({ username: 'J' })).not.toHaveProperty('formErrorMessages')
+    })
+  })
 })
@@ -0,0 +1,123 @@
+import type { ErrorMessageKey } from '../../src/errors'
+import type { JsfObjectSchema } from '../../src/types'
+import { describe, expect, it } from '@jest/globals'
+import { createHeadlessForm } from '../../src'
+import { errorMessageCatalogs, getMessageCatalog } from '../../src/errors/locales'
+import { formatMessage } from '../../src/errors/messages'
+
+const schema: JsfObjectSchema = {
+  type: 'object',
+  required: ['name'],
+  properties: {
+    name: { type: 'string', minLength: 3 },
+    age: { type: 'number', maximum: 120 },
+    tags: { type: 'array', minItems: 1 },
+    document: {
+      'type': 'object',
+      'x-jsf-presentation': { inputType: 'file', accept: '.pdf,.png' },
+    },
+  },
+}
+
+describe('error message locales', () => {
+  it('uses English messages by default', () => {
+    const form = createHeadlessForm(schema)
+
+    expect(form.handleValidation({}).formErrors).toEqual({ name: 'Required field' })
+    expect(form.handleValidation({ name: 'Jo', age: 200, tags: [] }).formErrors).toEqual({
+      name: 'Please insert at least 3 characters',
+      age: 'Must be smaller or equal to 120',
+      tags: 'Must have at least 1 item',
+    })
+  })
+
+  it('uses the messages of the given locale, with the schema values interpolated', () => {
+    const form = createHeadlessForm(schema, { locale: 'es' })
+
+    expect(form.handleValidation({}).formErrors).toEqual({ name: 'Campo obligatorio' })
+    expect(form.handleValidation({ name: 'Jo', age: 200, tags: [] }).formErrors).toEqual({
+      name: 'Introduce al menos 3 caracteres',
+      age: 'Debe ser menor o igual que 120',
+      tags: 'Debe tener al menos 1 elemento',
+    })
+  })
+
+  it('uses the language messages for regional locales', () => {
+    const form = createHeadlessForm(schema, { locale: 'pt-BR' })
+
+    expect(form.handleValidation({ name: 'Jo' }).formErrors).toEqual({ name: 'Insira pelo menos 3 caracteres' })
+  })
+
+  it('falls back to English for unknown locales', () => {
+    const form = createHeadlessForm(schema, { locale: 'fr' })
+
+    expect(form.handleValidation({}).formErrors).toEqual({ name: 'Required field' })
+  })
+
+  it('uses custom messages over the locale messages', () => {
+    const form = createHeadlessForm(schema, {
+      locale: 'de',
+      messages: { minLength: 'Mindestens {minLength} Buchstaben, nicht {value}' },
+    })
+
+    expect(form.handleValidation({ name: 'Jo', age: 200 }).formErrors).toEqual({
+      name: 'Mindestens 3 Buchstaben, nicht Jo',
+      age: 'Muss kleiner oder gleich 120 sein',
+    })
+  })
+
+  it('keeps the precedence of the messages declared in the schema', () => {
+    const form = createHeadlessForm(
+      {
+        ...schema,
+        properties: {
+          ...schema.properties,
+          name: { 'type': 'string', 'minLength': 3, 'x-jsf-errorMessage': { minLength: 'Name too short' } },
+        },
+      },
+      { locale: 'es', messages: { minLength: 'Demasiado corto' } },
+    )
+
+    expect(form.handleValidation({ name: 'Jo' }).formErrors).toEqual({ name: 'Name too short' })
+  })
+
+  it('interpolates presentation values', () => {
+    const form = createHeadlessForm(schema, { locale: 'es' })
+
+    expect(form.handleValidation({ name: 'John', document: [{ name: 'file.txt', size: 1 }] }).formErrors).toEqual({
+      document: 'Formato de archivo no admitido. Los formatos aceptados son .pdf,.png.',
+    })
+  })
+
+  it('throws if the messages are not an object', () => {
+    expect(() => createHeadlessForm(schema, { messages: 'invalid' as any })).toThrow('messages must be an object.')
+  })
+})
+
+describe('getMessageCatalog', () => {
+  it('merges the locale and custom messages over the English messages', () => {
+    const catalog = getMessageCatalog('es', { required: 'Obligatorio' })
+
+    expect(catalog.required).toBe('Obligatorio')
+    expect(catalog.minLength).toBe(errorMessageCatalogs.es.minLength)
+    expect(getMessageCatalog('ES').minLength).toBe(errorMessageCatalogs.es.minLength)
+  })
+
+  it.each(Object.keys(errorMessageCatalogs))('built-in "%s" messages use the same placeholders as English', (locale) => {
+    const getPlaceholders = (message: string) => (message.match(/\{[\w-]+\}/g) ?? []).sort()
+
+    for (const [key, message] of Object.entries(errorMessageCatalogs.en)) {
+      expect(getPlaceholders(errorMessageCatalogs[locale][key as ErrorMessageKey])).toEqual(getPlaceholders(message))
+    }
+  })
+})
+
+describe('formatMessage', () => {
+  it('replaces the placeholders with their values', () => {
+    expect(formatMessage('Between {minimum} and {maximum}', { minimum: 0, maximum: 10 })).toBe('Between 0 and 10')
+  })
+
+  it('keeps the placeholders without a value', () => {
+    expect(formatMessage('At least {minLength} characters', {})).toBe('At least {minLength} characters')
+  })
+})
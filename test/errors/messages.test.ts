@@ -1,6 +1,8 @@
+import type { SchemaValidationErrorType } from '../../src/errors'
 import type { JsfObjectSchema } from '../../src/types'
 import { describe, expect, it } from '@jest/globals'
 import { createHeadlessForm } from '../../src'
+import { getErrorMessage } from '../../src/errors/messages'
 import { DATE_FORMAT } from '../../src/validation/custom/date'
 
 describe('validation error messages', () => {
@@ -857,5 +859,83 @@ describe('validation error messages', () => {
       expect(form.handleValidation({ tags: [] }).formErrors).toEqual({ tags: 'Must have at least 1 item' })
       expect(form.handleValidation({ tags }).formErrors).toEqual({ tags: 'Must have at most 4 items' })
     })
+
+    it('shows contains, minContains and maxContains error messages', () => {
+      const schema: JsfObjectSchema = {
+        type: 'object',
+        properties: {
+          emails: {
+            type: 'array',
+            contains: { type: 'string', format: 'email' },
+          },
+          scores: {
+            type: 'array',
+            contains: { type: 'number', minimum: 10 },
+            minContains: 2,
+            maxContains: 3,
+          },
+          ranking: {
+            type: 'array',
+            contains: { type: 'number', minimum: 10 },
+            minContains: 1,
+            maxContains: 1,
+          },
+        },
+      }
+      const form = createHeadlessForm(schema)
+
+      expect(form.handleValidation({ emails: ['not an email'], scores: [10], ranking: [] }).formErrors).toEqual({
+        emails: 'Must have at least 1 valid item',
+        scores: 'Must have at least 2 valid items',
+        ranking: 'Must have at least 1 valid item',
+      })
+      expect(form.handleValidation({ scores: [10, 20, 30, 40], ranking: [10, 20] }).formErrors).toEqual({
+        scores: 'Must have at most 3 valid items',
+        ranking: 'Must have at most 1 valid item',
+      })
+    })
+
+    it('uses custom error messages for contains, minContains and maxContains', () => {
+      const schema: JsfObjectSchema = {
+        type: 'object',
+        properties: {
+          scores: {
+            'type': 'array',
+            'contains': { type: 'number', minimum: 10 },
+            'minContains': 2,
+            'x-jsf-errorMessage': {
+              minContains: 'Add at least two scores above 10',
+            },
+          },
+        },
+      }
+      const form = createHeadlessForm(schema)
+
+      expect(form.handleValidation({ scores: [1, 10] }).formErrors).toEqual({
+        scores: 'Add at least two scores above 10',
+      })
+    })
+  })
+
+  describe('message generation', () => {
+    it('falls back to a generic message for unknown validation types', () => {
+      expect(getErrorMessage({}, 'value', 'unknown' as SchemaValidationErrorType)).toBe('The value is not valid')
+    })
+
+    it('does not give an example for patterns that can not generate one', () => {
+      expect(getErrorMessage({ pattern: '^(?<year>\\d{4})$' }, '20', 'pattern')).toBe('Must have a valid format')
+    })
+
+    it('does not throw for patterns that can not generate an example in a form', () => {
+      const schema: JsfObjectSchema = {
+        type: 'object',
+        properties: {
+          year: { type: 'string', pattern: '^(?<year>\\d{4})$' },
+        },
+      }
+      const form = createHeadlessForm(schema)
+
+      expect(form.handleValidation({ year: '20' }).formErrors).toEqual({ year: 'Must have a valid format' })
+    })
   })
 })
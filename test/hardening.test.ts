@@ -0,0 +1,132 @@
+import type { JsfObjectSchema } from '../src'
+import { describe, expect, it } from '@jest/globals'
+import { assertSafeSchema, createHeadlessForm, createValidator, isUnsafeSchemaError, modify } from '../src'
+
+/**
+ * Get the error thrown by a function
+ */
+function getError(fn: () => unknown): unknown {
+  try {
+    fn()
+  }
+  catch (error) {
+    return error
+  }
+  return undefined
+}
+
+describe('assertSafeSchema', () => {
+  it('accepts regular schemas', () => {
+    expect(() => assertSafeSchema({
+      type: 'object',
+      properties: {
+        name: { type: 'string', pattern: '^[A-Z][a-z]+(?: [A-Z][a-z]+)?$' },
+        code: { type: 'string', pattern: '^(?<prefix>[A-Z]{2})-\\d{4}$' },
+      },
+      patternProperties: { '^x-': { type: 'string' } },
+    })).not.toThrow()
+  })
+
+  it('rejects keys that could pollute prototypes', () => {
+    const schema = JSON.parse('{ "type": "object", "properties": { "__proto__": { "polluted": true } } }')
+    const error = getError(() => assertSafeSchema(schema))
+
+    expect(isUnsafeSchemaError(error)).toBe(true)
+    expect(error).toMatchObject({ violation: 'unsafeKey', pointer: '/properties/__proto__' })
+  })
+
+  it('accepts constructor and prototype keys', () => {
+    expect(() => assertSafeSchema({ properties: { constructor: { type: 'string' }, prototype: { type: 'string' } } })).not.toThrow()
+  })
+
+  it('rejects schemas too deep or too big', () => {
+    let deepSchema: JsfObjectSchema = { type: 'object' }
+    for (let i = 0; i < 10; i++) {
+      deepSchema = { type: 'object', properties: { nested: deepSchema } }
+    }
+
+    expect(getError(() => assertSafeSchema(deepSchema, { maxDepth: 10 }))).toMatchObject({ violation: 'maxDepth' })
+    expect(() => assertSafeSchema(deepSchema)).not.toThrow()
+    expect(getError(() => assertSafeSchema({ enum: Array.from({ length: 100 }, (_, i) => i) }, { maxSize: 50 }))).toMatchObject({
+      violation: 'maxSize',
+    })
+  })
+
+  it('rejects regular expressions prone to catastrophic backtracking', () => {
+    for (const pattern of ['^(a+)+$', '(\\d*x?)*', '^(?:[a-z]+,?){2,}$', '((ab)*c)+']) {
+      expect(getError(() => assertSafeSchema({ type: 'string', pattern }))).toMatchObject({
+        violation: 'unsafePattern',
+        pointer: '/pattern',
+      })
+    }
+    expect(getError(() => assertSafeSchema({ patternProperties: { '(.*)*': {} } }))).toMatchObject({
+      violation: 'unsafePattern',
+      pointer: '/patternProperties/(.*)*',
+    })
+    expect(getError(() => assertSafeSchema({ pattern: '[a-' }))).toMatchObject({ violation: 'unsafePattern' })
+    expect(getError(() => assertSafeSchema({ pattern: 'a'.repeat(20) }, { maxPatternLength: 10 }))).toMatchObject({ violation: 'unsafePattern' })
+    expect(() => assertSafeSchema({ pattern: '^(ab)?(c+)\\(d+\\)*[(+]+$' })).not.toThrow()
+  })
+
+  it('rejects repeated groups with alternatives that can match the same input', () => {
+    for (const pattern of ['^(a|a)*$', '^(a|aa)+$', '^(\\w|\\d)+$', '^(?:[a-z]|x?b)+$', '^((a|b)|a){2,}$']) {
+      expect(getError(() => assertSafeSchema({ type: 'string', pattern }))).toMatchObject({
+        violation: 'unsafePattern',
+        message: expect.stringContaining('overlapping alternatives'),
+      })
+    }
+    for (const pattern of ['^(a|b)+$', '^(?:\\d|-)*$', '^(\\s|,)+$', '^(?:\\.[a-z]|-[0-9])*$', '^(a|aa)?$']) {
+      expect(() => assertSafeSchema({ type: 'string', pattern })).not.toThrow()
+    }
+  })
+})
+
+describe('hardened mode', () => {
+  const unsafeSchema: JsfObjectSchema = { type: 'object', properties: { name: { type: 'string', pattern: '^(a|b+)+$' } } }
+
+  it('checks the schemas of forms and validators', () => {
+    expect(() => createHeadlessForm(unsafeSchema)).not.toThrow()
+    expect(() => createHeadlessForm(unsafeSchema, { hardened: true })).toThrow('[json-schema-form] Unsafe schema at "/properties/name/pattern"')
+    expect(() => createValidator(unsafeSchema, { hardened: { maxDepth: 2 } })).toThrow('nested deeper than 2 levels')
+    expect(() => createHeadlessForm({ type: 'object', properties: { address: { $ref: 'https://example.com/address.json' } } }, {
+      hardened: true,
+      schemaRegistry: { 'https://example.com/address.json': unsafeSchema },
+    })).toThrow('Unsafe schema')
+  })
+
+  it('accepts fields named constructor or prototype', () => {
+    const { fields } = createHeadlessForm({ type: 'object', properties: { constructor: { type: 'string' } } }, { hardened: true })
+
+    expect(fields.map(field => field.name)).toEqual(['constructor'])
+  })
+
+  it('checks the field names of the modify config', () => {
+    const config = { fields: { 'name.__proto__': { title: 'Polluted' } }, muteLogging: true, hardened: true }
+
+    expect(getError(() => modify(unsafeSchema.properties!.name, config))).toMatchObject({ violation: 'unsafePattern' })
+    expect(getError(() => modify({ type: 'object', properties: { name: { type: 'string' } } }, config))).toMatchObject({
+      violation: 'unsafeKey',
+      pointer: '/fields/name.__proto__',
+    })
+    expect(getError(() => modify({ type: 'object' }, { create: { 'constructor.prototype': {} }, muteLogging: true, hardened: true }))).toMatchObject({
+      violation: 'unsafeKey',
+      pointer: '/create/constructor.prototype',
+    })
+    expect(getError(() => modify({ type: 'object' }, { pick: ['prototype'], muteLogging: true, hardened: true }))).toMatchObject({
+      violation: 'unsafeKey',
+      pointer: '/pick/0',
+    })
+  })
+
+  it('never merges keys that could pollute prototypes', () => {
+    const schema = JSON.parse(`{
+      "type": "object",
+      "properties": { "kind": { "type": "string" } },
+      "allOf": [{ "if": { "required": ["kind"] }, "then": { "__proto__": { "polluted": true } } }]
+    }`)
+    const { handleValidation } = createHeadlessForm(schema)
+
+    handleValidation({ kind: 'a' })
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+  })
+})
@@ -0,0 +1,122 @@
+import type { JsfObjectSchema } from '../src'
+import type { JsfSchema } from '../src/types'
+import { describe, expect, it } from '@jest/globals'
+import { lintSchema } from '../src'
+
+const schema: JsfObjectSchema = {
+  'type': 'object',
+  'properties': {
+    first_name: { type: 'string' },
+    start_date: { type: 'string', format: 'date' },
+    end_date: {
+      'type': 'string',
+      'format': 'date',
+      'x-jsf-logic-validations': ['after_start'],
+      'x-jsf-logic-computedAttrs': {
+        'description': 'Starts on {{start}}',
+        'x-jsf-presentation': { minDate: 'start' },
+      },
+    },
+    address: {
+      'type': 'object',
+      'properties': { street: { type: 'string' } },
+      'x-jsf-presentation': { inputType: 'fieldset' },
+      'x-jsf-layout': { type: 'columns', columns: 2 },
+    },
+  },
+  'if': { properties: { first_name: { const: 'Jane' } }, required: ['first_name'] },
+  'then': { properties: { nickname: { type: 'string' } } },
+  'x-jsf-order': ['address', 'first_name', 'nickname', 'start_date', 'end_date'],
+  'x-jsf-logic': {
+    validations: {
+      after_start: { rule: { '>': [{ var: 'end_date' }, { var: 'start_date' }] } },
+    },
+    computedValues: {
+      start: { rule: { var: 'start_date' } },
+    },
+  },
+}
+
+describe('lintSchema', () => {
+  it('returns no problems for valid schemas', () => {
+    expect(lintSchema(schema)).toEqual([])
+    expect(lintSchema(true)).toEqual([])
+  })
+
+  it('reports the x-jsf-order keys that are not properties', () => {
+    expect(lintSchema({ ...schema, 'x-jsf-order': ['first_name', 'frist_name', 'nickname'] })).toEqual([
+      {
+        rule: 'unknown-order-key',
+        severity: 'warning',
+        pointer: '/x-jsf-order/1',
+        message: 'Unknown property "frist_name" in x-jsf-order',
+      },
+    ])
+  })
+
+  it('reports the references to missing json-logic validations and computed values, in nested schemas too', () => {
+    const invalidSchema: JsfSchema = {
+      ...schema,
+      'x-jsf-logic': { computedValues: { start: { rule: { var: 'start_date' } } } },
+      'allOf': [{
+        properties: {
+          start_date: { 'x-jsf-logic-computedAttrs': { title: 'startTitle', description: 'Since {{ start }} ({{ duration }})' } },
+        },
+      }],
+    }
+
+    expect(lintSchema(invalidSchema)).toEqual([
+      {
+        rule: 'missing-computed-value',
+        severity: 'error',
+        pointer: '/allOf/0/properties/start_date/x-jsf-logic-computedAttrs/title',
+        message: 'Computed value "startTitle" isn\'t declared in x-jsf-logic',
+      },
+      {
+        rule: 'missing-computed-value',
+        severity: 'error',
+        pointer: '/allOf/0/properties/start_date/x-jsf-logic-computedAttrs/description',
+        message: 'Computed value "duration" isn\'t declared in x-jsf-logic',
+      },
+      {
+        rule: 'missing-logic-validation',
+        severity: 'error',
+        pointer: '/properties/end_date/x-jsf-logic-validations/0',
+        message: 'Validation "after_start" isn\'t declared in x-jsf-logic',
+      },
+    ])
+  })
+
+  it('reports unknown input types and invalid layouts', () => {
+    const invalidSchema = {
+      type: 'object',
+      properties: {
+        address: {
+          'type': 'array',
+          'items': {
+            'type': 'object',
+            'properties': { street: { 'type': 'string', 'x-jsf-presentation': { inputType: 'txt' } } },
+            'x-jsf-layout': { columns: 0 },
+          },
+          'x-jsf-order': ['street', 'city'],
+        },
+      },
+    } as unknown as JsfSchema
+
+    expect(lintSchema(invalidSchema)).toEqual([
+      expect.objectContaining({ rule: 'unknown-order-key', pointer: '/properties/address/x-jsf-order/1' }),
+      {
+        rule: 'invalid-layout',
+        severity: 'error',
+        pointer: '/properties/address/items/x-jsf-layout',
+        message: 'Invalid layout configuration in x-jsf-layout',
+      },
+      {
+        rule: 'unknown-input-type',
+        severity: 'error',
+        pointer: '/properties/address/items/properties/street/x-jsf-presentation/inputType',
+        message: 'Unknown input type "txt"',
+      },
+    ])
+  })
+})
@@ -0,0 +1,82 @@
+import type { JsfObjectSchema } from '../src'
+import type { JsfSchema } from '../src/types'
+import { describe, expect, it } from '@jest/globals'
+import { createHeadlessForm, createValidator, validateFormSchema } from '../src'
+
+const schema: JsfObjectSchema = {
+  'type': 'object',
+  'properties': {
+    name: {
+      'type': 'string',
+      'minLength': 2,
+      'x-jsf-presentation': { inputType: 'text' },
+      'x-jsf-errorMessage': { minLength: 'Too short', pattern: { message: 'Unusual name', severity: 'warning' } },
+    },
+    age: { 'type': 'integer', 'x-jsf-logic-validations': ['adult'], 'x-jsf-layout': { colSpan: { sm: 1, md: 2 } } },
+  },
+  'required': ['name'],
+  '$defs': { amount: { type: 'number', minimum: 0 } },
+  'x-jsf-order': ['name', 'age'],
+  'x-jsf-layout': { type: 'columns', columns: 2 },
+  'x-jsf-logic': {
+    validations: { adult: { errorMessage: 'Too young', rule: { '>=': [{ var: 'age' }, 18] } } },
+  },
+}
+
+describe('validateFormSchema', () => {
+  it('is valid for schemas using the x-jsf-* extensions', () => {
+    expect(validateFormSchema(schema)).toEqual({ valid: true })
+  })
+
+  it('returns the JSON pointer to each invalid part of the schema', () => {
+    const invalidSchema = {
+      'type': 'object',
+      'properties': {
+        age: { 'type': 'integr', 'minimum': '18', 'x-jsf-layout': { columns: 0 } },
+      },
+      '$defs': { amount: { required: 'value' } },
+      'x-jsf-order': 'age',
+      'x-jsf-logic': { validations: { adult: { errorMessage: 'Too young' } } },
+    } as unknown as JsfSchema
+
+    expect(validateFormSchema(invalidSchema).errors?.map(({ instanceLocation }) => instanceLocation)).toEqual([
+      '/properties/age/x-jsf-layout/columns',
+      '/properties/age/minimum',
+      '/properties/age/type',
+      '/x-jsf-order',
+      '/$defs/amount/required',
+      '/x-jsf-logic/validations/adult',
+    ])
+  })
+
+  it('locates the meta-schema keyword that is not valid', () => {
+    const invalidSchema = { type: 'object', properties: { age: { minimum: '18' } } } as unknown as JsfSchema
+
+    expect(validateFormSchema(invalidSchema)).toEqual({
+      valid: false,
+      errors: [{
+        valid: false,
+        keywordLocation: '/properties/properties/additionalProperties/$ref/allOf/0/$ref/properties/minimum/type',
+        absoluteKeywordLocation: 'http://json-schema.org/draft-07/schema#/properties/minimum/type',
+        instanceLocation: '/properties/age/minimum',
+        error: 'The value must be a number',
+      }],
+    })
+  })
+})
+
+describe('strictSchema', () => {
+  const invalidSchema = { type: 'object', properties: { age: { type: 'integr' } } } as unknown as JsfObjectSchema
+
+  it('throws for invalid schemas', () => {
+    const message = '[json-schema-form] Invalid schema:\n- "/properties/age/type": The option "integr" is not valid.'
+
+    expect(() => createHeadlessForm(invalidSchema, { strictSchema: true })).toThrow(message)
+    expect(() => createValidator(invalidSchema, { strictSchema: true })).toThrow(message)
+    expect(() => createHeadlessForm(schema, { strictSchema: true })).not.toThrow()
+  })
+
+  it('is disabled by default', () => {
+    expect(() => createHeadlessForm(invalidSchema)).not.toThrow()
+  })
+})
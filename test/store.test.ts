@@ -0,0 +1,191 @@
+import type { FormChangeEvent, JsfObjectSchema } from '../src'
+import { describe, expect, it } from '@jest/globals'
+import { createHeadlessForm } from '../src'
+import { getField } from '../src/utils'
+
+const schema: JsfObjectSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    has_pet: { type: 'string', enum: ['yes', 'no'] },
+    pet_name: { type: 'string' },
+    address: {
+      type: 'object',
+      properties: { street: { type: 'string' }, number: { type: 'string' } },
+    },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+  allOf: [{
+    if: { properties: { has_pet: { const: 'yes' } }, required: ['has_pet'] },
+    then: { required: ['pet_name'] },
+    else: { properties: { pet_name: false } },
+  }],
+}
+
+describe('form store', () => {
+  it('keeps the values, starting with the initial values', () => {
+    const form = createHeadlessForm(schema, { initialValues: { name: 'Jane' } })
+
+    expect(form.getValues()).toEqual({ name: 'Jane' })
+
+    form.setValue('address.street', 'Main St')
+    form.setValue(['tags', 1], 'b')
+    expect(form.getValues()).toEqual({ name: 'Jane', address: { street: 'Main St' }, tags: [undefined, 'b'] })
+
+    form.setValue('name', undefined)
+    expect(form.getValues()).toEqual({ address: { street: 'Main St' }, tags: [undefined, 'b'] })
+  })
+
+  it('doesn\'t mutate the previous values', () => {
+    const initialValues = { address: { street: 'Main St' } }
+    const form = createHeadlessForm(schema, { initialValues })
+    const values = form.getValues()
+
+    form.setValue('address.number', '1')
+
+    expect(values).toEqual({ address: { street: 'Main St' } })
+    expect(initialValues).toEqual({ address: { street: 'Main St' } })
+    expect(form.getValues()).toEqual({ address: { street: 'Main St', number: '1' } })
+  })
+
+  it('updates the fields for the new values', () => {
+    const form = createHeadlessForm(schema)
+    const petName = getField(form.fields, 'pet_name')!
+
+    expect(petName).toMatchObject({ isVisible: false, required: false })
+
+    form.setValue('has_pet', 'yes')
+    expect(petName).toMatchObject({ isVisible: true, required: true })
+
+    form.setValue('has_pet', 'no')
+    expect(petName).toMatchObject({ isVisible: false, required: false })
+  })
+
+  it('notifies the listeners with the affected fields', () => {
+    const form = createHeadlessForm(schema)
+    const events: FormChangeEvent[] = []
+    const unsubscribe = form.subscribe(event => events.push(event))
+
+    form.setValue('has_pet', 'yes')
+    form.setValue('address.street', 'Main St')
+    // Setting the same value doesn't notify the listeners
+    form.setValue('address.street', 'Main St')
+    unsubscribe()
+    form.setValue('name', 'Jane')
+
+    expect(events).toEqual([
+      { values: { has_pet: 'yes' }, paths: ['/has_pet', '/pet_name'] },
+      { values: { has_pet: 'yes', address: { street: 'Main St' } }, paths: ['/address/street'] },
+    ])
+  })
+})
+
+describe('form state', () => {
+  it('tracks the touched fields', () => {
+    const form = createHeadlessForm(schema)
+    const events: FormChangeEvent[] = []
+    form.subscribe(event => events.push(event))
+
+    form.setTouched('address.street')
+    form.setTouched('address.street')
+
+    expect(form.getFieldState('address.street')).toEqual({ touched: true, dirty: false })
+    expect(form.getFieldState('address')).toEqual({ touched: true, dirty: false })
+    expect(form.getFieldState('name')).toEqual({ touched: false, dirty: false })
+    expect(events).toEqual([{ values: {}, paths: ['/address/street'] }])
+
+    form.setTouched(['address', 'street'], false)
+    expect(form.getFieldState('address')).toEqual({ touched: false, dirty: false })
+  })
+
+  it('exposes the state of the fields on the fields', () => {
+    const form = createHeadlessForm(schema, { initialValues: { name: 'Jane' } })
+    const name = getField(form.fields, 'name')!
+    const street = getField(form.fields, 'address', 'street')!
+    let stateInListener
+    form.subscribe(() => {
+      stateInListener = { touched: street.touched, dirty: street.dirty }
+    })
+
+    expect(name).toMatchObject({ touched: false, dirty: false })
+
+    form.setValue('name', 'John')
+    form.setTouched('address.street')
+    expect(name).toMatchObject({ touched: false, dirty: true })
+    expect(getField(form.fields, 'address')).toMatchObject({ touched: true, dirty: false })
+    expect(stateInListener).toEqual({ touched: true, dirty: false })
+
+    // The state is kept when the fields are updated for other values
+    form.handleValidation({ has_pet: 'yes' })
+    expect(street).toMatchObject({ touched: true, dirty: false })
+
+    form.reset()
+    expect(name).toMatchObject({ touched: false, dirty: false })
+    expect(street).toMatchObject({ touched: false, dirty: false })
+  })
+
+  it('compares the values with the initial values', () => {
+    const form = createHeadlessForm(schema, { initialValues: { name: 'Jane', tags: ['a'] } })
+
+    form.setValue('name', 'John')
+    form.setValue(['tags', 0], 'b')
+    form.setValue(['tags', 0], 'a')
+
+    expect(form.getFieldState('name')).toEqual({ touched: false, dirty: true })
+    expect(form.getFieldState('tags')).toEqual({ touched: false, dirty: false })
+    expect(form.getFormState()).toEqual({ isDirty: true, isSubmitting: false, submitCount: 0 })
+
+    form.setValue('name', 'Jane')
+    expect(form.getFormState()).toEqual({ isDirty: false, isSubmitting: false, submitCount: 0 })
+  })
+
+  it('tracks the submissions', async () => {
+    const form = createHeadlessForm(schema, { initialValues: { name: 'Jane' } })
+    let stateWhileSubmitting
+
+    const result = await form.submit((values) => {
+      stateWhileSubmitting = form.getFormState()
+      return values.name
+    })
+
+    expect(result).toBe('Jane')
+    expect(stateWhileSubmitting).toEqual({ isDirty: false, isSubmitting: true, submitCount: 1 })
+    expect(form.getFormState()).toEqual({ isDirty: false, isSubmitting: false, submitCount: 1 })
+
+    await expect(form.submit(() => Promise.reject(new Error('Network error')))).rejects.toThrow('Network error')
+    expect(form.getFormState()).toEqual({ isDirty: false, isSubmitting: false, submitCount: 2 })
+  })
+
+  it('resets to the initial values', async () => {
+    const form = createHeadlessForm(schema, { initialValues: { has_pet: 'yes', pet_name: 'Rex' } })
+    form.setValue('pet_name', 'Max')
+    form.setTouched('pet_name')
+    await form.submit(() => {})
+    const events: FormChangeEvent[] = []
+    form.subscribe(event => events.push(event))
+
+    form.reset()
+
+    expect(form.getValues()).toEqual({ has_pet: 'yes', pet_name: 'Rex' })
+    expect(form.getFieldState('pet_name')).toEqual({ touched: false, dirty: false })
+    expect(form.getFormState()).toEqual({ isDirty: false, isSubmitting: false, submitCount: 0 })
+    expect(events).toEqual([{ values: { has_pet: 'yes', pet_name: 'Rex' }, paths: ['/pet_name'] }])
+  })
+
+  it('resets to new initial values', () => {
+    const form = createHeadlessForm(schema, { initialValues: { has_pet: 'yes', pet_name: 'Rex' } })
+    const petName = getField(form.fields, 'pet_name')!
+
+    form.reset({ has_pet: 'no' })
+
+    expect(form.getValues()).toEqual({ has_pet: 'no' })
+    expect(form.getFormState().isDirty).toBe(false)
+    expect(petName.isVisible).toBe(false)
+
+    form.setValue('has_pet', 'yes')
+    expect(form.getFieldState('has_pet').dirty).toBe(true)
+
+    form.reset()
+    expect(form.getValues()).toEqual({ has_pet: 'no' })
+  })
+})
@@ -0,0 +1,101 @@
+import type { JsfObjectSchema } from '../src'
+import { describe, expect, it } from '@jest/globals'
+import { createHeadlessForm } from '../src'
+
+const schema: JsfObjectSchema = {
+  type: 'object',
+  properties: {
+    has_pet: { type: 'string', enum: ['yes', 'no'] },
+    pet_name: { type: 'string' },
+    pet_kind: { type: 'string', default: 'dog' },
+    address: {
+      type: 'object',
+      properties: {
+        country: { type: 'string' },
+        state: { type: 'string' },
+      },
+      allOf: [{
+        if: { properties: { country: { const: 'US' } }, required: ['country'] },
+        else: { properties: { state: false } },
+      }],
+    },
+    dependents: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          relationship: { type: 'string' },
+          school: { type: 'string' },
+        },
+        allOf: [{
+          if: { properties: { relationship: { const: 'child' } }, required: ['relationship'] },
+          else: { properties: { school: false } },
+        }],
+      },
+    },
+  },
+  allOf: [{
+    if: { properties: { has_pet: { const: 'yes' } }, required: ['has_pet'] },
+    else: { properties: { pet_name: false, pet_kind: false } },
+  }],
+}
+
+const values = {
+  has_pet: 'no',
+  pet_name: 'Rex',
+  pet_kind: 'cat',
+  address: { country: 'PT', state: 'CA' },
+  dependents: [
+    { relationship: 'child', school: 'Oak School' },
+    { relationship: 'spouse', school: 'Pine School' },
+  ],
+}
+
+describe('getSubmitValues', () => {
+  it('removes the values of the hidden fields by default', () => {
+    const form = createHeadlessForm(schema)
+
+    expect(form.getSubmitValues(values)).toEqual({
+      has_pet: 'no',
+      address: { country: 'PT' },
+      dependents: [{ relationship: 'child', school: 'Oak School' }, { relationship: 'spouse' }],
+    })
+    // Hidden fields with values are forbidden
+    const { dependents: _, ...fieldsetValues } = values
+    expect(form.handleValidation(fieldsetValues).formErrors).toEqual({ pet_name: 'Not allowed', pet_kind: 'Not allowed', address: { state: 'Not allowed' } })
+    expect(form.handleValidation(form.getSubmitValues(fieldsetValues)).formErrors).toBeUndefined()
+    // The values aren't mutated
+    expect(values.address).toEqual({ country: 'PT', state: 'CA' })
+  })
+
+  it('resets the values of the hidden fields to their default', () => {
+    const form = createHeadlessForm(schema)
+
+    expect(form.getSubmitValues(values, { hiddenValues: 'default' })).toEqual({
+      has_pet: 'no',
+      pet_kind: 'dog',
+      address: { country: 'PT' },
+      dependents: [{ relationship: 'child', school: 'Oak School' }, { relationship: 'spouse' }],
+    })
+  })
+
+  it('keeps the values of the hidden fields', () => {
+    const form = createHeadlessForm(schema)
+
+    expect(form.getSubmitValues(values, { hiddenValues: 'keep' })).toEqual(values)
+  })
+
+  it('keeps the values of the visible fields', () => {
+    const form = createHeadlessForm(schema)
+    const visibleValues = { has_pet: 'yes', pet_name: 'Rex', address: { country: 'US', state: 'CA' } }
+
+    expect(form.getSubmitValues(visibleValues)).toEqual(visibleValues)
+  })
+
+  it('doesn\'t add the names of Object.prototype members to the values', () => {
+    const form = createHeadlessForm({ type: 'object', properties: { constructor: { type: 'string' }, toString: { type: 'string' } } })
+
+    expect(form.getSubmitValues({})).toEqual({})
+    expect(form.getSubmitValues({ toString: 'a' }, { hiddenValues: 'default' })).toEqual({ toString: 'a' })
+  })
+})
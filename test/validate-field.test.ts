@@ -0,0 +1,123 @@
+import type { JsfObjectSchema } from '../src'
+import { describe, expect, it, jest } from '@jest/globals'
+import { createHeadlessForm } from '../src'
+
+const schema: JsfObjectSchema = {
+  'type': 'object',
+  'properties': {
+    name: { type: 'string', minLength: 2 },
+    has_pet: { type: 'string', enum: ['yes', 'no'] },
+    pet_name: { type: 'string' },
+    address: {
+      type: 'object',
+      properties: { street: { type: 'string', minLength: 3 }, number: { type: 'number' } },
+      required: ['street'],
+    },
+    start_date: { type: 'string' },
+    end_date: { 'type': 'string', 'x-jsf-logic-validations': ['after_start'] },
+  },
+  'required': ['name'],
+  'if': { properties: { has_pet: { const: 'yes' } }, required: ['has_pet'] },
+  'then': { required: ['pet_name'] },
+  'x-jsf-logic': {
+    validations: {
+      after_start: {
+        errorMessage: 'Must be after the start date',
+        rule: { '>': [{ var: 'end_date' }, { var: 'start_date' }] },
+      },
+    },
+  },
+}
+
+describe('validateField', () => {
+  it('only returns the errors of the field', () => {
+    const { validateField } = createHeadlessForm(schema)
+
+    expect(validateField('name', { name: 'J', address: { street: 'a' } })).toEqual({
+      formErrors: { name: 'Please insert at least 2 characters' },
+      errors: [expect.objectContaining({ path: ['name'], validation: 'minLength' })],
+    })
+    expect(validateField('pet_name', { name: 'J' })).toEqual({})
+  })
+
+  it('takes into account the conditionals and json-logic rules that reference other fields', () => {
+    const { validateField } = createHeadlessForm(schema)
+
+    expect(validateField('pet_name', { has_pet: 'yes' }).formErrors).toEqual({ pet_name: 'Required field' })
+    expect(validateField('pet_name', { has_pet: 'no' })).toEqual({})
+    expect(validateField('end_date', { start_date: '2024-02-01', end_date: '2024-01-01' }).formErrors).toEqual({
+      end_date: 'Must be after the start date',
+    })
+    expect(validateField('end_date', { start_date: '2024-01-01', end_date: '2024-02-01' })).toEqual({})
+  })
+
+  it('supports nested fields, by name or by path', () => {
+    const { validateField } = createHeadlessForm(schema)
+    const values = { address: { street: 'a', number: 'b' } }
+
+    expect(validateField('address.street', values).formErrors).toEqual({ address: { street: 'Please insert at least 3 characters' } })
+    expect(validateField(['address', 'number'], values).formErrors).toEqual({ address: { number: 'The value must be a number' } })
+    expect(validateField('address', values).errors).toEqual([
+      expect.objectContaining({ path: ['address', 'street'] }),
+      expect.objectContaining({ path: ['address', 'number'] }),
+    ])
+  })
+
+  it('supports array items', () => {
+    const { validateField } = createHeadlessForm({
+      type: 'object',
+      properties: { tags: { type: 'array', items: { type: 'string', minLength: 2 } } },
+    })
+
+    expect(validateField(['tags', 1], { tags: ['ab', 'c'] }).formErrors).toEqual({ tags: [undefined, 'Please insert at least 2 characters'] })
+    expect(validateField('tags.0', { tags: ['ab', 'c'] })).toEqual({})
+  })
+
+  it('only validates the schema of the field', () => {
+    const isSlug = jest.fn((value: unknown) => typeof value === 'string' && /^[a-z-]+$/.test(value))
+    const { validateField } = createHeadlessForm({
+      type: 'object',
+      properties: { slug: { type: 'string', format: 'slug' }, title: { type: 'string' } },
+    }, { customFormats: { slug: isSlug } })
+
+    expect(validateField('title', { slug: 'Not a slug', title: 'Title' })).toEqual({})
+    expect(isSlug).not.toHaveBeenCalled()
+  })
+
+  it('doesn\'t update the fields', () => {
+    const { fields, validateField } = createHeadlessForm(schema)
+
+    expect(validateField('pet_name', { has_pet: 'yes' }).formErrors).toEqual({ pet_name: 'Required field' })
+    expect(fields.find(field => field.name === 'pet_name')?.required).toBe(false)
+  })
+})
+
+describe('validatePaths', () => {
+  it('only returns the errors of the given fields', () => {
+    const { validatePaths } = createHeadlessForm(schema)
+    const values = { name: 'J', has_pet: 'yes', address: {} }
+
+    expect(validatePaths(['name', 'address.street'], values).formErrors).toEqual({
+      name: 'Please insert at least 2 characters',
+      address: { street: 'Required field' },
+    })
+    expect(validatePaths([], values)).toEqual({})
+  })
+
+  it('returns the errors of nested paths once', () => {
+    const { validatePaths } = createHeadlessForm(schema)
+
+    expect(validatePaths(['address', 'address.street'], { address: { street: 'a' } }).errors).toEqual([
+      expect.objectContaining({ path: ['address', 'street'], validation: 'minLength' }),
+    ])
+  })
+
+  it('doesn\'t consider the names of Object.prototype members as declared properties', () => {
+    const { validatePaths } = createHeadlessForm({ type: 'object', properties: { name: { type: 'string' } }, additionalProperties: false })
+
+    expect(validatePaths(['toString'], {})).toEqual({})
+    expect(validatePaths(['toString'], { toString: 'a' }).errors).toEqual([
+      expect.objectContaining({ path: ['toString'], validation: 'additionalProperties' }),
+    ])
+  })
+})
@@ -0,0 +1,218 @@
+import type { JsfObjectSchema, JsfSchema, SchemaValue } from '../../src/types'
+import type { ValidationOptions } from '../../src/validation/schema'
+import { describe, expect, it } from '@jest/globals'
+import { compileFormSchema, compileSchema } from '../../src/validation/compile'
+import { validateSchema } from '../../src/validation/schema'
+
+/**
+ * Schemas and values to compare the compiled validator with the interpreter (`validateSchema`), which is the reference
+ */
+const cases: Array<{ name: string, schema: JsfSchema, values: SchemaValue[], options?: ValidationOptions }> = [
+  {
+    name: 'types',
+    schema: { type: ['integer', 'null'] },
+    values: [1, 1.5, null, 'a', [], {}, true, undefined],
+  },
+  {
+    name: 'strings',
+    schema: { type: 'string', minLength: 2, maxLength: 4, pattern: '^[a-z]+$', format: 'email' },
+    values: ['a', 'ab', 'abcde', 'AB', '👍🏽👍🏽', 'a@b.co', 1],
+  },
+  {
+    name: 'numbers',
+    schema: { type: 'number', minimum: 0, exclusiveMaximum: 10, multipleOf: 2 },
+    values: [-2, 0, 3, 10, 12, '4'],
+  },
+  {
+    name: 'const and enum',
+    schema: { anyOf: [{ const: { a: [1] } }, { enum: ['x', 2, null] }] },
+    values: [{ a: [1] }, { a: [2] }, 'x', 2, null, 'y'],
+  },
+  {
+    name: 'objects',
+    schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        address: { type: 'object', properties: { street: { type: 'string' } }, required: ['street'] },
+      },
+      patternProperties: { '^x-': { type: 'string' } },
+      required: ['name'],
+      additionalProperties: false,
+      propertyNames: { maxLength: 8 },
+      minProperties: 1,
+      maxProperties: 3,
+      dependentRequired: { name: ['address'] },
+    },
+    values: [{}, { name: '' }, { name: [] }, { name: 'a', address: {} }, { 'name': 'a', 'address': { street: 1 }, 'x-id': 'b', 'other': 1 }, { longpropertyname: 1 }],
+  },
+  {
+    name: 'property schemas',
+    schema: {
+      type: 'object',
+      properties: { name: { type: 'string' } },
+      patternProperties: { '^price_': { type: 'number' }, '_eur$': { minimum: 0 } },
+      additionalProperties: { type: 'boolean' },
+    },
+    values: [{ name: 'a', price_usd: 1, active: true }, { name: 1, price_eur: -1, price_usd: 'a', active: 'yes' }],
+  },
+  {
+    name: 'arrays',
+    schema: {
+      type: 'array',
+      prefixItems: [{ type: 'string' }],
+      items: { type: 'number' },
+      minItems: 2,
+      maxItems: 4,
+      uniqueItems: true,
+      contains: { type: 'number', minimum: 10 },
+      maxContains: 1,
+    },
+    values: [[], ['a'], ['a', 1], ['a', 10, 11], [1, 'b', 1, 1, 1], ['a', 10, 10]],
+  },
+  {
+    name: 'composition',
+    schema: {
+      type: 'object',
+      properties: {
+        nested: { anyOf: [{ type: 'string' }, { type: 'number' }] },
+        one: { oneOf: [{ type: 'number', multipleOf: 2 }, { type: 'number', multipleOf: 3 }] },
+        not: { not: { type: 'string' } },
+      },
+      allOf: [{ required: ['a'] }, { properties: { a: { type: 'string' } } }],
+      anyOf: [{ required: ['b'] }, { required: ['c'] }],
+    },
+    values: [{}, { a: 'a', b: 1 }, { a: 1, c: 1 }, { a: 'a', b: 1, nested: true, one: 6, not: 'x' }, { a: 'a', c: 1, one: 4, not: 1, nested: 'x' }],
+  },
+  {
+    name: 'conditionals',
+    schema: {
+      'type': 'object',
+      'properties': { kind: { type: 'string' }, vat: { type: 'string' }, age: { type: 'number' } },
+      'if': { properties: { kind: { const: 'company' } }, required: ['kind'] },
+      'then': { required: ['vat'] },
+      'else': { properties: { vat: false } },
+      'dependentSchemas': { age: { properties: { age: { minimum: 18 } } }, vat: false },
+      'unevaluatedProperties': false,
+      'x-jsf-logic': {
+        validations: { adult: { errorMessage: 'Too young', rule: { '>=': [{ var: 'age' }, 18] } } },
+        allOf: [{ if: { required: ['age'] }, then: { required: ['kind'] } }],
+      },
+    },
+    values: [{}, { kind: 'company' }, { kind: 'company', vat: 'x' }, { kind: 'person', vat: 'x' }, { age: 10 }, { age: 20, kind: 'person', other: 1 }],
+  },
+  {
+    name: 'json-logic validations',
+    schema: {
+      'type': 'object',
+      'properties': { age: { 'type': 'number', 'x-jsf-logic-validations': ['adult'] } },
+      'x-jsf-logic': { validations: { adult: { errorMessage: 'Too young', rule: { '>=': [{ var: 'age' }, 18] } } } },
+    },
+    values: [{}, { age: 10 }, { age: 20 }],
+  },
+  {
+    name: 'warnings',
+    schema: {
+      'type': 'object',
+      'properties': {
+        code: { anyOf: [{ 'type': 'string', 'maxLength': 3, 'x-jsf-errorMessage': { maxLength: { message: 'Long code', severity: 'warning' } } }, { type: 'number' }] },
+        age: { 'type': 'number', 'x-jsf-logic-validations': ['adult'] },
+      },
+      'allOf': [{ properties: { age: { 'maximum': 99, 'x-jsf-errorMessage': { maximum: { message: 'Too old', severity: 'warning' } } } } }, { properties: { age: { minimum: 0 } } }],
+      'if': { properties: { age: { 'x-jsf-logic-validations': ['adult'] } } },
+      'then': { required: ['code'] },
+      'x-jsf-logic': { validations: { adult: { errorMessage: 'Too young', rule: { '>=': [{ var: 'age' }, 18] }, severity: 'warning' } } },
+    },
+    values: [{}, { code: 'ABCD' }, { age: 10 }, { age: 120, code: 1 }, { age: -1 }],
+  },
+  {
+    name: 'references',
+    schema: {
+      $defs: {
+        node: { type: 'object', properties: { value: { type: 'number' }, children: { type: 'array', items: { $ref: '#/$defs/node' } } } },
+      },
+      $ref: '#/$defs/node',
+    },
+    values: [{ value: 1 }, { value: 'a', children: [{ value: 2 }, { value: 'b', children: [{ value: 'c' }] }] }],
+  },
+  {
+    name: 'presentation keywords',
+    schema: {
+      type: 'object',
+      properties: {
+        birthdate: { 'type': 'string', 'format': 'date', 'x-jsf-presentation': { inputType: 'date', minDate: '2000-01-01' } },
+        file: { 'x-jsf-presentation': { inputType: 'file', maxFileSize: 1, accept: '.pdf' } },
+      },
+    },
+    values: [{ birthdate: '1990-01-01' }, { file: [{ name: 'a.txt', size: 2048 }] }, { file: [{ name: 'a.pdf', size: 100 }] }],
+  },
+  {
+    name: 'null values as undefined',
+    schema: { type: 'object', properties: { a: { type: 'string' } }, required: ['a'] },
+    values: [{ a: null }, { a: 'a' }, null],
+    options: { treatNullAsUndefined: true },
+  },
+]
+
+describe('compileSchema', () => {
+  it.each(cases)('returns the same errors as validateSchema ($name)', ({ schema, values, options }) => {
+    const validate = compileSchema(schema, options)
+
+    for (const value of values) {
+      expect(validate(value)).toEqual(validateSchema(value, schema, options))
+    }
+  })
+
+  it('reuses the validator for repeated validations', () => {
+    const schema: JsfSchema = { type: 'object', properties: { name: { type: 'string', minLength: 3 } } }
+    const validate = compileSchema(schema)
+
+    expect(validate({ name: 'Jo' })).toHaveLength(1)
+    expect(validate({ name: 'John' })).toEqual([])
+    expect(validate({ name: 'J' }, ['person'])).toEqual([
+      expect.objectContaining({ path: ['person', 'name'], validation: 'minLength' }),
+    ])
+  })
+})
+
+describe('compileFormSchema', () => {
+  const schema: JsfObjectSchema = {
+    type: 'object',
+    properties: {
+      has_pet: { type: 'string', enum: ['yes', 'no'] },
+      pet_name: { type: 'string' },
+      notes: { type: 'string', maxLength: 5 },
+    },
+    allOf: [{ if: { properties: { has_pet: { const: 'yes' } }, required: ['has_pet'] }, then: { required: ['pet_name'] } }],
+  }
+
+  it('reuses the final schema while the values of the conditions don\'t change', () => {
+    const getCompiledSchema = compileFormSchema(schema)
+    const compiled = getCompiledSchema({ has_pet: 'yes' })
+
+    expect(getCompiledSchema({ has_pet: 'yes', notes: 'a' })).toBe(compiled)
+    expect(getCompiledSchema({ has_pet: 'no' })).not.toBe(compiled)
+    expect(getCompiledSchema({ has_pet: 'no' }).schema.required).toBeUndefined()
+    expect(getCompiledSchema({ has_pet: 'yes', notes: 'too long' }).validate({ has_pet: 'yes', notes: 'too long' })).toEqual([
+      expect.objectContaining({ path: ['pet_name'], validation: 'required' }),
+      expect.objectContaining({ path: ['notes'], validation: 'maxLength' }),
+    ])
+  })
+
+  it('calculates the final schema every time when the conditions might read any value', () => {
+    const getCompiledSchema = compileFormSchema({ ...schema, if: { minProperties: 2 }, then: { required: ['notes'] } })
+
+    expect(getCompiledSchema({ has_pet: 'no' })).not.toBe(getCompiledSchema({ has_pet: 'no' }))
+  })
+
+  it('takes into account the values read by json-logic rules', () => {
+    const getCompiledSchema = compileFormSchema({
+      ...schema,
+      'x-jsf-logic': { computedValues: { max: { rule: { '+': [{ var: 'notes' }, 1] } } } },
+    })
+    const compiled = getCompiledSchema({ has_pet: 'no', notes: 'a' })
+
+    expect(getCompiledSchema({ has_pet: 'no', notes: 'a' })).toBe(compiled)
+    expect(getCompiledSchema({ has_pet: 'no', notes: 'b' })).not.toBe(compiled)
+  })
+})
@@ -0,0 +1,152 @@
+import type { JsfObjectSchema } from '../../src/types'
+import { describe, expect, it } from '@jest/globals'
+import { createHeadlessForm } from '../../src'
+import { validateSchema } from '../../src/validation/schema'
+import { errorLike } from '../test-utils'
+
+describe('dependentRequired', () => {
+  const schema: JsfObjectSchema = {
+    type: 'object',
+    properties: {
+      iban: { type: 'string' },
+      bic: { type: 'string' },
+      bank_name: { type: 'string' },
+    },
+    dependentRequired: {
+      iban: ['bic', 'bank_name'],
+    },
+  }
+
+  it('does not require the dependencies when the property is not filled', () => {
+    expect(validateSchema({}, schema)).toEqual([])
+    expect(validateSchema({ bic: 'ABCDEFGH' }, schema)).toEqual([])
+  })
+
+  it('requires the dependencies when the property is filled', () => {
+    expect(validateSchema({ iban: 'PT50000201231234567890154', bic: 'ABCDEFGH' }, schema)).toEqual([
+      errorLike({ path: ['bank_name'], validation: 'dependentRequired' }),
+    ])
+    expect(validateSchema({ iban: 'PT50000201231234567890154', bic: 'ABCDEFGH', bank_name: 'Bank' }, schema)).toEqual([])
+  })
+
+  it('requires the dependencies when the property is present but empty', () => {
+    const listSchema: JsfObjectSchema = {
+      type: 'object',
+      properties: {
+        tags: { type: 'array' },
+        owner: { type: 'string' },
+      },
+      dependentRequired: { tags: ['owner'] },
+    }
+
+    expect(validateSchema({ tags: [] }, listSchema)).toEqual([
+      errorLike({ path: ['owner'], validation: 'dependentRequired' }),
+    ])
+    expect(validateSchema({ tags: undefined }, listSchema)).toEqual([])
+  })
+
+  it('treats null as a missing value with treatNullAsUndefined', () => {
+    const nullableSchema: JsfObjectSchema = {
+      type: 'object',
+      properties: {
+        iban: { type: ['string', 'null'] },
+        bic: { type: ['string', 'null'] },
+      },
+      dependentRequired: { iban: ['bic'] },
+    }
+
+    expect(validateSchema({ iban: null }, nullableSchema)).toEqual([
+      errorLike({ path: ['bic'], validation: 'dependentRequired' }),
+    ])
+    expect(validateSchema({ iban: null }, nullableSchema, { treatNullAsUndefined: true })).toEqual([])
+  })
+
+  it('returns the required error message for each missing dependency', () => {
+    const form = createHeadlessForm(schema)
+
+    expect(form.handleValidation({ iban: 'PT50000201231234567890154' })).toMatchObject({
+      formErrors: { bic: 'Required field', bank_name: 'Required field' },
+    })
+  })
+
+  it('marks the dependencies as required in the fields when the property is filled', () => {
+    const form = createHeadlessForm(schema)
+    const bicField = form.fields.find(field => field.name === 'bic')
+
+    expect(bicField?.required).toBe(false)
+    form.handleValidation({ iban: 'PT50000201231234567890154' })
+    expect(bicField?.required).toBe(true)
+    form.handleValidation({})
+    expect(bicField?.required).toBe(false)
+  })
+})
+
+describe('dependentSchemas', () => {
+  const schema: JsfObjectSchema = {
+    type: 'object',
+    properties: {
+      credit_card: { type: 'string' },
+      billing_address: { type: 'string' },
+    },
+    dependentSchemas: {
+      credit_card: {
+        properties: {
+          billing_address: { minLength: 5 },
+        },
+        required: ['billing_address'],
+      },
+    },
+  }
+
+  it('does not apply the subschema when the property is not filled', () => {
+    expect(validateSchema({ billing_address: 'abc' }, schema)).toEqual([])
+  })
+
+  it('applies the subschema to the whole object when the property is filled', () => {
+    expect(validateSchema({ credit_card: '5555555555554444' }, schema)).toEqual([
+      errorLike({ path: ['dependentSchemas', 'credit_card', 'billing_address'], validation: 'required' }),
+    ])
+    expect(validateSchema({ credit_card: '5555555555554444', billing_address: 'abc' }, schema)).toEqual([
+      errorLike({ path: ['dependentSchemas', 'credit_card', 'billing_address'], validation: 'minLength' }),
+    ])
+    expect(validateSchema({ credit_card: '5555555555554444', billing_address: 'Main Street' }, schema)).toEqual([])
+  })
+
+  it('applies the subschema when the property is present but empty', () => {
+    expect(validateSchema({ credit_card: '' }, schema)).toHaveLength(1)
+    expect(validateSchema({ credit_card: {} }, { ...schema, properties: {} })).toEqual([
+      errorLike({ path: ['dependentSchemas', 'credit_card', 'billing_address'], validation: 'required' }),
+    ])
+  })
+
+  it('forbids the property when its subschema is false', () => {
+    const forbiddenSchema: JsfObjectSchema = {
+      type: 'object',
+      properties: { nickname: { type: 'string' } },
+      dependentSchemas: { nickname: false },
+    }
+
+    expect(validateSchema({}, forbiddenSchema)).toEqual([])
+    expect(validateSchema({ nickname: 'jo' }, forbiddenSchema)).toEqual([
+      errorLike({ path: ['nickname'], validation: 'dependentSchemas' }),
+    ])
+  })
+
+  it('reports the errors on the fields of the form', () => {
+    const form = createHeadlessForm(schema)
+
+    expect(form.handleValidation({ credit_card: '5555555555554444', billing_address: 'abc' })).toMatchObject({
+      formErrors: { billing_address: 'Please insert at least 5 characters' },
+    })
+  })
+
+  it('updates the fields when the property is filled', () => {
+    const form = createHeadlessForm(schema)
+    const addressField = form.fields.find(field => field.name === 'billing_address')
+
+    expect(addressField?.required).toBe(false)
+    form.handleValidation({ credit_card: '5555555555554444' })
+    expect(addressField?.required).toBe(true)
+    expect(addressField?.minLength).toBe(5)
+  })
+})
@@ -1,5 +1,6 @@
 import type { NonBooleanJsfSchema } from '../../src/types'
 import { describe, expect, it } from '@jest/globals'
+import { createHeadlessForm, createValidator } from '../../src'
 import { validateString } from '../../src/validation/string'
 
 /**
@@ -242,4 +243,61 @@ describe('format validation', () => {
       expect(validateString('', schema)).toHaveLength(0)
     })
   })
+
+  describe('custom formats', () => {
+    const isPostalCode = (value: string) => /^\d{4}-\d{3}$/.test(value)
+    const customFormats = {
+      'postal-code': isPostalCode,
+      'iban': { validate: (value: string) => value.startsWith('PT50'), message: 'Must be a valid IBAN' },
+      'email': (value: string) => value.endsWith('@remote.com'),
+    }
+
+    it('should validate strings with the custom format functions', () => {
+      const schema: NonBooleanJsfSchema = { type: 'string', format: 'postal-code' }
+
+      expect(validateString('1000-001', schema, { customFormats })).toHaveLength(0)
+      expect(validateString('1000', schema, { customFormats })).toEqual([
+        expect.objectContaining({ validation: 'format', value: '1000' }),
+      ])
+      // Without the custom format, the format is unknown
+      expect(validateString('1000', schema)).toHaveLength(0)
+    })
+
+    it('should take precedence over the built-in formats', () => {
+      const schema: NonBooleanJsfSchema = { type: 'string', format: 'email' }
+
+      expect(validateString('user@example.com', schema, { customFormats })).toHaveLength(1)
+      expect(validateString('user@remote.com', schema, { customFormats })).toHaveLength(0)
+    })
+
+    it('should use the default message of the format in forms', () => {
+      const { handleValidation } = createHeadlessForm({
+        type: 'object',
+        properties: {
+          iban: { type: 'string', format: 'iban' },
+          zip: { type: 'string', format: 'postal-code' },
+        },
+      }, { customFormats })
+
+      expect(handleValidation({ iban: 'ES00', zip: '1000' }).formErrors).toEqual({
+        iban: 'Must be a valid IBAN',
+        zip: 'Must be a valid postal-code format',
+      })
+    })
+
+    it('should use the messages of the catalog for the format', () => {
+      const { validate } = createValidator({
+        type: 'object',
+        properties: { iban: { type: 'string', format: 'iban' } },
+      }, { customFormats, messages: { 'format.iban': 'IBAN inválido' } })
+
+      expect(validate({ iban: 'ES00' }).formErrors).toEqual({ iban: 'IBAN inválido' })
+    })
+
+    it('should throw for invalid custom formats', () => {
+      expect(() => createHeadlessForm({ type: 'object' }, { customFormats: { iban: 'nope' as any } })).toThrow(
+        'Custom format \'iban\' must be a function or an object with a validate function, but received type \'string\'.',
+      )
+    })
+  })
 })
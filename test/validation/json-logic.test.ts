@@ -193,6 +193,37 @@ describe('validateJsonLogicRules', () => {
     expect(jsonLogic.apply).toHaveBeenCalledTimes(2)
   })
 
+  it('returns the severity of warning validations', () => {
+    const schema: NonBooleanJsfSchema = {
+      'type': 'number',
+      'x-jsf-logic-validations': ['usual_salary'],
+    }
+
+    const jsonLogicContext: JsonLogicContext = {
+      schema: {
+        validations: {
+          usual_salary: {
+            rule: { '<': [{ var: 'salary' }, 500000] },
+            errorMessage: 'Salary is unusually high',
+            severity: 'warning',
+          },
+        },
+      },
+      value: { salary: 1000000 },
+    };
+
+    (jsonLogic.apply as jest.Mock).mockReturnValueOnce(false)
+
+    expect(validateJsonLogicRules(schema, jsonLogicContext)).toEqual([
+      errorLike({
+        path: [],
+        validation: 'json-logic',
+        customErrorMessage: 'Salary is unusually high',
+        severity: 'warning',
+      }),
+    ])
+  })
+
   describe('validateSchema integration with "x-jsf-logic"', () => {
     const validateSchema = SchemaValidation.validateSchema
 
@@ -0,0 +1,100 @@
+import type { CustomKeyword, CustomKeywordValidator } from '../../src'
+import type { JsfObjectSchema, JsfSchema } from '../../src/types'
+import { describe, expect, it } from '@jest/globals'
+import { compileSchema, createHeadlessForm, createValidator, getValidationOutput } from '../../src'
+import { validateSchema } from '../../src/validation/schema'
+
+const isWeekday = (value: string) => ![0, 6].includes(new Date(value).getUTCDay())
+
+const validateWeekday: CustomKeywordValidator = (value, schema, path) => {
+  return typeof value === 'string' && !isWeekday(value) ? [{ path, validation: 'x-weekday', schema, value }] : []
+}
+
+const customKeywords: Record<string, CustomKeyword> = {
+  'x-weekday': { validate: validateWeekday, message: 'Must be a weekday' },
+  'x-matches': (value, schema, path, { keyword, jsonLogicContext }) => {
+    const values = jsonLogicContext?.value as Record<string, unknown> | undefined
+    const other = values?.[(schema as Record<string, string>)[keyword]]
+    return value !== other ? [{ path, validation: keyword, schema, value }] : []
+  },
+}
+
+const schema = {
+  'type': 'object',
+  'properties': {
+    start: { 'type': 'string', 'format': 'date', 'x-weekday': true },
+    password: { type: 'string' },
+    confirmation: { 'type': 'string', 'x-matches': 'password', 'x-jsf-errorMessage': { 'x-matches': 'Passwords don\'t match' } },
+  },
+  // The json-logic context (with the form values) is available to the keywords of schemas with `x-jsf-logic`
+  'x-jsf-logic': {},
+} as JsfObjectSchema
+
+describe('custom keywords', () => {
+  it('validates the schemas with the keyword', () => {
+    expect(validateSchema({ start: '2024-06-01' }, schema, { customKeywords })).toEqual([
+      { path: ['start'], validation: 'x-weekday', schema: schema.properties!.start, value: '2024-06-01' },
+    ])
+    expect(validateSchema({ start: '2024-06-03' }, schema, { customKeywords })).toEqual([])
+    // Without the keyword validators, the keywords are ignored
+    expect(validateSchema({ start: '2024-06-01' }, schema)).toEqual([])
+  })
+
+  it('returns the same errors when the schema is compiled', () => {
+    const validate = compileSchema(schema, { customKeywords })
+
+    for (const value of [{ start: '2024-06-01' }, { password: 'a', confirmation: 'b' }, { password: 'a', confirmation: 'a' }]) {
+      expect(validate(value)).toEqual(validateSchema(value, schema, { customKeywords }))
+    }
+  })
+
+  it('uses the keyword messages and the x-jsf-errorMessage overrides in forms', () => {
+    const { handleValidation } = createHeadlessForm(schema, { customKeywords })
+
+    expect(handleValidation({ start: '2024-06-01', password: 'a', confirmation: 'b' })).toEqual({
+      formErrors: { start: 'Must be a weekday', confirmation: 'Passwords don\'t match' },
+      errors: [
+        expect.objectContaining({ path: ['start'], validation: 'x-weekday', message: 'Must be a weekday' }),
+        expect.objectContaining({ path: ['confirmation'], validation: 'x-matches', message: 'Passwords don\'t match' }),
+      ],
+    })
+    expect(handleValidation({ start: '2024-06-03', password: 'a', confirmation: 'a' })).toEqual({})
+  })
+
+  it('uses the catalog message of the keyword, or the default message', () => {
+    const { validate } = createValidator(schema, { customKeywords, messages: { 'x-weekday': 'Choose a weekday' } })
+    const { validate: validateWithoutMessages } = createValidator(schema, { customKeywords: { 'x-weekday': validateWeekday } })
+
+    expect(validate({ start: '2024-06-01' }).formErrors).toEqual({ start: 'Choose a weekday' })
+    expect(validateWithoutMessages({ start: '2024-06-01' }).formErrors).toEqual({ start: 'The value is not valid' })
+  })
+
+  it('locates the keyword in the validation output', () => {
+    expect(getValidationOutput({ start: '2024-06-01' }, schema, { customKeywords }).errors).toEqual([
+      { valid: false, keywordLocation: '/properties/start/x-weekday', instanceLocation: '/start', error: 'Must be a weekday' },
+    ])
+  })
+
+  it('recalculates the conditions that use custom keywords', () => {
+    const conditionalSchema: JsfSchema = {
+      type: 'object',
+      properties: { start: { type: 'string' }, reason: { type: 'string' } },
+      if: { 'x-starts-on-weekday': true } as JsfSchema,
+      else: { required: ['reason'] },
+    }
+    const startsOnWeekday: CustomKeywordValidator = (value, keywordSchema, path) => {
+      const start = (value as Record<string, string>).start
+      return start && !isWeekday(start) ? [{ path, validation: 'x-starts-on-weekday', schema: keywordSchema, value }] : []
+    }
+    const { validate } = createValidator(conditionalSchema as JsfObjectSchema, { customKeywords: { 'x-starts-on-weekday': startsOnWeekday } })
+
+    expect(validate({ start: '2024-06-03' }).formErrors).toBeUndefined()
+    expect(validate({ start: '2024-06-01' }).formErrors).toEqual({ reason: 'Required field' })
+  })
+
+  it('throws for invalid custom keywords', () => {
+    expect(() => createHeadlessForm(schema, { customKeywords: { 'x-weekday': 'nope' as any } })).toThrow(
+      'Custom keyword \'x-weekday\' must be a function or an object with a validate function, but received type \'string\'.',
+    )
+  })
+})
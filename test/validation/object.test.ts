@@ -1,6 +1,8 @@
 import type { JsfObjectSchema } from '../../src/types'
 import { describe, expect, it } from '@jest/globals'
 import { createHeadlessForm } from '../../src'
+import { validateSchema } from '../../src/validation/schema'
+import { errorLike } from '../test-utils'
 
 describe('object schema validation', () => {
   it('returns an error if the value is not an object', () => {
@@ -45,4 +47,104 @@ describe('object schema validation', () => {
       formErrors: { address: { street: 'The value must be a string' } },
     })
   })
+
+  describe('propertyNames', () => {
+    const schema: JsfObjectSchema = {
+      type: 'object',
+      properties: {
+        tags: {
+          type: 'object',
+          propertyNames: { pattern: '^[a-z_]+$' },
+          additionalProperties: { type: 'string' },
+        },
+      },
+    }
+
+    it('validates each property name against the schema', () => {
+      expect(validateSchema({ team: 'core', cost_center: '42' }, schema.properties!.tags)).toEqual([])
+      expect(validateSchema({ 'team': 'core', 'Cost-Center': '42' }, schema.properties!.tags)).toEqual([
+        errorLike({ path: ['Cost-Center'], validation: 'propertyNames', value: 'Cost-Center' }),
+      ])
+    })
+
+    it('does not allow any property when the schema is false', () => {
+      expect(validateSchema({}, { type: 'object', propertyNames: false })).toEqual([])
+      expect(validateSchema({ a: 1 }, { type: 'object', propertyNames: false }, { allowForbiddenValues: true })).toEqual([
+        errorLike({ path: ['a'], validation: 'propertyNames' }),
+      ])
+    })
+
+    it('returns an error message with the property name', () => {
+      const form = createHeadlessForm(schema)
+
+      expect(form.handleValidation({ tags: { Team: 'core' } })).toMatchObject({
+        formErrors: { tags: { Team: 'The property name "Team" is not valid' } },
+      })
+    })
+  })
+
+  describe('minProperties and maxProperties', () => {
+    const schema: JsfObjectSchema = {
+      type: 'object',
+      properties: {
+        tags: {
+          type: 'object',
+          minProperties: 1,
+          maxProperties: 2,
+        },
+      },
+    }
+
+    it('validates the number of properties', () => {
+      const tagsSchema = schema.properties!.tags
+
+      expect(validateSchema({ a: '1' }, tagsSchema)).toEqual([])
+      expect(validateSchema({ a: '1', b: '2' }, tagsSchema)).toEqual([])
+      expect(validateSchema({}, tagsSchema)).toEqual([errorLike({ path: [], validation: 'minProperties' })])
+      expect(validateSchema({ a: '1', b: '2', c: '3' }, tagsSchema)).toEqual([
+        errorLike({ path: [], validation: 'maxProperties' }),
+      ])
+    })
+
+    it('does not count properties without a value', () => {
+      expect(validateSchema({ a: undefined }, schema.properties!.tags)).toEqual([
+        errorLike({ path: [], validation: 'minProperties' }),
+      ])
+    })
+
+    it('returns an error message with the number of properties', () => {
+      const form = createHeadlessForm(schema)
+
+      expect(form.handleValidation({ tags: {} })).toMatchObject({
+        formErrors: { tags: 'Must have at least 1 property' },
+      })
+      expect(form.handleValidation({ tags: { a: '1', b: '2', c: '3' } })).toMatchObject({
+        formErrors: { tags: 'Must have at most 2 properties' },
+      })
+    })
+  })
+
+  describe('patternProperties and additionalProperties schemas', () => {
+    const schema: JsfObjectSchema = {
+      type: 'object',
+      properties: { name: { type: 'string' } },
+      patternProperties: { '^price_': { type: 'number', minimum: 0 } },
+      additionalProperties: { type: 'boolean' },
+    }
+
+    it('validates the properties matching a pattern against its schema', () => {
+      expect(validateSchema({ price_eur: 1, price_usd: 2 }, schema)).toEqual([])
+      expect(validateSchema({ price_eur: -1, price_usd: 'a' }, schema)).toEqual([
+        errorLike({ path: ['price_eur'], validation: 'minimum' }),
+        errorLike({ path: ['price_usd'], validation: 'type' }),
+      ])
+    })
+
+    it('validates the other properties against the additionalProperties schema', () => {
+      expect(validateSchema({ name: 'a', active: true }, schema)).toEqual([])
+      expect(validateSchema({ name: 'a', active: 'yes' }, schema)).toEqual([
+        errorLike({ path: ['active'], validation: 'type' }),
+      ])
+    })
+  })
 })
@@ -0,0 +1,149 @@
+import type { JsfSchema } from '../../src/types'
+import { describe, expect, it } from '@jest/globals'
+import { getValidationOutput } from '../../src'
+
+const schema: JsfSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 3 },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['name'],
+  additionalProperties: false,
+}
+
+describe('getValidationOutput', () => {
+  it('returns only the validity in the flag format', () => {
+    expect(getValidationOutput({ name: 'John' }, schema, { format: 'flag' })).toEqual({ valid: true })
+    expect(getValidationOutput({ name: 'J' }, schema, { format: 'flag' })).toEqual({ valid: false })
+  })
+
+  it('returns a flat list of errors in the basic format', () => {
+    expect(getValidationOutput({ name: 'John' }, schema)).toEqual({ valid: true })
+    expect(getValidationOutput({ name: 'J', tags: ['a', 1], other: true }, schema)).toEqual({
+      valid: false,
+      errors: [
+        { valid: false, keywordLocation: '/additionalProperties', instanceLocation: '/other', error: 'Additional property is not allowed' },
+        { valid: false, keywordLocation: '/properties/name/minLength', instanceLocation: '/name', error: 'Please insert at least 3 characters' },
+        { valid: false, keywordLocation: '/properties/tags/items/type', instanceLocation: '/tags/1', error: 'The value must be a string' },
+      ],
+    })
+  })
+
+  it('reports required properties on the parent value', () => {
+    expect(getValidationOutput({}, schema)).toEqual({
+      valid: false,
+      errors: [{ valid: false, keywordLocation: '/required', instanceLocation: '', error: 'Required field' }],
+    })
+  })
+
+  it('nests the errors by subschema in the detailed format', () => {
+    const allOfSchema: JsfSchema = {
+      allOf: [
+        { properties: { a: { type: 'number', minimum: 10, multipleOf: 3 }, b: { type: 'string' } } },
+        { properties: { c: { type: 'string' } } },
+      ],
+    }
+
+    expect(getValidationOutput({ a: 5, b: 1, c: 'c' }, allOfSchema, { format: 'detailed' })).toEqual({
+      valid: false,
+      keywordLocation: '',
+      instanceLocation: '',
+      errors: [
+        {
+          valid: false,
+          keywordLocation: '/allOf/0',
+          instanceLocation: '',
+          errors: [
+            {
+              valid: false,
+              keywordLocation: '/allOf/0/properties/a',
+              instanceLocation: '/a',
+              errors: [
+                expect.objectContaining({ keywordLocation: '/allOf/0/properties/a/multipleOf', instanceLocation: '/a' }),
+                expect.objectContaining({ keywordLocation: '/allOf/0/properties/a/minimum', instanceLocation: '/a' }),
+              ],
+            },
+            expect.objectContaining({ keywordLocation: '/allOf/0/properties/b/type', instanceLocation: '/b' }),
+          ],
+        },
+      ],
+    })
+    expect(getValidationOutput({ a: 12 }, allOfSchema, { format: 'detailed' })).toEqual({
+      valid: true,
+      keywordLocation: '',
+      instanceLocation: '',
+    })
+  })
+
+  it('follows references and includes the absolute keyword location', () => {
+    const refSchema: JsfSchema = {
+      $id: 'https://example.com/person.json',
+      properties: {
+        address: { $ref: '#/$defs/address' },
+        email: { $ref: 'https://example.com/email.json' },
+      },
+      $defs: {
+        address: { properties: { street: { type: 'string' } } },
+      },
+    }
+    const schemaRegistry = { 'https://example.com/email.json': { type: 'string', format: 'email' } as JsfSchema }
+
+    expect(getValidationOutput({ address: { street: 1 }, email: 'john' }, refSchema, { schemaRegistry }).errors).toEqual([
+      expect.objectContaining({
+        keywordLocation: '/properties/address/$ref/properties/street/type',
+        absoluteKeywordLocation: 'https://example.com/person.json#/$defs/address/properties/street/type',
+        instanceLocation: '/address/street',
+      }),
+      expect.objectContaining({
+        keywordLocation: '/properties/email/$ref/format',
+        absoluteKeywordLocation: 'https://example.com/email.json#/format',
+        instanceLocation: '/email',
+      }),
+    ])
+  })
+
+  it('finds the anyOf subschema of the errors', () => {
+    const anyOfSchema: JsfSchema = {
+      anyOf: [
+        { required: ['a'] },
+        { properties: { b: { type: 'string' } } },
+      ],
+    }
+
+    expect(getValidationOutput({ b: 1 }, anyOfSchema).errors).toEqual([
+      expect.objectContaining({ keywordLocation: '/anyOf/1/properties/b/type', instanceLocation: '/b' }),
+      expect.objectContaining({ keywordLocation: '/anyOf/0/required', instanceLocation: '' }),
+    ])
+  })
+
+  it('locates the errors of conditionals and presentation keywords', () => {
+    const conditionalSchema: JsfSchema = {
+      properties: {
+        country: { type: 'string' },
+        birthdate: { 'type': 'string', 'format': 'date', 'x-jsf-presentation': { inputType: 'date', minDate: '2000-01-01' } },
+      },
+      if: { properties: { country: { const: 'PT' } }, required: ['country'] },
+      then: { required: ['nif'] },
+    }
+
+    expect(getValidationOutput({ country: 'PT', birthdate: '1990-01-01' }, conditionalSchema).errors).toEqual([
+      expect.objectContaining({ keywordLocation: '/properties/birthdate/x-jsf-presentation/minDate', instanceLocation: '/birthdate' }),
+      expect.objectContaining({ keywordLocation: '/then/required', instanceLocation: '' }),
+    ])
+  })
+
+  it('uses the locale and the custom error messages', () => {
+    const messageSchema: JsfSchema = {
+      properties: {
+        age: { 'type': 'number', 'minimum': 18, 'x-jsf-errorMessage': { minimum: 'Too young' } },
+        name: { type: 'string' },
+      },
+    }
+
+    expect(getValidationOutput({ age: 10, name: 1 }, messageSchema, { locale: 'es' }).errors).toEqual([
+      expect.objectContaining({ error: 'Too young' }),
+      expect.objectContaining({ error: expect.not.stringContaining('The value must be') }),
+    ])
+  })
+})
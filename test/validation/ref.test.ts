@@ -0,0 +1,477 @@
+import type { JsfObjectSchema, JsfSchema } from '../../src/types'
+import { describe, expect, it } from '@jest/globals'
+import { createHeadlessForm, loadSchemaRegistry } from '../../src'
+import { dereferenceSchema } from '../../src/validation/ref'
+import { validateSchema } from '../../src/validation/schema'
+import { errorLike } from '../test-utils'
+
+describe('$ref validation', () => {
+  describe('local references', () => {
+    const schema: JsfSchema = {
+      type: 'object',
+      properties: {
+        home: { $ref: '#/$defs/address' },
+      },
+      $defs: {
+        address: {
+          type: 'object',
+          properties: {
+            street: { type: 'string' },
+          },
+          required: ['street'],
+        },
+      },
+    }
+
+    it('validates values against the referenced schema', () => {
+      expect(validateSchema({ home: { street: 'Main St' } }, schema)).toEqual([])
+      expect(validateSchema({ home: { street: 10 } }, schema)).toEqual([
+        errorLike({ path: ['home', '$ref', 'street'], validation: 'type' }),
+      ])
+      expect(validateSchema({ home: {} }, schema)).toEqual([
+        errorLike({ path: ['home', '$ref', 'street'], validation: 'required' }),
+      ])
+    })
+
+    it('applies the keywords next to a $ref alongside the referenced schema', () => {
+      const schemaWithSiblings: JsfSchema = {
+        $defs: { short: { type: 'string', maxLength: 3 } },
+        properties: {
+          code: { $ref: '#/$defs/short', minLength: 2 },
+        },
+      }
+
+      expect(validateSchema({ code: 'ab' }, schemaWithSiblings)).toEqual([])
+      expect(validateSchema({ code: 'a' }, schemaWithSiblings)).toEqual([
+        errorLike({ path: ['code'], validation: 'minLength' }),
+      ])
+      expect(validateSchema({ code: 'abcd' }, schemaWithSiblings)).toEqual([
+        errorLike({ path: ['code', '$ref'], validation: 'maxLength' }),
+      ])
+    })
+
+    it('resolves escaped JSON pointers', () => {
+      const escapedSchema: JsfSchema = {
+        $defs: {
+          'tilde~field': { type: 'integer' },
+          'slash/field': { type: 'string' },
+          'percent%field': { type: 'boolean' },
+        },
+        properties: {
+          tilde: { $ref: '#/$defs/tilde~0field' },
+          slash: { $ref: '#/$defs/slash~1field' },
+          percent: { $ref: '#/$defs/percent%25field' },
+        },
+      }
+
+      expect(validateSchema({ tilde: 1, slash: 'a', percent: true }, escapedSchema)).toEqual([])
+      expect(validateSchema({ tilde: 'a', slash: 1, percent: 1 }, escapedSchema)).toHaveLength(3)
+    })
+
+    it('throws an error when the reference does not exist', () => {
+      expect(() => validateSchema({ home: {} }, { properties: { home: { $ref: '#/$defs/missing' } } })).toThrow(
+        '[json-schema-form] Could not resolve $ref "#/$defs/missing"',
+      )
+    })
+  })
+
+  describe('anchors and identifiers', () => {
+    it('resolves $anchor references', () => {
+      const schema: JsfSchema = {
+        $defs: { money: { $anchor: 'money', type: 'number', minimum: 0 } },
+        properties: { salary: { $ref: '#money' } },
+      }
+
+      expect(validateSchema({ salary: 10 }, schema)).toEqual([])
+      expect(validateSchema({ salary: -1 }, schema)).toEqual([
+        errorLike({ path: ['salary', '$ref'], validation: 'minimum' }),
+      ])
+    })
+
+    it('resolves references to embedded resources with their own $id', () => {
+      const schema: JsfSchema = {
+        $id: 'https://example.com/schemas/person.json',
+        properties: {
+          age: { $ref: 'age.json' },
+        },
+        $defs: {
+          age: { $id: 'age.json', type: 'integer' },
+        },
+      }
+
+      expect(validateSchema({ age: 10 }, schema)).toEqual([])
+      expect(validateSchema({ age: 1.5 }, schema)).toEqual([
+        errorLike({ path: ['age', '$ref'], validation: 'type' }),
+      ])
+    })
+
+    it('resolves relative references against the base URI of the schema containing them', () => {
+      const schema: JsfSchema = {
+        $id: 'https://example.com/root.json',
+        $defs: {
+          address: {
+            $id: 'address.json',
+            properties: { zip: { $ref: '#/$defs/zip' } },
+            $defs: { zip: { type: 'string', pattern: '^\\d{5}$' } },
+          },
+        },
+        properties: { address: { $ref: 'address.json' } },
+      }
+
+      expect(validateSchema({ address: { zip: '12345' } }, schema)).toEqual([])
+      expect(validateSchema({ address: { zip: 'abc' } }, schema)).toEqual([
+        errorLike({ path: ['address', '$ref', 'zip', '$ref'], validation: 'pattern' }),
+      ])
+    })
+  })
+
+  describe('recursive references', () => {
+    const orgTreeSchema: JsfSchema = {
+      $ref: '#/$defs/employee',
+      $defs: {
+        employee: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            reports: { type: 'array', items: { $ref: '#/$defs/employee' } },
+          },
+          required: ['name'],
+        },
+      },
+    }
+
+    it('validates recursive structures', () => {
+      const value = {
+        name: 'CEO',
+        reports: [{ name: 'CTO', reports: [{ name: 'Engineer' }] }],
+      }
+
+      expect(validateSchema(value, orgTreeSchema)).toEqual([])
+    })
+
+    it('returns errors deep inside recursive structures', () => {
+      const value = {
+        name: 'CEO',
+        reports: [{ name: 'CTO', reports: [{ name: 1 }] }],
+      }
+
+      expect(validateSchema(value, orgTreeSchema)).toEqual([
+        errorLike({
+          path: ['$ref', 'reports', 'items', 0, '$ref', 'reports', 'items', 0, '$ref', 'name'],
+          validation: 'type',
+        }),
+      ])
+    })
+
+    it('does not hang on references that never consume the value', () => {
+      const schema: JsfSchema = {
+        $ref: '#/$defs/a',
+        $defs: {
+          a: { $ref: '#/$defs/b', type: 'string' },
+          b: { $ref: '#/$defs/a' },
+        },
+      }
+
+      expect(validateSchema('text', schema)).toEqual([])
+      expect(validateSchema(1, schema)).toEqual([errorLike({ path: ['$ref'], validation: 'type' })])
+    })
+  })
+})
+
+describe('dereferenceSchema', () => {
+  it('inlines referenced schemas, merging the sibling keywords', () => {
+    const schema: JsfSchema = {
+      properties: {
+        home: { $ref: '#/$defs/address', title: 'Home address' },
+      },
+      $defs: {
+        address: { type: 'object', title: 'Address', properties: { street: { type: 'string' } } },
+      },
+    }
+
+    expect(dereferenceSchema(schema)).toEqual({
+      properties: {
+        home: { type: 'object', title: 'Home address', properties: { street: { type: 'string' } } },
+      },
+      $defs: schema.$defs,
+    })
+  })
+
+  it('applies the sibling assertions alongside the referenced schema', () => {
+    const schema: JsfSchema = {
+      properties: {
+        code: { $ref: '#/$defs/code', maxLength: 10, title: 'Code' },
+        home: { $ref: '#/$defs/address', properties: { zip: { type: 'string' } }, required: ['zip'] },
+        office: { $ref: '#/$defs/closedAddress', properties: { zip: { type: 'string' } } },
+      },
+      $defs: {
+        code: { type: 'string', maxLength: 5 },
+        address: { type: 'object', properties: { street: { type: 'string' } }, required: ['street'] },
+        closedAddress: { type: 'object', properties: { street: { type: 'string' } }, additionalProperties: false },
+      },
+    }
+
+    expect(dereferenceSchema(schema).properties).toEqual({
+      code: { type: 'string', maxLength: 5, title: 'Code', allOf: [{ maxLength: 10 }] },
+      home: { type: 'object', properties: { street: { type: 'string' }, zip: { type: 'string' } }, required: ['street', 'zip'] },
+      office: {
+        type: 'object',
+        properties: { street: { type: 'string' } },
+        additionalProperties: false,
+        allOf: [{ properties: { zip: { type: 'string' } } }],
+      },
+    })
+  })
+
+  it('keeps recursive references as absolute references', () => {
+    const schema: JsfSchema = {
+      $defs: {
+        node: {
+          type: 'object',
+          properties: { children: { type: 'array', items: { $ref: '#/$defs/node' } } },
+        },
+      },
+      properties: { tree: { $ref: '#/$defs/node' } },
+    }
+
+    const dereferenced = dereferenceSchema(schema) as any
+    expect(dereferenced.properties.tree.properties.children.items).toEqual({ $ref: 'jsf:///root.json#/$defs/node' })
+  })
+
+  it('does not mutate the original schema', () => {
+    const schema: JsfSchema = {
+      properties: { name: { $ref: '#/$defs/name' } },
+      $defs: { name: { type: 'string' } },
+    }
+
+    dereferenceSchema(schema)
+    expect(schema).toEqual({
+      properties: { name: { $ref: '#/$defs/name' } },
+      $defs: { name: { type: 'string' } },
+    })
+  })
+})
+
+describe('$ref in createHeadlessForm', () => {
+  const schema: JsfObjectSchema = {
+    type: 'object',
+    properties: {
+      billing: { $ref: '#/$defs/address', title: 'Billing address' },
+      shipping: { $ref: '#/$defs/address', title: 'Shipping address' },
+      has_manager: { type: 'string', enum: ['yes', 'no'] },
+      manager: { $ref: '#/$defs/person' },
+    },
+    required: ['billing'],
+    allOf: [
+      {
+        if: { properties: { has_manager: { const: 'yes' } }, required: ['has_manager'] },
+        then: { required: ['manager'] },
+        else: { properties: { manager: false } },
+      },
+    ],
+    $defs: {
+      address: {
+        type: 'object',
+        properties: {
+          street: { type: 'string', title: 'Street' },
+          zip: { type: 'string', title: 'Zip code' },
+        },
+        required: ['street'],
+      },
+      person: {
+        type: 'object',
+        properties: { name: { type: 'string', title: 'Name' } },
+      },
+    },
+  }
+
+  it('builds fields from referenced schemas', () => {
+    const form = createHeadlessForm(schema)
+    const billing = form.fields.find(field => field.name === 'billing')
+
+    expect(billing).toMatchObject({ label: 'Billing address', inputType: 'fieldset', required: true })
+    expect(billing?.fields?.map(field => field.name)).toEqual(['street', 'zip'])
+    expect(billing?.fields?.[0]).toMatchObject({ label: 'Street', required: true })
+    expect(form.fields.find(field => field.name === 'shipping')).toMatchObject({ label: 'Shipping address', required: false })
+  })
+
+  it('doesn\'t let the sibling keywords override the referenced schema', () => {
+    const form = createHeadlessForm({
+      type: 'object',
+      properties: {
+        code: { $ref: '#/$defs/code', maxLength: 10 },
+        office: { $ref: '#/$defs/office', properties: { zip: { type: 'string' } } },
+      },
+      $defs: {
+        code: { type: 'string', maxLength: 5 },
+        office: { type: 'object', properties: { street: { type: 'string' } }, additionalProperties: false },
+      },
+    })
+
+    expect(form.handleValidation({ code: 'abcdef', office: { zip: '1000' } }).errors).toEqual([
+      expect.objectContaining({ path: ['code'], validation: 'maxLength' }),
+      expect.objectContaining({ path: ['office', 'zip'], validation: 'additionalProperties' }),
+    ])
+  })
+
+  it('combines the sibling x-jsf-logic with the one of the referenced schema', () => {
+    const form = createHeadlessForm({
+      'type': 'object',
+      '$ref': '#/$defs/person',
+      'properties': {
+        retired_at: { 'type': 'number', 'x-jsf-logic-validations': ['after_age'] },
+      },
+      'x-jsf-logic': {
+        validations: {
+          after_age: { errorMessage: 'Must be after the age', rule: { '>': [{ var: 'retired_at' }, { var: 'age' }] } },
+        },
+        if: { properties: { age: { minimum: 65 } }, required: ['age'] },
+        then: { required: ['retired_at'] },
+      },
+      '$defs': {
+        person: {
+          'type': 'object',
+          'properties': {
+            age: { 'type': 'number', 'x-jsf-logic-validations': ['adult'] },
+          },
+          'x-jsf-logic': {
+            validations: {
+              adult: { errorMessage: 'Must be an adult', rule: { '>=': [{ var: 'age' }, 18] } },
+            },
+          },
+        },
+      },
+    })
+
+    expect(form.handleValidation({ age: 10 }).formErrors).toEqual({ age: 'Must be an adult' })
+    expect(form.handleValidation({ age: 70 }).formErrors).toEqual({ retired_at: 'Required field' })
+    expect(form.handleValidation({ age: 70, retired_at: 60 }).formErrors).toEqual({ retired_at: 'Must be after the age' })
+    expect(form.handleValidation({ age: 70, retired_at: 71 }).formErrors).toBeUndefined()
+  })
+
+  it('validates referenced schemas', () => {
+    const form = createHeadlessForm(schema)
+
+    expect(form.handleValidation({ billing: { street: 'Main St' }, has_manager: 'no' })).not.toHaveProperty('formErrors')
+    expect(form.handleValidation({ billing: { zip: '1000' }, has_manager: 'no' })).toMatchObject({
+      formErrors: { billing: { street: 'Required field' } },
+    })
+  })
+
+  it('applies conditionals to referenced schemas', () => {
+    const form = createHeadlessForm(schema, { initialValues: { has_manager: 'no' } })
+    expect(form.fields.find(field => field.name === 'manager')?.isVisible).toBe(false)
+
+    form.handleValidation({ billing: { street: 'Main St' }, has_manager: 'yes' })
+    expect(form.fields.find(field => field.name === 'manager')).toMatchObject({ isVisible: true, required: true })
+  })
+
+  it('supports recursive schemas', () => {
+    const treeSchema: JsfObjectSchema = {
+      type: 'object',
+      properties: {
+        ceo: { $ref: '#/$defs/employee' },
+      },
+      $defs: {
+        employee: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            reports: { type: 'array', items: { $ref: '#/$defs/employee' } },
+          },
+          required: ['name'],
+        },
+      },
+    }
+
+    const form = createHeadlessForm(treeSchema)
+    expect(form.fields[0].fields?.map(field => field.name)).toEqual(['name', 'reports'])
+
+    expect(form.handleValidation({ ceo: { name: 'Ada', reports: [{ name: 'Grace', reports: [{}] }] } })).toMatchObject({
+      formErrors: { ceo: { reports: [{ reports: [{ name: 'Required field' }] }] } },
+    })
+  })
+})
+
+describe('external schemas (schemaRegistry)', () => {
+  const addressSchema: JsfSchema = {
+    $id: 'https://example.com/address.json',
+    type: 'object',
+    properties: {
+      street: { type: 'string', minLength: 3 },
+      country: { $ref: 'country.json' },
+    },
+  }
+  const countrySchema: JsfSchema = { $id: 'https://example.com/country.json', type: 'string', enum: ['PT', 'ES'] }
+
+  const schema: JsfObjectSchema = {
+    type: 'object',
+    properties: {
+      street: { $ref: 'https://example.com/address.json#/properties/street' },
+      address: { $ref: 'https://example.com/address.json' },
+    },
+  }
+
+  it('resolves references from a map of schemas', () => {
+    const schemaRegistry = {
+      'https://example.com/address.json': addressSchema,
+      'https://example.com/country.json': countrySchema,
+    }
+
+    expect(validateSchema({ street: 'Main St', address: { country: 'PT' } }, schema, { schemaRegistry })).toEqual([])
+    expect(validateSchema({ street: 'A', address: { country: 'FR' } }, schema, { schemaRegistry })).toEqual([
+      errorLike({ path: ['street', '$ref'], validation: 'minLength' }),
+      errorLike({ path: ['address', '$ref', 'country', '$ref'], validation: 'enum' }),
+    ])
+  })
+
+  it('resolves references from a Map or a resolver function', () => {
+    const schemas = new Map([
+      ['https://example.com/address.json', addressSchema],
+      ['https://example.com/country.json', countrySchema],
+    ])
+
+    expect(validateSchema({ street: 'A' }, schema, { schemaRegistry: schemas })).toHaveLength(1)
+    expect(validateSchema({ street: 'A' }, schema, { schemaRegistry: uri => schemas.get(uri) })).toHaveLength(1)
+  })
+
+  it('throws an error naming the unresolved URI', () => {
+    expect(() => validateSchema({ street: 'Main St' }, schema, { schemaRegistry: {} })).toThrow(
+      '[json-schema-form] Could not resolve $ref "https://example.com/address.json#/properties/street": no schema registered for "https://example.com/address.json"',
+    )
+  })
+
+  it('uses the registry in createHeadlessForm', () => {
+    const form = createHeadlessForm(schema, {
+      schemaRegistry: {
+        'https://example.com/address.json': addressSchema,
+        'https://example.com/country.json': countrySchema,
+      },
+    })
+
+    const address = form.fields.find(field => field.name === 'address')
+    expect(address?.fields?.map(field => field.name)).toEqual(['street', 'country'])
+    expect(address?.fields?.[1]).toMatchObject({ options: [{ label: 'PT', value: 'PT' }, { label: 'ES', value: 'ES' }] })
+    expect(form.handleValidation({ address: { street: 'A' } })).toMatchObject({
+      formErrors: { address: { street: 'Please insert at least 3 characters' } },
+    })
+  })
+
+  it('loads all the referenced schemas with an async resolver', async () => {
+    const requestedUris: string[] = []
+    const schemaRegistry = await loadSchemaRegistry(schema, async (uri) => {
+      requestedUris.push(uri)
+      return [addressSchema, countrySchema].find(externalSchema => typeof externalSchema === 'object' && externalSchema.$id === uri)
+    })
+
+    expect(requestedUris).toEqual(['https://example.com/address.json', 'https://example.com/country.json'])
+    expect(Object.keys(schemaRegistry)).toEqual(requestedUris)
+    expect(validateSchema({ address: { country: 'FR' } }, schema, { schemaRegistry })).toHaveLength(1)
+  })
+
+  it('fails to load schemas the async resolver does not know', async () => {
+    await expect(loadSchemaRegistry(schema, async () => undefined)).rejects.toThrow(
+      '[json-schema-form] Could not load schema "https://example.com/address.json"',
+    )
+  })
+})
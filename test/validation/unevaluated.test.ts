@@ -0,0 +1,195 @@
+import type { JsfObjectSchema, JsfSchema } from '../../src/types'
+import { describe, expect, it } from '@jest/globals'
+import { createHeadlessForm } from '../../src'
+import { validateSchema } from '../../src/validation/schema'
+import { errorLike } from '../test-utils'
+
+describe('unevaluatedProperties', () => {
+  it('rejects properties not declared in the schema', () => {
+    const schema: JsfSchema = {
+      type: 'object',
+      properties: { name: { type: 'string' } },
+      patternProperties: { '^x-': { type: 'string' } },
+      unevaluatedProperties: false,
+    }
+
+    expect(validateSchema({ 'name': 'John', 'x-id': '1' }, schema)).toEqual([])
+    expect(validateSchema({ name: 'John', age: 30 }, schema)).toEqual([
+      errorLike({ path: ['age'], validation: 'unevaluatedProperties', value: 30 }),
+    ])
+  })
+
+  it('doesn\'t consider the names of Object.prototype members as declared properties', () => {
+    const schema: JsfSchema = { type: 'object', properties: { name: { type: 'string' } }, unevaluatedProperties: false }
+
+    expect(validateSchema({ constructor: 1, toString: 'x' }, schema)).toEqual([
+      errorLike({ path: ['constructor'], validation: 'unevaluatedProperties' }),
+      errorLike({ path: ['toString'], validation: 'unevaluatedProperties' }),
+    ])
+  })
+
+  it('takes into account the properties declared in allOf subschemas', () => {
+    const schema: JsfSchema = {
+      allOf: [
+        { properties: { name: { type: 'string' } } },
+        { properties: { age: { type: 'number' } } },
+      ],
+      unevaluatedProperties: false,
+    }
+
+    expect(validateSchema({ name: 'John', age: 30 }, schema)).toEqual([])
+    expect(validateSchema({ name: 'John', email: 'john@example.com' }, schema)).toEqual([
+      errorLike({ path: ['email'], validation: 'unevaluatedProperties' }),
+    ])
+  })
+
+  it('only takes into account the branch applied by if/then/else', () => {
+    const schema: JsfSchema = {
+      type: 'object',
+      properties: { kind: { enum: ['person', 'company'] } },
+      if: { properties: { kind: { const: 'company' } }, required: ['kind'] },
+      then: { properties: { vat: { type: 'string' } } },
+      else: { properties: { birthdate: { type: 'string' } } },
+      unevaluatedProperties: false,
+    }
+
+    expect(validateSchema({ kind: 'company', vat: 'PT123' }, schema)).toEqual([])
+    expect(validateSchema({ kind: 'person', birthdate: '1990-01-01' }, schema)).toEqual([])
+    expect(validateSchema({ kind: 'person', vat: 'PT123' }, schema)).toEqual([
+      errorLike({ path: ['vat'], validation: 'unevaluatedProperties' }),
+    ])
+  })
+
+  it('ignores the properties of subschemas the value is not valid against', () => {
+    const schema: JsfSchema = {
+      anyOf: [
+        { properties: { a: { type: 'string' } }, required: ['a'] },
+        { properties: { b: { type: 'number' } }, required: ['b'] },
+      ],
+      unevaluatedProperties: false,
+    }
+
+    expect(validateSchema({ a: 'x' }, schema)).toEqual([])
+    expect(validateSchema({ a: 'x', b: 'not a number' }, schema)).toEqual([
+      errorLike({ path: ['b'], validation: 'unevaluatedProperties' }),
+    ])
+  })
+
+  it('takes into account the properties declared in referenced schemas', () => {
+    const schema: JsfSchema = {
+      $defs: {
+        named: { properties: { name: { type: 'string' } } },
+      },
+      $ref: '#/$defs/named',
+      properties: { age: { type: 'number' } },
+      unevaluatedProperties: false,
+    }
+
+    expect(validateSchema({ name: 'John', age: 30 }, schema)).toEqual([])
+    expect(validateSchema({ name: 'John', nickname: 'Johnny' }, schema)).toEqual([
+      errorLike({ path: ['nickname'], validation: 'unevaluatedProperties' }),
+    ])
+  })
+
+  it('validates the unevaluated properties against a schema', () => {
+    const schema: JsfSchema = {
+      properties: { name: { type: 'string' } },
+      unevaluatedProperties: { type: 'number' },
+    }
+
+    expect(validateSchema({ name: 'John', age: 30 }, schema)).toEqual([])
+    expect(validateSchema({ name: 'John', age: '30' }, schema)).toEqual([
+      errorLike({ path: ['age'], validation: 'type' }),
+    ])
+  })
+
+  it('considers properties evaluated by a nested unevaluatedProperties', () => {
+    const schema: JsfSchema = {
+      allOf: [{ unevaluatedProperties: true }],
+      unevaluatedProperties: false,
+    }
+
+    expect(validateSchema({ anything: 1 }, schema)).toEqual([])
+  })
+
+  it('allows the properties of a matching then branch in the form', () => {
+    const schema: JsfObjectSchema = {
+      type: 'object',
+      properties: {
+        is_company: { type: 'boolean' },
+      },
+      allOf: [
+        {
+          if: { properties: { is_company: { const: true } }, required: ['is_company'] },
+          then: { properties: { company_name: { type: 'string' } } },
+        },
+      ],
+      unevaluatedProperties: false,
+    }
+    const form = createHeadlessForm(schema)
+
+    expect(form.handleValidation({ is_company: true, company_name: 'Acme' })).not.toHaveProperty('formErrors')
+    expect(form.handleValidation({ is_company: false, company_name: 'Acme' })).toMatchObject({
+      formErrors: { company_name: 'Property is not allowed' },
+    })
+  })
+})
+
+describe('unevaluatedItems', () => {
+  it('rejects items not evaluated by prefixItems', () => {
+    const schema: JsfSchema = {
+      type: 'array',
+      prefixItems: [{ type: 'string' }, { type: 'number' }],
+      unevaluatedItems: false,
+    }
+
+    expect(validateSchema(['a', 1], schema)).toEqual([])
+    expect(validateSchema(['a', 1, true], schema)).toEqual([
+      errorLike({ path: ['unevaluatedItems', 2], validation: 'unevaluatedItems', value: true }),
+    ])
+  })
+
+  it('takes into account the items evaluated by items and contains', () => {
+    expect(validateSchema([1, 2], { items: { type: 'number' }, unevaluatedItems: false })).toEqual([])
+
+    const schema: JsfSchema = {
+      contains: { type: 'string' },
+      unevaluatedItems: false,
+    }
+
+    expect(validateSchema(['a', 'b'], schema)).toEqual([])
+    expect(validateSchema(['a', 1], schema)).toEqual([
+      errorLike({ path: ['unevaluatedItems', 1], validation: 'unevaluatedItems' }),
+    ])
+  })
+
+  it('takes into account the items evaluated by in-place subschemas', () => {
+    const schema: JsfSchema = {
+      allOf: [{ prefixItems: [{ type: 'string' }] }],
+      unevaluatedItems: { type: 'number' },
+    }
+
+    expect(validateSchema(['a', 1, 2], schema)).toEqual([])
+    expect(validateSchema(['a', 'b'], schema)).toEqual([
+      errorLike({ path: ['unevaluatedItems', 1], validation: 'type' }),
+    ])
+  })
+
+  it('reports the error on the item in the form', () => {
+    const schema: JsfObjectSchema = {
+      type: 'object',
+      properties: {
+        tags: {
+          type: 'array',
+          prefixItems: [{ type: 'string' }],
+          unevaluatedItems: false,
+        },
+      },
+    }
+    const form = createHeadlessForm(schema)
+
+    expect(form.handleValidation({ tags: ['a', 'b'] })).toMatchObject({
+      formErrors: { tags: [undefined, 'Item is not allowed'] },
+    })
+  })
+})
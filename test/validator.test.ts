@@ -0,0 +1,61 @@
+import type { JsfObjectSchema } from '../src/types'
+import { describe, expect, it } from '@jest/globals'
+import { createHeadlessForm, createValidator } from '../src'
+
+const schema: JsfObjectSchema = {
+  'type': 'object',
+  'properties': {
+    has_pet: { type: 'string', enum: ['yes', 'no'] },
+    pet_name: { type: 'string', minLength: 2 },
+    greeting: { 'type': 'string', 'x-jsf-logic-validations': ['is_hello'] },
+  },
+  'required': ['has_pet'],
+  'if': { properties: { has_pet: { const: 'yes' } }, required: ['has_pet'] },
+  'then': { required: ['pet_name'] },
+  'x-jsf-logic': {
+    validations: {
+      is_hello: {
+        errorMessage: 'Say hello',
+        rule: { is_hello: [{ var: 'greeting' }] },
+      },
+    },
+  },
+}
+
+const customJsonLogicOps = { is_hello: (value: string) => value === 'hello' }
+
+describe('createValidator', () => {
+  it('returns the same result as the form validation', () => {
+    const { validate } = createValidator(schema, { customJsonLogicOps })
+    const { handleValidation } = createHeadlessForm(schema, { customJsonLogicOps })
+
+    const values = [{}, { has_pet: 'yes' }, { has_pet: 'yes', pet_name: 'R' }, { has_pet: 'no', greeting: 'bye' }, { has_pet: 'no', greeting: 'hello' }]
+    for (const value of values) {
+      expect(validate(value)).toEqual(handleValidation(value))
+    }
+
+    expect(validate({ has_pet: 'yes', greeting: 'bye' })).toMatchObject({
+      formErrors: { pet_name: 'Required field', greeting: 'Say hello' },
+    })
+    expect(validate({ has_pet: 'no', greeting: 'hello' })).toEqual({})
+  })
+
+  it('supports the legacy options', () => {
+    const { validate } = createValidator(schema, { customJsonLogicOps, legacyOptions: { treatNullAsUndefined: true } })
+
+    expect(validate({ has_pet: 'yes', pet_name: null })).toEqual({
+      formErrors: { pet_name: 'Required field' },
+      errors: [expect.objectContaining({ path: ['pet_name'], validation: 'required' })],
+    })
+  })
+
+  it('supports the locale and custom messages', () => {
+    const { validate } = createValidator(schema, { locale: 'es', messages: { minLength: 'Mínimo {minLength}' } })
+
+    expect(validate({ has_pet: 'yes', pet_name: 'R' }).formErrors).toEqual({ pet_name: 'Mínimo 2' })
+  })
+
+  it('validates the options', () => {
+    expect(() => createValidator(schema, { customJsonLogicOps: { is_hello: 'nope' as any } })).toThrow(TypeError)
+  })
+})
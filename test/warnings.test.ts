@@ -0,0 +1,97 @@
+import type { JsfObjectSchema } from '../src'
+import { describe, expect, it } from '@jest/globals'
+import { createHeadlessForm, createValidator, getValidationOutput } from '../src'
+
+const schema: JsfObjectSchema = {
+  'type': 'object',
+  'properties': {
+    salary: { 'type': 'number', 'minimum': 0, 'x-jsf-logic-validations': ['usual_salary'] },
+    bonus: {
+      'type': 'number',
+      'maximum': 1000,
+      'x-jsf-errorMessage': { maximum: { message: 'Bonus is unusually high', severity: 'warning' } },
+    },
+    name: { 'type': 'string', 'minLength': 2, 'x-jsf-errorMessage': { minLength: { message: 'Name is too short' } } },
+  },
+  'x-jsf-logic': {
+    validations: {
+      usual_salary: {
+        errorMessage: 'Salary is unusually high',
+        rule: { '<': [{ var: 'salary' }, 500000] },
+        severity: 'warning',
+      },
+    },
+  },
+}
+
+describe('validation warnings', () => {
+  it('returns the warnings separately from the errors', () => {
+    const { handleValidation } = createHeadlessForm(schema)
+
+    expect(handleValidation({ salary: 1000000, bonus: 5000, name: 'J' })).toEqual({
+      formErrors: { name: 'Name is too short' },
+      errors: [expect.objectContaining({ path: ['name'], validation: 'minLength', message: 'Name is too short' })],
+      formWarnings: { salary: 'Salary is unusually high', bonus: 'Bonus is unusually high' },
+      warnings: [
+        expect.objectContaining({ path: ['salary'], validation: 'json-logic', message: 'Salary is unusually high' }),
+        expect.objectContaining({ path: ['bonus'], validation: 'maximum', message: 'Bonus is unusually high' }),
+      ],
+    })
+  })
+
+  it('doesn\'t make the value invalid', () => {
+    const { validate } = createValidator(schema)
+
+    expect(validate({ salary: 1000000, bonus: 5000 })).toEqual({
+      formWarnings: { salary: 'Salary is unusually high', bonus: 'Bonus is unusually high' },
+      warnings: [expect.objectContaining({ path: ['salary'] }), expect.objectContaining({ path: ['bonus'] })],
+    })
+    expect(validate({ salary: 1000, bonus: 100 })).toEqual({})
+  })
+
+  it('exposes only the messages in the errorMessage of the fields', () => {
+    const { fields } = createHeadlessForm(schema)
+
+    expect(fields.find(field => field.name === 'bonus')?.errorMessage).toEqual({ maximum: 'Bonus is unusually high' })
+    expect(fields.find(field => field.name === 'name')?.errorMessage).toEqual({ minLength: 'Name is too short' })
+  })
+
+  it('keeps the errors of the same field as errors', () => {
+    const { handleValidation } = createHeadlessForm(schema)
+
+    expect(handleValidation({ salary: -1 })).toEqual({
+      formErrors: { salary: 'Must be greater or equal to 0' },
+      errors: [expect.objectContaining({ validation: 'minimum' })],
+    })
+  })
+
+  it('doesn\'t make the subschemas of composition keywords and conditions invalid', () => {
+    const compositionSchema: JsfObjectSchema = {
+      type: 'object',
+      properties: {
+        code: {
+          anyOf: [
+            { 'type': 'string', 'maxLength': 3, 'x-jsf-errorMessage': { maxLength: { message: 'Code is unusually long', severity: 'warning' } } },
+            { type: 'number' },
+          ],
+        },
+        bonus: schema.properties!.bonus,
+        reason: { type: 'string' },
+      },
+      if: { properties: { bonus: schema.properties!.bonus }, required: ['bonus'] },
+      then: { required: ['reason'] },
+    }
+    const { validate } = createValidator(compositionSchema)
+
+    expect(validate({ code: 'ABCD' })).toEqual({})
+    expect(validate({ bonus: 5000 }).formErrors).toEqual({ reason: 'Required field' })
+  })
+
+  it('doesn\'t make the value invalid in the validation output', () => {
+    expect(getValidationOutput({ salary: 1000000, bonus: 5000 }, schema, { format: 'flag' })).toEqual({ valid: true })
+    expect(getValidationOutput({ salary: 1000000, bonus: 5000, name: 'J' }, schema)).toEqual({
+      valid: false,
+      errors: [expect.objectContaining({ instanceLocation: '/name', error: 'Name is too short' })],
+    })
+  })
+})
@@ -5,8 +5,9 @@ const isDevelopment = process.env.NODE_ENV === 'development'
 /** @type {import('tsup').Options} */
 const config = {
   clean: true,
-  dts: true,
-  entry: ['src/index.ts'],
+  // The command-line tool (bin) doesn't need type declarations
+  dts: { entry: 'src/index.ts' },
+  entry: ['src/index.ts', 'src/bin.ts'],
   format: ['esm'],
   sourcemap: true,
   minify: !isDevelopment,